@@ -1,14 +1,52 @@
-import React, { useState, useEffect } from 'react';
-import { AppStage, ResumeData, InterviewMessage, ResumeInput } from './types';
-import { analyzeResume } from './services/geminiService';
+import React, { useState, useEffect, useRef } from 'react';
+import { AgendaPhase, AppStage, ResumeData, InterviewMessage, ResumeInput, JobDescriptionInput, GapAnalysis, Assessment, InterviewSessionRecord, InterviewFormat, InterviewerPersona, InterviewLanguage, SessionRecording, DeliveryMetrics, QuestionBank, QuestionCoverage, InterviewEvent, DifficultyStep, CodeSnapshot, ImageFrame, DrillFocus, ScheduledDrill, Rubric } from './types';
+import { getProvider } from './services/aiProvider';
+import { saveSession, createSessionId } from './services/historyService';
+import { DEFAULT_FORMAT } from './services/interviewFormats';
+import { DEFAULT_PERSONA } from './services/interviewerPersonas';
+import { DEFAULT_AGENDA } from './services/interviewAgenda';
+import { loadQuestionBank, saveQuestionBank } from './services/questionBank';
+import { loadRubric, saveRubric } from './services/scoringRubric';
+import { DRILL_AGENDA, drillScore, loadDrills, recordDrillScore, saveDrills } from './services/drillScheduler';
+import { useI18n } from './i18n';
+import { LANGUAGES } from './i18n/languages';
 import ResumeUpload from './components/ResumeUpload';
+import ResumeReview from './components/ResumeReview';
+import ResumeAuditView from './components/ResumeAuditView';
 import InterviewLiveSession from './components/InterviewLiveSession';
 import FeedbackView from './components/FeedbackView';
+import HistoryView from './components/HistoryView';
+import DrillQueue from './components/DrillQueue';
 
 const App: React.FC = () => {
+  const { language, setLanguage, t } = useI18n();
   const [stage, setStage] = useState<AppStage>(AppStage.UPLOAD);
   const [resumeData, setResumeData] = useState<ResumeData | null>(null);
+  const [gapAnalysis, setGapAnalysis] = useState<GapAnalysis | null>(null);
+  // Held until the profile is confirmed, so the gap analysis sees the corrected resume.
+  const [jobInput, setJobInput] = useState<JobDescriptionInput | null>(null);
+  const [auditInput, setAuditInput] = useState<ResumeInput | null>(null);
+  const [format, setFormat] = useState<InterviewFormat>(DEFAULT_FORMAT);
+  const [persona, setPersona] = useState<InterviewerPersona>(DEFAULT_PERSONA);
+  const [agenda, setAgenda] = useState<AgendaPhase[]>(DEFAULT_AGENDA);
   const [messages, setMessages] = useState<InterviewMessage[]>([]);
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+  const [delivery, setDelivery] = useState<DeliveryMetrics | null>(null);
+  const [coverage, setCoverage] = useState<QuestionCoverage | null>(null);
+  const [events, setEvents] = useState<InterviewEvent[]>([]);
+  const [difficultyCurve, setDifficultyCurve] = useState<DifficultyStep[]>([]);
+  const [codeSnapshots, setCodeSnapshots] = useState<CodeSnapshot[]>([]);
+  const [whiteboard, setWhiteboard] = useState<ImageFrame | null>(null);
+  const [presenceFrames, setPresenceFrames] = useState<ImageFrame[]>([]);
+  const [questionBank, setQuestionBank] = useState<QuestionBank>(loadQuestionBank);
+  const [rubric, setRubric] = useState<Rubric>(loadRubric);
+  const [drill, setDrill] = useState<DrillFocus | null>(null);
+  const [drills, setDrills] = useState<ScheduledDrill[]>(loadDrills);
+  const [sessionStartedAt, setSessionStartedAt] = useState<number>(0);
+  // Fixed when the interview ends, so saving its scorecard again overwrites the same history record.
+  const [sessionId, setSessionId] = useState<string>('');
+  const drillScoredForRef = useRef<string | null>(null);
+  const [savedSession, setSavedSession] = useState<InterviewSessionRecord | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [hasApiKey, setHasApiKey] = useState<boolean>(false);
 
@@ -25,6 +63,21 @@ const App: React.FC = () => {
     checkKey();
   }, []);
 
+  const handleQuestionBankChange = (bank: QuestionBank) => {
+    setQuestionBank(bank);
+    saveQuestionBank(bank);
+  };
+
+  const handleRubricChange = (next: Rubric) => {
+    setRubric(next);
+    saveRubric(next);
+  };
+
+  const updateDrills = (next: ScheduledDrill[]) => {
+    setDrills(next);
+    saveDrills(next);
+  };
+
   const handleOpenKeySelector = async () => {
     if ((window as any).aistudio?.openSelectKey) {
       await (window as any).aistudio.openSelectKey();
@@ -32,31 +85,132 @@ const App: React.FC = () => {
     }
   };
 
-  const handleResumeSubmit = async (input: ResumeInput) => {
+  const handleResumeSubmit = async (input: ResumeInput, job: JobDescriptionInput | null) => {
     try {
       setStage(AppStage.ANALYZING);
-      const analyzed = await analyzeResume(input);
-      setResumeData(analyzed);
-      setStage(AppStage.INTERVIEW);
+      setResumeData(await getProvider().analyzeResume(input, language));
+      setJobInput(job);
+      setStage(AppStage.REVIEW);
     } catch (err: any) {
       console.error(err);
-      setError("Failed to analyze resume. Please try again with a clear document or text.");
+      setError(t('app.resumeError'));
       setStage(AppStage.UPLOAD);
     }
   };
 
-  const handleInterviewComplete = (finalMessages: InterviewMessage[]) => {
+  const handleResumeAudit = (input: ResumeInput, job: JobDescriptionInput | null) => {
+    setError(null);
+    setAuditInput(input);
+    setJobInput(job);
+    setStage(AppStage.RESUME_AUDIT);
+  };
+
+  const handleResumeConfirm = async (confirmed: ResumeData) => {
+    setResumeData(confirmed);
+    setError(null);
+    try {
+      setStage(AppStage.ANALYZING);
+      setGapAnalysis(jobInput ? await getProvider().analyzeJobFit(confirmed, jobInput, language) : null);
+      setSessionStartedAt(Date.now());
+      setStage(AppStage.INTERVIEW);
+    } catch (err: any) {
+      console.error(err);
+      setError(t('app.jobFitError'));
+      setStage(AppStage.REVIEW);
+    }
+  };
+
+  // Drills reuse the profile they were found on and go straight to the interview.
+  const startDrill = (focus: DrillFocus, drillResume: ResumeData, drillFormat: InterviewFormat) => {
+    reset();
+    setResumeData(drillResume);
+    setFormat(drillFormat);
+    setDrill(focus);
+    setSessionStartedAt(Date.now());
+    setStage(AppStage.INTERVIEW);
+  };
+
+  const handleInterviewComplete = (finalMessages: InterviewMessage[], finalRecording: SessionRecording | null, finalDelivery: DeliveryMetrics, finalCoverage: QuestionCoverage, finalEvents: InterviewEvent[], finalDifficultyCurve: DifficultyStep[], finalCodeSnapshots: CodeSnapshot[], finalWhiteboard: ImageFrame | null, finalPresenceFrames: ImageFrame[]) => {
     setMessages(finalMessages);
+    setRecording(finalRecording);
+    setDelivery(finalDelivery);
+    setCoverage(finalCoverage);
+    setEvents(finalEvents);
+    setDifficultyCurve(finalDifficultyCurve);
+    setCodeSnapshots(finalCodeSnapshots);
+    setWhiteboard(finalWhiteboard);
+    setPresenceFrames(finalPresenceFrames);
+    setSessionId(createSessionId());
+    setStage(AppStage.FEEDBACK);
+  };
+
+  const handleAssessment = async (assessment: Assessment) => {
+    if (!resumeData) return;
+    if (drill && drillScoredForRef.current !== sessionId) {
+      drillScoredForRef.current = sessionId;
+      updateDrills(recordDrillScore(drills, drill, format, resumeData, drillScore(assessment, drill)));
+    }
+    try {
+      await saveSession({
+        id: sessionId,
+        format,
+        persona,
+        language,
+        startedAt: sessionStartedAt || messages[0]?.timestamp || Date.now(),
+        completedAt: Date.now(),
+        resumeData,
+        gapAnalysis,
+        messages,
+        assessment,
+        recording,
+        delivery,
+        coverage,
+        events,
+        difficultyCurve,
+        codeSnapshots,
+        whiteboard,
+        drill,
+      });
+    } catch (err) {
+      // History is a convenience; a failed save must not take the scorecard down with it.
+      console.error(err);
+    }
+  };
+
+  const handleOpenSaved = (record: InterviewSessionRecord) => {
+    setSavedSession(record);
     setStage(AppStage.FEEDBACK);
   };
 
   const reset = () => {
     setStage(AppStage.UPLOAD);
     setResumeData(null);
+    setGapAnalysis(null);
+    setJobInput(null);
+    setAuditInput(null);
+    setFormat(DEFAULT_FORMAT);
+    setPersona(DEFAULT_PERSONA);
+    setAgenda(DEFAULT_AGENDA);
     setMessages([]);
+    setRecording(null);
+    setDelivery(null);
+    setCoverage(null);
+    setEvents([]);
+    setDifficultyCurve([]);
+    setCodeSnapshots([]);
+    setWhiteboard(null);
+    setPresenceFrames([]);
+    setDrill(null);
+    setSessionId('');
+    setSavedSession(null);
     setError(null);
   };
 
+  const showHistory = () => {
+    reset();
+    setStage(AppStage.HISTORY);
+  };
+
   return (
     <div className="min-h-screen flex flex-col items-center justify-center p-4 md:p-8">
       <div className="w-full max-w-4xl bg-white rounded-3xl shadow-xl overflow-hidden border border-slate-100">
@@ -67,14 +221,36 @@ const App: React.FC = () => {
             </div>
             <h1 className="text-xl font-bold text-slate-800">CareerCompass <span className="text-blue-600">AI</span></h1>
           </div>
-          {stage !== AppStage.UPLOAD && (
-            <button 
-              onClick={reset}
-              className="text-sm font-medium text-slate-500 hover:text-slate-800 transition-colors"
-            >
-              Start Over
-            </button>
-          )}
+          <div className="flex items-center space-x-6">
+            {(stage === AppStage.UPLOAD || stage === AppStage.HISTORY) && (
+              <select
+                aria-label={t('app.language')}
+                value={language}
+                onChange={(e) => setLanguage(e.target.value as InterviewLanguage)}
+                className="text-sm font-medium text-slate-500 bg-transparent hover:text-slate-800 focus:outline-none cursor-pointer"
+              >
+                {(Object.keys(LANGUAGES) as InterviewLanguage[]).map(key => (
+                  <option key={key} value={key}>{LANGUAGES[key].label}</option>
+                ))}
+              </select>
+            )}
+            {stage !== AppStage.HISTORY && stage !== AppStage.INTERVIEW && (
+              <button 
+                onClick={showHistory}
+                className="text-sm font-medium text-slate-500 hover:text-slate-800 transition-colors"
+              >
+                {t('app.history')}
+              </button>
+            )}
+            {stage !== AppStage.UPLOAD && (
+              <button 
+                onClick={reset}
+                className="text-sm font-medium text-slate-500 hover:text-slate-800 transition-colors"
+              >
+                {t('app.startOver')}
+              </button>
+            )}
+          </div>
         </header>
 
         <main className="p-8">
@@ -91,47 +267,121 @@ const App: React.FC = () => {
                   <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 5.25a3 3 0 0 1 3 3m3 0a6 6 0 0 1-7.029 5.912c-.563-.097-1.159.026-1.563.43L10.5 17.25H8.25v2.25H6v2.25H2.25v-2.818c0-.597.237-1.17.659-1.591l6.499-6.499c.404-.404.527-1 .43-1.563A6 6 0 1 1 21.75 8.25Z" />
                 </svg>
               </div>
-              <h2 className="text-2xl font-bold text-slate-800 mb-2">API Key Required</h2>
+              <h2 className="text-2xl font-bold text-slate-800 mb-2">{t('app.apiKey.title')}</h2>
               <p className="text-slate-600 max-w-md mb-6">
-                The Live Interview feature requires a valid Gemini API key from a paid GCP project.
+                {t('app.apiKey.body')}
               </p>
               <div className="flex flex-col space-y-3">
                 <button 
                   onClick={handleOpenKeySelector}
                   className="px-8 py-3 bg-blue-600 text-white rounded-full font-bold shadow-lg hover:bg-blue-700 transition-all active:scale-95"
                 >
-                  Select API Key
+                  {t('app.apiKey.select')}
                 </button>
                 <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="text-blue-600 text-sm hover:underline">
-                  View Billing Documentation
+                  {t('app.apiKey.billing')}
                 </a>
               </div>
             </div>
           ) : (
             <>
               {stage === AppStage.UPLOAD && (
-                <ResumeUpload onSubmit={handleResumeSubmit} />
+                <>
+                  <DrillQueue
+                    drills={drills}
+                    onStart={d => startDrill(d.focus, d.resumeData, d.format)}
+                    onRemove={id => updateDrills(drills.filter(d => d.id !== id))}
+                  />
+                  <ResumeUpload onSubmit={handleResumeSubmit} onAudit={handleResumeAudit} />
+                </>
               )}
 
               {stage === AppStage.ANALYZING && (
                 <div className="flex flex-col items-center justify-center py-20">
                   <div className="w-16 h-16 border-4 border-blue-100 border-t-blue-600 rounded-full animate-spin mb-6"></div>
-                  <h2 className="text-2xl font-semibold text-slate-800 mb-2">Analyzing your profile...</h2>
+                  <h2 className="text-2xl font-semibold text-slate-800 mb-2">{t('app.analyzing.title')}</h2>
                   <p className="text-slate-500 text-center max-w-md">
-                    Gemini is parsing your resume to build a tailored interview experience.
+                    {t('app.analyzing.body')}
                   </p>
                 </div>
               )}
 
+              {stage === AppStage.RESUME_AUDIT && auditInput && (
+                <ResumeAuditView
+                  input={auditInput}
+                  job={jobInput}
+                  onPractice={() => handleResumeSubmit(auditInput, jobInput)}
+                  onBack={reset}
+                />
+              )}
+
+              {stage === AppStage.REVIEW && resumeData && (
+                <ResumeReview resumeData={resumeData} onConfirm={handleResumeConfirm} />
+              )}
+
               {stage === AppStage.INTERVIEW && resumeData && (
                 <InterviewLiveSession 
                   resumeData={resumeData} 
+                  gapAnalysis={gapAnalysis}
+                  format={format}
+                  onFormatChange={setFormat}
+                  persona={persona}
+                  onPersonaChange={setPersona}
+                  agenda={drill ? DRILL_AGENDA : agenda}
+                  onAgendaChange={setAgenda}
+                  drill={drill}
+                  questionBank={questionBank}
+                  onQuestionBankChange={handleQuestionBankChange}
+                  rubric={rubric}
+                  onRubricChange={handleRubricChange}
                   onComplete={handleInterviewComplete}
                 />
               )}
 
-              {stage === AppStage.FEEDBACK && (
-                <FeedbackView messages={messages} resumeData={resumeData!} onReset={reset} />
+              {stage === AppStage.FEEDBACK && (savedSession ? (
+                <FeedbackView 
+                  key={savedSession.id}
+                  messages={savedSession.messages} 
+                  resumeData={savedSession.resumeData} 
+                  gapAnalysis={savedSession.gapAnalysis} 
+                  format={savedSession.format} 
+                  persona={savedSession.persona}
+                  recording={savedSession.recording}
+                  delivery={savedSession.delivery}
+                  coverage={savedSession.coverage}
+                  events={savedSession.events}
+                  difficultyCurve={savedSession.difficultyCurve}
+                  codeSnapshots={savedSession.codeSnapshots}
+                  whiteboard={savedSession.whiteboard}
+                  rubric={rubric}
+                  initialAssessment={savedSession.assessment}
+                  onDrill={focus => startDrill(focus, savedSession.resumeData, savedSession.format)}
+                  onReset={reset} 
+                />
+              ) : (
+                <FeedbackView 
+                  messages={messages} 
+                  resumeData={resumeData!} 
+                  gapAnalysis={gapAnalysis} 
+                  format={format} 
+                  persona={persona}
+                  recording={recording}
+                  delivery={delivery}
+                  coverage={coverage}
+                  events={events}
+                  difficultyCurve={difficultyCurve}
+                  codeSnapshots={codeSnapshots}
+                  whiteboard={whiteboard}
+                  presenceFrames={presenceFrames}
+                  rubric={rubric}
+                  onAssessment={handleAssessment}
+                  onDrill={focus => startDrill(focus, resumeData!, format)}
+                  onReset={reset} 
+                />
+              ))}
+
+              {stage === AppStage.HISTORY && (
+                <HistoryView onOpen={handleOpenSaved} onBack={reset} />
               )}
             </>
           )}
@@ -139,7 +389,7 @@ const App: React.FC = () => {
       </div>
       
       <footer className="mt-8 text-slate-400 text-sm">
-        Powered by Gemini 2.5 Flash Native Audio
+        {t('app.footer')}
       </footer>
     </div>
   );
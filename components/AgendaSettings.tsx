@@ -0,0 +1,57 @@
+import React from 'react';
+import { AgendaPhase, AgendaPhaseId } from '../types';
+import { MAX_PHASE_MINUTES, MIN_PHASE_MINUTES, agendaMinutes, scheduledPhases } from '../services/interviewAgenda';
+import { useI18n } from '../i18n';
+
+interface Props {
+  agenda: AgendaPhase[];
+  onChange: (agenda: AgendaPhase[]) => void;
+}
+
+const AgendaSettings: React.FC<Props> = ({ agenda, onChange }) => {
+  const { t } = useI18n();
+  const update = (index: number, patch: Partial<AgendaPhase>) =>
+    onChange(agenda.map((phase, i) => (i === index ? { ...phase, ...patch } : phase)));
+
+  return (
+    <details className="w-full max-w-xl text-left bg-slate-50 border border-slate-100 rounded-2xl">
+      <summary className="px-4 py-3 cursor-pointer text-sm font-semibold text-slate-700 select-none">
+        {t('agenda.summary', { phases: scheduledPhases(agenda).length, minutes: agendaMinutes(agenda) })}
+      </summary>
+      <div className="px-4 pb-4 pt-1 space-y-2">
+        {agenda.map((phase, index) => (
+          <div key={phase.id} className="flex items-center gap-3">
+            <label className="flex-1 flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={phase.enabled}
+                // The close phase is where the interviewer says the closing line, so it cannot be skipped.
+                disabled={phase.id === 'close'}
+                onChange={(e) => update(index, { enabled: e.target.checked })}
+                className="w-4 h-4 accent-blue-600"
+              />
+              {t(`agenda.phase.${phase.id as AgendaPhaseId}`)}
+            </label>
+            <input
+              type="number"
+              min={MIN_PHASE_MINUTES}
+              max={MAX_PHASE_MINUTES}
+              value={phase.minutes}
+              disabled={!phase.enabled}
+              onChange={(e) => {
+                const minutes = Number(e.target.value);
+                if (Number.isFinite(minutes)) {
+                  update(index, { minutes: Math.min(MAX_PHASE_MINUTES, Math.max(MIN_PHASE_MINUTES, Math.round(minutes))) });
+                }
+              }}
+              className="w-16 px-2 py-1 bg-white border border-slate-200 rounded-lg text-sm text-slate-800 text-right disabled:opacity-50"
+            />
+            <span className="w-8 text-xs text-slate-400">{t('agenda.minutes')}</span>
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+};
+
+export default AgendaSettings;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { CodeLanguage, CodeShareTrigger } from '../types';
+import { CODE_LANGUAGES } from '../services/codeWorkspace';
+import { useI18n } from '../i18n';
+
+interface Props {
+  language: CodeLanguage;
+  onLanguageChange: (language: CodeLanguage) => void;
+  code: string;
+  onCodeChange: (code: string) => void;
+  onShare: (trigger: Exclude<CodeShareTrigger, 'sync'>) => void;
+  disabled: boolean;
+  lastSharedAt: number | null;
+}
+
+const INDENT = '  ';
+
+const CodeEditorPane: React.FC<Props> = ({ language, onLanguageChange, code, onCodeChange, onShare, disabled, lastSharedAt }) => {
+  const { t } = useI18n();
+  const canShare = !disabled && code.trim().length > 0;
+
+  // Tab indents instead of moving focus out of the editor.
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab') return;
+    e.preventDefault();
+    const target = e.currentTarget;
+    const { selectionStart, selectionEnd } = target;
+    onCodeChange(code.slice(0, selectionStart) + INDENT + code.slice(selectionEnd));
+    requestAnimationFrame(() => target.setSelectionRange(selectionStart + INDENT.length, selectionStart + INDENT.length));
+  };
+
+  return (
+    <div className="mb-6 rounded-2xl border border-slate-200 overflow-hidden">
+      <div className="flex items-center justify-between gap-3 px-4 py-2 bg-slate-50 border-b border-slate-200">
+        <select
+          value={language}
+          onChange={(e) => onLanguageChange(e.target.value as CodeLanguage)}
+          aria-label={t('live.code.language')}
+          className="bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs font-semibold text-slate-700 outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {(Object.keys(CODE_LANGUAGES) as CodeLanguage[]).map(id => (
+            <option key={id} value={id}>{CODE_LANGUAGES[id].label}</option>
+          ))}
+        </select>
+        <div className="flex items-center gap-2">
+          {lastSharedAt !== null && (
+            <span className="text-[10px] font-semibold text-slate-400">
+              {t('live.code.shared', { time: new Date(lastSharedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) })}
+            </span>
+          )}
+          <button
+            onClick={() => onShare('run')}
+            disabled={!canShare}
+            title={t('live.code.runHint')}
+            className="px-3 py-1.5 bg-white border border-slate-200 text-slate-700 hover:bg-slate-100 rounded-lg text-xs font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('live.code.run')}
+          </button>
+          <button
+            onClick={() => onShare('submit')}
+            disabled={!canShare}
+            className="px-3 py-1.5 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-xs font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('live.code.submit')}
+          </button>
+        </div>
+      </div>
+      <textarea
+        value={code}
+        onChange={(e) => onCodeChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        spellCheck={false}
+        rows={12}
+        placeholder={`${CODE_LANGUAGES[language].comment} ${t('live.code.placeholder')}`}
+        className="w-full p-4 bg-slate-900 text-slate-100 font-mono text-[13px] leading-relaxed outline-none resize-y placeholder:text-slate-500"
+      />
+    </div>
+  );
+};
+
+export default CodeEditorPane;
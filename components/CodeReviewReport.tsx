@@ -0,0 +1,56 @@
+import React from 'react';
+import { CodeReview, CodeSnapshot } from '../types';
+import { CODE_LANGUAGES, snapshotsForReview } from '../services/codeWorkspace';
+import { useI18n } from '../i18n';
+
+interface Props {
+  snapshots: CodeSnapshot[];
+  review?: CodeReview;
+}
+
+const CodeReviewReport: React.FC<Props> = ({ snapshots, review }) => {
+  const { t } = useI18n();
+  const reviewed = snapshotsForReview(snapshots);
+  if (reviewed.length === 0) return null;
+
+  return (
+    <div className="mb-12">
+      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-[0.2em] mb-6">{t('feedback.code')}</h3>
+      {review && (
+        <div className="bg-white p-6 rounded-3xl border border-slate-100 shadow-sm mb-6">
+          <div className="flex items-baseline gap-3 mb-2">
+            <span className={`text-3xl font-black ${review.score >= 70 ? 'text-emerald-600' : 'text-amber-600'}`}>{review.score}</span>
+            <span className="text-sm text-slate-400">/ 100</span>
+          </div>
+          <p className="text-slate-700 mb-4">{review.summary}</p>
+          <div className="grid md:grid-cols-2 gap-6 text-sm">
+            <div>
+              <h4 className="text-xs font-bold text-emerald-600 uppercase tracking-widest mb-2">{t('feedback.code.strengths')}</h4>
+              <ul className="space-y-1 text-slate-600 list-disc list-inside">
+                {review.strengths.map((s, i) => <li key={i}>{s}</li>)}
+              </ul>
+            </div>
+            <div>
+              <h4 className="text-xs font-bold text-amber-600 uppercase tracking-widest mb-2">{t('feedback.code.issues')}</h4>
+              <ul className="space-y-1 text-slate-600 list-disc list-inside">
+                {review.issues.map((s, i) => <li key={i}>{s}</li>)}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+      <div className="space-y-4">
+        {reviewed.map((snapshot, i) => (
+          <div key={i} className="rounded-2xl border border-slate-200 overflow-hidden">
+            <div className="px-4 py-2 bg-slate-50 border-b border-slate-200 text-xs font-semibold text-slate-500">
+              {t(snapshot.trigger === 'submit' ? 'feedback.code.submitted' : 'feedback.code.final', { language: CODE_LANGUAGES[snapshot.language].label })}
+            </div>
+            <pre className="p-4 bg-slate-900 text-slate-100 font-mono text-[13px] leading-relaxed overflow-x-auto">{snapshot.code}</pre>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CodeReviewReport;
@@ -0,0 +1,108 @@
+import React from 'react';
+import { DeliveryMetrics } from '../types';
+import { MAX_COMFORTABLE_FILLERS_PER_100, TARGET_WPM } from '../services/deliveryAnalytics';
+import { useI18n } from '../i18n';
+
+interface Props {
+  delivery: DeliveryMetrics;
+}
+
+const Card: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="bg-white p-6 rounded-3xl border border-slate-100 shadow-sm">
+    <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3">{title}</h4>
+    {children}
+  </div>
+);
+
+const DeliveryReport: React.FC<Props> = ({ delivery }) => {
+  const { t } = useI18n();
+  if (delivery.answers.length === 0) return null;
+
+  const wpm = delivery.wordsPerMinute;
+  const paceInRange = wpm !== null && wpm >= TARGET_WPM.min && wpm <= TARGET_WPM.max;
+  const longestAnswer = Math.max(1, ...delivery.answers.map(a => a.words));
+  const answerNumber = (messageIndex: number) => delivery.answers.findIndex(a => a.messageIndex === messageIndex) + 1;
+  const voiceOnly = <p className="text-sm text-slate-400">{t('feedback.delivery.voiceOnly')}</p>;
+
+  return (
+    <div className="mb-12">
+      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-[0.2em] mb-6">{t('feedback.delivery')}</h3>
+      <div className="grid md:grid-cols-2 gap-6">
+        <Card title={t('feedback.delivery.pace')}>
+          {wpm !== null ? (
+            <>
+              <div className={`text-3xl font-black ${paceInRange ? 'text-emerald-600' : 'text-amber-600'}`}>
+                {t('feedback.delivery.wpm', { wpm })}
+              </div>
+              <p className="text-xs text-slate-500 mt-1">{t('feedback.delivery.paceHint', { min: TARGET_WPM.min, max: TARGET_WPM.max })}</p>
+            </>
+          ) : voiceOnly}
+        </Card>
+
+        <Card title={t('feedback.delivery.fillers')}>
+          <div className={`text-3xl font-black ${delivery.fillersPer100Words <= MAX_COMFORTABLE_FILLERS_PER_100 ? 'text-emerald-600' : 'text-amber-600'}`}>
+            {t('feedback.delivery.fillerRate', { rate: delivery.fillersPer100Words })}
+          </div>
+          {Object.keys(delivery.fillerWords).length > 0 ? (
+            <div className="flex flex-wrap gap-2 mt-3">
+              {Object.entries<number>(delivery.fillerWords).sort((a, b) => b[1] - a[1]).map(([word, count]) => (
+                <span key={word} className="px-3 py-1 bg-slate-50 border border-slate-100 rounded-full text-xs font-semibold text-slate-600">
+                  "{word}" × {count}
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-slate-500 mt-1">{t('feedback.delivery.noFillers')}</p>
+          )}
+        </Card>
+
+        <Card title={t('feedback.delivery.talkRatio')}>
+          {delivery.candidateTalkShare !== null ? (
+            <>
+              <div className="flex h-3 rounded-full overflow-hidden bg-slate-100">
+                <div className="bg-blue-600" style={{ width: `${delivery.candidateTalkShare * 100}%` }} />
+                <div className="bg-slate-300 flex-1" />
+              </div>
+              <div className="flex justify-between mt-2 text-xs font-semibold">
+                <span className="text-blue-600">{t('feedback.delivery.you', { share: Math.round(delivery.candidateTalkShare * 100) })}</span>
+                <span className="text-slate-500">{t('feedback.delivery.interviewer', { share: 100 - Math.round(delivery.candidateTalkShare * 100) })}</span>
+              </div>
+            </>
+          ) : voiceOnly}
+        </Card>
+
+        <Card title={t('feedback.delivery.pauses')}>
+          {delivery.mode !== 'voice' ? voiceOnly : delivery.longestPauses.length > 0 ? (
+            <ul className="space-y-1">
+              {delivery.longestPauses.map(p => (
+                <li key={p.messageIndex} className="text-sm text-slate-700">
+                  {t('feedback.delivery.pauseItem', { answer: answerNumber(p.messageIndex), seconds: (p.durationMs / 1000).toFixed(1) })}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-slate-500">{t('feedback.delivery.noPauses')}</p>
+          )}
+        </Card>
+
+        <div className="md:col-span-2">
+          <Card title={t('feedback.delivery.lengths')}>
+            <div className="flex items-end gap-1 h-24">
+              {delivery.answers.map((a, idx) => (
+                <div
+                  key={a.messageIndex}
+                  title={t('feedback.delivery.answerLabel', { answer: idx + 1, words: a.words })}
+                  className="flex-1 bg-blue-200 hover:bg-blue-400 rounded-t-md transition-colors"
+                  style={{ height: `${Math.max(4, (a.words / longestAnswer) * 100)}%` }}
+                />
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 mt-2">{t('feedback.delivery.median', { words: delivery.medianAnswerWords })}</p>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeliveryReport;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { DifficultyStep } from '../types';
+import { DifficultyLevel, MAX_DIFFICULTY } from '../services/adaptiveDifficulty';
+import { useI18n } from '../i18n';
+
+interface Props {
+  curve: DifficultyStep[];
+}
+
+const DifficultyCurve: React.FC<Props> = ({ curve }) => {
+  const { t } = useI18n();
+  // The starting level alone says nothing about how the interview adapted.
+  if (curve.length < 2) return null;
+
+  const label = (step: DifficultyStep) => t(`difficulty.level.${step.level as DifficultyLevel}`);
+  const peak = curve.reduce((max, step) => (step.level > max.level ? step : max));
+
+  return (
+    <div className="mb-12">
+      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-[0.2em] mb-2">{t('feedback.difficulty')}</h3>
+      <p className="text-sm text-slate-500 mb-6">
+        {t('feedback.difficulty.summary', { start: label(curve[0]), peak: label(peak), end: label(curve[curve.length - 1]) })}
+      </p>
+      <div className="bg-white p-6 rounded-3xl border border-slate-100 shadow-sm">
+        <div className="flex items-end gap-2 h-40">
+          {curve.map((step, i) => {
+            const previous = curve[i - 1];
+            const color = !previous || step.level === previous.level
+              ? 'bg-blue-500'
+              : step.level > previous.level ? 'bg-emerald-500' : 'bg-amber-500';
+            return (
+              <div
+                key={i}
+                title={`${label(step)}${step.score !== null ? ` · ${t('feedback.difficulty.score', { score: step.score })}` : ''}`}
+                className="flex-1 flex flex-col items-center justify-end h-full"
+              >
+                <span className="text-xs font-bold text-slate-500 mb-1">{step.level}</span>
+                <div className={`w-full max-w-[3rem] rounded-t-lg ${color}`} style={{ height: `${(step.level / MAX_DIFFICULTY) * 100}%` }} />
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex gap-2 mt-2 border-t border-slate-100 pt-2">
+          {curve.map((step, i) => (
+            <span key={i} className="flex-1 text-center text-[10px] font-semibold text-slate-400 truncate">
+              {i === 0 ? t('feedback.difficulty.start') : t('feedback.difficulty.answer', { n: i })}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DifficultyCurve;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { InterviewFormat, ScheduledDrill } from '../types';
+import { daysUntilDue, isDrillDue } from '../services/drillScheduler';
+import { useI18n } from '../i18n';
+
+interface Props {
+  drills: ScheduledDrill[];
+  onStart: (drill: ScheduledDrill) => void;
+  onRemove: (id: string) => void;
+}
+
+const DrillQueue: React.FC<Props> = ({ drills, onStart, onRemove }) => {
+  const { t } = useI18n();
+  if (drills.length === 0) return null;
+  const now = Date.now();
+
+  return (
+    <div className="mb-8">
+      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-[0.2em] mb-4">{t('drills.title')}</h3>
+      <ul className="space-y-3">
+        {drills.map(drill => {
+          const due = isDrillDue(drill, now);
+          const lastScore = drill.scores[drill.scores.length - 1]?.score;
+          return (
+            <li
+              key={drill.id}
+              className={`flex items-center justify-between gap-4 p-4 rounded-2xl border ${due ? 'bg-blue-50 border-blue-100' : 'bg-white border-slate-100'}`}
+            >
+              <div className="min-w-0">
+                <span className="block text-sm font-bold text-slate-800 truncate">{drill.focus.topic}</span>
+                <span className="block text-xs text-slate-500">
+                  {t(`format.${drill.format as InterviewFormat}.label`)}
+                  {lastScore !== undefined && ` · ${t('drills.lastScore', { score: lastScore })}`}
+                  {' · '}
+                  {due ? t('drills.due') : t('drills.dueIn', { days: daysUntilDue(drill, now) })}
+                </span>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  onClick={() => onRemove(drill.id)}
+                  className="px-3 py-1.5 text-xs font-semibold text-slate-400 hover:text-slate-700 transition-colors"
+                >
+                  {t('drills.remove')}
+                </button>
+                <button
+                  onClick={() => onStart(drill)}
+                  className={`px-4 py-2 rounded-xl text-xs font-bold transition-all active:scale-95 ${
+                    due ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-white border border-slate-200 text-slate-700 hover:bg-slate-50'
+                  }`}
+                >
+                  {t(due ? 'drills.start' : 'drills.startEarly')}
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default DrillQueue;
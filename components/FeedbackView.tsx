@@ -1,86 +1,68 @@
 
-import React, { useState, useEffect } from 'react';
-import { GoogleGenAI, Type } from "@google/genai";
-import { InterviewMessage, ResumeData } from '../types';
-
-interface Competency {
-  name: string;
-  score: number;
-  description: string;
-}
-
-interface Assessment {
-  strengths: string[];
-  improvements: string[];
-  score: number;
-  overallFeedback: string;
-  competencies: Competency[];
-}
+import React, { useState, useEffect, useRef } from 'react';
+import { InterviewMessage, ResumeData, GapAnalysis, Assessment, InterviewFormat, InterviewerPersona, InterviewerRole, InterviewPacing, InterviewStrictness, SessionRecording, DeliveryMetrics, QuestionCoverage, InterviewEvent, DifficultyStep, CodeSnapshot, ImageFrame, DrillFocus, Rubric } from '../types';
+import { getProvider } from '../services/aiProvider';
+import { DRILL_THRESHOLD } from '../services/drillScheduler';
+import { weightShare } from '../services/scoringRubric';
+import { buildReport, downloadFile, printReport, toJson, toMarkdown } from '../services/reportExport';
+import SessionReplay from './SessionReplay';
+import DeliveryReport from './DeliveryReport';
+import TopicCoverage from './TopicCoverage';
+import DifficultyCurve from './DifficultyCurve';
+import CodeReviewReport from './CodeReviewReport';
+import WhiteboardDiagram from './WhiteboardDiagram';
+import { useI18n } from '../i18n';
 
 interface Props {
   messages: InterviewMessage[];
   resumeData: ResumeData;
+  gapAnalysis: GapAnalysis | null;
+  format: InterviewFormat;
+  persona: InterviewerPersona;
+  recording: SessionRecording | null;
+  delivery: DeliveryMetrics | null;
+  coverage: QuestionCoverage | null;
+  events: InterviewEvent[];
+  difficultyCurve: DifficultyStep[];
+  codeSnapshots: CodeSnapshot[];
+  whiteboard: ImageFrame | null;
+  // Camera stills from the interview just finished; never saved, so absent when re-opening a session.
+  presenceFrames?: ImageFrame[];
+  rubric: Rubric;
+  // When re-opening a saved session the stored assessment is shown as-is, without calling the model.
+  initialAssessment?: Assessment;
+  onAssessment?: (assessment: Assessment) => void;
+  onDrill?: (focus: DrillFocus) => void;
   onReset: () => void;
 }
 
-const FeedbackView: React.FC<Props> = ({ messages, resumeData, onReset }) => {
-  const [assessment, setAssessment] = useState<Assessment | null>(null);
-  const [loading, setLoading] = useState(true);
+const FeedbackView: React.FC<Props> = ({ messages, resumeData, gapAnalysis, format, persona, recording, delivery, coverage, events, difficultyCurve, codeSnapshots, whiteboard, presenceFrames = [], rubric, initialAssessment, onAssessment, onDrill, onReset }) => {
+  const { language, t } = useI18n();
+  const [assessment, setAssessment] = useState<Assessment | null>(initialAssessment ?? null);
+  const [loading, setLoading] = useState(!initialAssessment);
+  const [failed, setFailed] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const requestedRef = useRef(false);
 
-  useEffect(() => {
-    const getFeedback = async () => {
-      try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-        const chatHistory = messages.map(m => `${m.role.toUpperCase()}: ${m.text}`).join('\n');
-        
-        const response = await ai.models.generateContent({
-          model: 'gemini-3-flash-preview',
-          contents: `Analyze this interview transcript and provide a constructive performance review based on the candidate's resume summary: "${resumeData.summary}". 
-          
-          Interview Transcript:
-          ${chatHistory}
-          
-          Provide a detailed assessment including an overall score (0-100) and specific scores for these competencies:
-          1. Technical Proficiency: How well they demonstrated the skills from their resume.
-          2. Communication: Clarity, professional tone, and responsiveness.
-          3. Resume Alignment: How consistent their answers were with the provided background.
-          4. Problem Solving: Their approach to technical or situational questions.`,
-          config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-              type: Type.OBJECT,
-              properties: {
-                strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
-                improvements: { type: Type.ARRAY, items: { type: Type.STRING } },
-                score: { type: Type.NUMBER },
-                overallFeedback: { type: Type.STRING },
-                competencies: {
-                  type: Type.ARRAY,
-                  items: {
-                    type: Type.OBJECT,
-                    properties: {
-                      name: { type: Type.STRING },
-                      score: { type: Type.NUMBER },
-                      description: { type: Type.STRING }
-                    },
-                    required: ["name", "score", "description"]
-                  }
-                }
-              },
-              required: ["strengths", "improvements", "score", "overallFeedback", "competencies"]
-            }
-          }
-        });
-
-        const data = JSON.parse(response.text || '{}');
-        setAssessment(data);
-      } catch (err) {
-        console.error(err);
-      } finally {
-        setLoading(false);
-      }
-    };
+  const getFeedback = async () => {
+    setLoading(true);
+    setFailed(false);
+    try {
+      const data = await getProvider().generateFeedback({ messages, resumeData, gapAnalysis, format, language, delivery, events, codeSnapshots, whiteboard, presenceFrames, rubric });
+      setAssessment(data);
+      onAssessment?.(data);
+    } catch (err) {
+      console.error(err);
+      setFailed(true);
+    } finally {
+      setLoading(false);
+    }
+  };
 
+  useEffect(() => {
+    // StrictMode mounts effects twice in development; one scorecard request per interview is enough.
+    if (initialAssessment || requestedRef.current) return;
+    requestedRef.current = true;
     if (messages.length > 0) {
       getFeedback();
     } else {
@@ -89,6 +71,25 @@ const FeedbackView: React.FC<Props> = ({ messages, resumeData, onReset }) => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const handleExport = (kind: 'pdf' | 'markdown' | 'json') => {
+    if (!assessment) return;
+    setExportError(null);
+    const report = buildReport({ format, persona, resumeData, gapAnalysis, messages, assessment, delivery, coverage, events, difficultyCurve, codeSnapshots, whiteboard });
+    const baseName = `interview-scorecard-${report.exportedAt.slice(0, 10)}`;
+    try {
+      if (kind === 'pdf') {
+        printReport(report);
+      } else if (kind === 'markdown') {
+        downloadFile(toMarkdown(report), `${baseName}.md`, 'text/markdown');
+      } else {
+        downloadFile(toJson(report), `${baseName}.json`, 'application/json');
+      }
+    } catch (err: any) {
+      console.error(err);
+      setExportError(err.message || t('feedback.exportError'));
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex flex-col items-center justify-center py-20 text-center">
@@ -97,19 +98,31 @@ const FeedbackView: React.FC<Props> = ({ messages, resumeData, onReset }) => {
             <path strokeLinecap="round" strokeLinejoin="round" d="M9.813 15.904 9 18.75l-.813-2.846a4.5 4.5 0 0 0-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 0 0 3.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 0 0 3.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 0 0-3.09 3.09ZM18.259 8.715 18 9.75l-.259-1.035a3.375 3.375 0 0 0-2.455-2.456L14.25 6l1.036-.259a3.375 3.375 0 0 0 2.456-2.455l.259-1.036.259 1.036a3.375 3.375 0 0 0 2.455 2.456l1.036.259-1.035.259a3.375 3.375 0 0 0-2.456 2.456ZM16.894 20.567 16.5 21.75l-.394-1.183a2.25 2.25 0 0 0-1.423-1.423L13.5 18.75l1.183-.394a2.25 2.25 0 0 0 1.423-1.423l.394-1.183.394 1.183a2.25 2.25 0 0 0 1.423 1.423l1.183.394-1.183.394a2.25 2.25 0 0 0-1.423 1.423Z" />
           </svg>
         </div>
-        <h2 className="text-2xl font-bold text-slate-800 mb-2">Analyzing Your Session</h2>
+        <h2 className="text-2xl font-bold text-slate-800 mb-2">{t('feedback.loading.title')}</h2>
         <p className="text-slate-500 max-w-sm">
-          CareerCompass AI is calculating your competencies and generating a detailed growth map...
+          {t('feedback.loading.body')}
         </p>
       </div>
     );
   }
 
+  if (failed) {
+    return (
+      <div className="text-center py-20">
+        <h2 className="text-2xl font-bold text-slate-800 mb-4">{t('feedback.error')}</h2>
+        <div className="flex justify-center gap-3">
+          <button onClick={getFeedback} className="px-6 py-2 bg-blue-600 text-white rounded-xl font-semibold">{t('feedback.retry')}</button>
+          <button onClick={onReset} className="px-6 py-2 bg-slate-100 text-slate-700 rounded-xl font-semibold">{t('app.startOver')}</button>
+        </div>
+      </div>
+    );
+  }
+
   if (!assessment && !loading) {
     return (
       <div className="text-center py-20">
-        <h2 className="text-2xl font-bold text-slate-800 mb-4">No data available</h2>
-        <button onClick={onReset} className="px-6 py-2 bg-blue-600 text-white rounded-xl">Start Over</button>
+        <h2 className="text-2xl font-bold text-slate-800 mb-4">{t('feedback.empty')}</h2>
+        <button onClick={onReset} className="px-6 py-2 bg-blue-600 text-white rounded-xl">{t('app.startOver')}</button>
       </div>
     );
   }
@@ -118,13 +131,21 @@ const FeedbackView: React.FC<Props> = ({ messages, resumeData, onReset }) => {
     <div className="animate-in fade-in duration-700 max-w-4xl mx-auto">
       <div className="flex flex-col md:flex-row items-center justify-between mb-12 gap-6">
         <div>
-          <h2 className="text-4xl font-extrabold text-slate-900 tracking-tight">Interview Scorecard</h2>
-          <p className="text-slate-500 text-lg mt-1 font-medium">Detailed breakdown of your professional alignment.</p>
+          <h2 className="text-4xl font-extrabold text-slate-900 tracking-tight">{t('feedback.title')}</h2>
+          <p className="text-slate-500 text-lg mt-1 font-medium">{t('feedback.subtitle', { format: t(`format.${format as InterviewFormat}.label`) })}</p>
+          <p className="text-slate-400 text-sm mt-1">{t('feedback.interviewer', {
+            persona: t('persona.description', {
+              role: t(`persona.role.${persona.role as InterviewerRole}`),
+              strictness: t(`persona.strictness.${persona.strictness as InterviewStrictness}`),
+              pacing: t(`persona.pacing.${persona.pacing as InterviewPacing}`),
+              voice: persona.voiceName,
+            }),
+          })}</p>
         </div>
         <div className="flex items-center space-x-3 bg-gradient-to-br from-blue-600 to-blue-700 p-8 rounded-[2.5rem] shadow-2xl shadow-blue-200 text-white">
           <div className="text-6xl font-black">{assessment?.score}</div>
           <div className="flex flex-col">
-            <span className="text-xs font-bold uppercase tracking-widest opacity-70">Overall</span>
+            <span className="text-xs font-bold uppercase tracking-widest opacity-70">{t('feedback.overall')}</span>
             <span className="text-sm font-semibold">/ 100</span>
           </div>
         </div>
@@ -132,16 +153,26 @@ const FeedbackView: React.FC<Props> = ({ messages, resumeData, onReset }) => {
 
       {/* Competencies Section */}
       <div className="mb-12">
-        <h3 className="text-sm font-bold text-slate-400 uppercase tracking-[0.2em] mb-6">Competency Breakdown</h3>
+        <div className="flex items-baseline justify-between gap-4 mb-6">
+          <h3 className="text-sm font-bold text-slate-400 uppercase tracking-[0.2em]">{t('feedback.competencies')}</h3>
+          {assessment?.rubricName && <span className="text-xs text-slate-400">{t('feedback.rubric', { name: assessment.rubricName })}</span>}
+        </div>
         <div className="grid gap-6">
-          {assessment?.competencies.map((comp, idx) => (
+          {assessment?.competencies.map((comp, idx, all) => (
             <div key={idx} className="bg-white p-6 rounded-3xl border border-slate-100 shadow-sm transition-all hover:shadow-md">
               <div className="flex items-center justify-between mb-3">
                 <div className="flex flex-col">
                   <span className="text-lg font-bold text-slate-800">{comp.name}</span>
                   <span className="text-sm text-slate-500 leading-snug">{comp.description}</span>
                 </div>
-                <div className="text-2xl font-black text-blue-600 ml-4">{comp.score}%</div>
+                <div className="flex flex-col items-end ml-4">
+                  <span className="text-2xl font-black text-blue-600">{comp.score}%</span>
+                  {comp.weight !== undefined && (
+                    <span className="text-xs text-slate-400 whitespace-nowrap">
+                      {t('feedback.weight', { share: Math.round(weightShare(comp, all) * 100) })}
+                    </span>
+                  )}
+                </div>
               </div>
               <div className="w-full h-3 bg-slate-100 rounded-full overflow-hidden">
                 <div 
@@ -149,11 +180,62 @@ const FeedbackView: React.FC<Props> = ({ messages, resumeData, onReset }) => {
                   style={{ width: `${comp.score}%`, transitionDelay: `${idx * 150}ms` }}
                 ></div>
               </div>
+              {onDrill && comp.score < DRILL_THRESHOLD && (
+                <button
+                  onClick={() => onDrill({ kind: 'competency', topic: comp.name, score: comp.score, description: comp.description })}
+                  className="mt-4 px-4 py-2 bg-blue-50 text-blue-700 border border-blue-100 rounded-xl text-xs font-bold hover:bg-blue-100 transition-all active:scale-95"
+                >
+                  {t('feedback.drill')}
+                </button>
+              )}
             </div>
           ))}
         </div>
       </div>
 
+      {assessment?.roleFit && gapAnalysis && (
+        <div className="mb-12">
+          <h3 className="text-sm font-bold text-slate-400 uppercase tracking-[0.2em] mb-6">{t('feedback.roleFit')}</h3>
+          <div className="bg-white p-8 rounded-3xl border border-slate-100 shadow-sm">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex flex-col">
+                <span className="text-lg font-bold text-slate-800">{gapAnalysis.roleTitle}</span>
+                <span className="text-sm text-slate-500 leading-snug">{assessment.roleFit.verdict}</span>
+              </div>
+              <div className="text-2xl font-black text-blue-600 ml-4">{assessment.roleFit.score}%</div>
+            </div>
+            <div className="flex flex-wrap gap-2 mb-6">
+              {gapAnalysis.matchedSkills.map((skill, i) => (
+                <span key={`m-${i}`} className="px-3 py-1 bg-emerald-50 text-emerald-700 border border-emerald-100 rounded-full text-xs font-semibold">{skill}</span>
+              ))}
+              {gapAnalysis.missingSkills.map((skill, i) => onDrill ? (
+                <button
+                  key={`g-${i}`}
+                  onClick={() => onDrill({ kind: 'skill', topic: skill, roleTitle: gapAnalysis.roleTitle })}
+                  title={t('feedback.drillSkill', { skill })}
+                  className="px-3 py-1 bg-amber-50 text-amber-700 border border-amber-100 rounded-full text-xs font-semibold hover:bg-amber-100 transition-colors"
+                >
+                  {skill}
+                </button>
+              ) : (
+                <span key={`g-${i}`} className="px-3 py-1 bg-amber-50 text-amber-700 border border-amber-100 rounded-full text-xs font-semibold">{skill}</span>
+              ))}
+              {gapAnalysis.overQualifiedAreas.map((area, i) => (
+                <span key={`o-${i}`} className="px-3 py-1 bg-indigo-50 text-indigo-700 border border-indigo-100 rounded-full text-xs font-semibold">{area}</span>
+              ))}
+            </div>
+            <ul className="space-y-3">
+              {assessment.roleFit.notes.map((note, i) => (
+                <li key={i} className="flex items-start">
+                  <span className="mr-3 mt-1.5 w-1.5 h-1.5 bg-blue-500 rounded-full shrink-0"></span>
+                  <span className="text-slate-700 text-sm leading-relaxed">{note}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
       <div className="grid md:grid-cols-2 gap-8 mb-10">
         <div className="bg-emerald-50/50 p-8 rounded-[2.5rem] border border-emerald-100 transition-all hover:scale-[1.02]">
           <h3 className="text-xl font-bold text-emerald-900 mb-6 flex items-center">
@@ -162,7 +244,7 @@ const FeedbackView: React.FC<Props> = ({ messages, resumeData, onReset }) => {
                 <path fillRule="evenodd" d="M12 2.25c-5.385 0-9.75 4.365-9.75 9.75s4.365 9.75 9.75 9.75 9.75-4.365 9.75-9.75S17.385 2.25 12 2.25Zm4.28 10.22a.75.75 0 0 0 0-1.06l-3-3a.75.75 0 1 0-1.06 1.06L13.94 11H8.25a.75.75 0 0 0 0 1.5h5.69l-1.72 1.72a.75.75 0 1 0 1.06 1.06l3-3Z" clipRule="evenodd" />
               </svg>
             </div>
-            Key Strengths
+            {t('feedback.strengths')}
           </h3>
           <ul className="space-y-4">
             {assessment?.strengths.map((s, i) => (
@@ -182,7 +264,7 @@ const FeedbackView: React.FC<Props> = ({ messages, resumeData, onReset }) => {
                 <path d="m3.265 10.602 7.667 4.128a1.25 1.25 0 0 0 1.136 0l7.667-4.128 1.451.781a.75.75 0 0 1 0 1.32l-9.75 5.25a.75.75 0 0 1-.712 0l-9.75-5.25a.75.75 0 0 1 0-1.32l1.451-.781Z" />
               </svg>
             </div>
-            Growth Areas
+            {t('feedback.growth')}
           </h3>
           <ul className="space-y-4">
             {assessment?.improvements.map((im, i) => (
@@ -201,20 +283,48 @@ const FeedbackView: React.FC<Props> = ({ messages, resumeData, onReset }) => {
             <path d="M14.017 21L14.017 18C14.017 16.8954 13.1216 16 12.017 16H8.017C6.91243 16 6.017 16.8954 6.017 18V21M14.017 21H18.017C19.1216 21 20.017 20.1046 20.017 19V10L12.017 3L4.017 10V19C4.017 20.1046 4.91243 21 6.017 21H14.017Z" />
           </svg>
         </div>
-        <h3 className="text-lg font-bold text-blue-400 uppercase tracking-[0.2em] mb-4">Strategic Advice</h3>
+        <h3 className="text-lg font-bold text-blue-400 uppercase tracking-[0.2em] mb-4">{t('feedback.advice')}</h3>
         <p className="text-slate-200 text-lg leading-relaxed font-medium">
           "{assessment?.overallFeedback}"
         </p>
       </div>
 
+      {delivery && <DeliveryReport delivery={delivery} />}
+
+      {coverage && <TopicCoverage coverage={coverage} resumeSkills={resumeData.skills} />}
+
+      <DifficultyCurve curve={difficultyCurve} />
+
+      <CodeReviewReport snapshots={codeSnapshots} review={assessment?.codeReview} />
+
+      {whiteboard && <WhiteboardDiagram image={whiteboard} />}
+
+      <SessionReplay messages={messages} recording={recording} answerReviews={assessment?.answerReviews} events={events} />
+
+      <div className="mb-12 flex flex-col items-center">
+        <h3 className="text-sm font-bold text-slate-400 uppercase tracking-[0.2em] mb-4">{t('feedback.export')}</h3>
+        <div className="flex flex-wrap justify-center gap-3">
+          {([['pdf', 'PDF'], ['markdown', 'Markdown'], ['json', 'JSON']] as const).map(([kind, label]) => (
+            <button
+              key={kind}
+              onClick={() => handleExport(kind)}
+              className="px-6 py-2.5 bg-white border border-slate-200 text-slate-700 rounded-xl text-sm font-semibold hover:bg-slate-50 transition-colors shadow-sm"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {exportError && <p className="mt-3 text-sm text-red-600">{exportError}</p>}
+      </div>
+
       <div className="flex flex-col items-center justify-center space-y-6">
         <button 
           onClick={onReset}
           className="px-12 py-5 bg-blue-600 text-white font-bold text-lg rounded-[2rem] hover:bg-blue-700 transition-all shadow-xl shadow-blue-100 hover:shadow-blue-200 active:scale-95"
         >
-          Retake Interview with New Document
+          {t('feedback.retake')}
         </button>
-        <p className="text-slate-400 text-xs font-medium uppercase tracking-widest">Powered by CareerCompass AI Analysis Engine</p>
+        <p className="text-slate-400 text-xs font-medium uppercase tracking-widest">{t('feedback.poweredBy')}</p>
       </div>
     </div>
   );
@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from 'react';
+import { InterviewFormat, InterviewerRole, InterviewSessionRecord } from '../types';
+import { listSessions, deleteSession } from '../services/historyService';
+import { ReportImportError, parseReport, reportToRecord } from '../services/reportExport';
+import { useI18n } from '../i18n';
+
+interface Props {
+  onOpen: (record: InterviewSessionRecord) => void;
+  onBack: () => void;
+}
+
+interface ChartSeries {
+  name: string;
+  // The overall score is drawn bolder than the competencies.
+  primary: boolean;
+  color: string;
+  points: (number | null)[];
+}
+
+const SERIES_COLORS = ['#10b981', '#f59e0b', '#6366f1', '#ec4899', '#14b8a6', '#8b5cf6'];
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 220;
+const CHART_PADDING = 28;
+
+const buildSeries = (sessions: InterviewSessionRecord[], overallLabel: string): ChartSeries[] => {
+  const overall: ChartSeries = {
+    name: overallLabel,
+    primary: true,
+    color: '#2563eb',
+    points: sessions.map(s => s.assessment.score),
+  };
+
+  const competencyNames: string[] = [];
+  sessions.forEach(s => s.assessment.competencies.forEach(c => {
+    if (!competencyNames.includes(c.name)) competencyNames.push(c.name);
+  }));
+
+  const competencies = competencyNames.map((name, idx) => ({
+    name,
+    primary: false,
+    color: SERIES_COLORS[idx % SERIES_COLORS.length],
+    points: sessions.map(s => s.assessment.competencies.find(c => c.name === name)?.score ?? null),
+  }));
+
+  return [overall, ...competencies];
+};
+
+const ProgressChart: React.FC<{ sessions: InterviewSessionRecord[] }> = ({ sessions }) => {
+  const { t } = useI18n();
+  const series = buildSeries(sessions, t('feedback.overall'));
+  const [hidden, setHidden] = useState<string[]>([]);
+
+  const x = (i: number) => sessions.length === 1
+    ? CHART_WIDTH / 2
+    : CHART_PADDING + (i * (CHART_WIDTH - CHART_PADDING * 2)) / (sessions.length - 1);
+  const y = (score: number) => CHART_HEIGHT - CHART_PADDING - (score / 100) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  return (
+    <div className="bg-white p-6 rounded-3xl border border-slate-100 shadow-sm">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+        {[0, 25, 50, 75, 100].map(tick => (
+          <g key={tick}>
+            <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={y(tick)} y2={y(tick)} stroke="#f1f5f9" />
+            <text x={4} y={y(tick) + 4} fontSize="10" fill="#94a3b8">{tick}</text>
+          </g>
+        ))}
+        {series.filter(s => !hidden.includes(s.name)).map(s => {
+          const coords = s.points
+            .map((p, i) => (p === null ? null : `${x(i)},${y(p)}`))
+            .filter((c): c is string => c !== null);
+          return (
+            <g key={s.name}>
+              <polyline
+                points={coords.join(' ')}
+                fill="none"
+                stroke={s.color}
+                strokeWidth={s.primary ? 3 : 2}
+                strokeLinejoin="round"
+              />
+              {s.points.map((p, i) => p !== null && (
+                <circle key={i} cx={x(i)} cy={y(p)} r={s.primary ? 4 : 3} fill={s.color} />
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex flex-wrap gap-2 mt-4">
+        {series.map(s => (
+          <button
+            key={s.name}
+            onClick={() => setHidden(prev => prev.includes(s.name) ? prev.filter(n => n !== s.name) : [...prev, s.name])}
+            className={`flex items-center px-3 py-1 rounded-full text-xs font-semibold border transition-opacity ${
+              hidden.includes(s.name) ? 'opacity-40 border-slate-200' : 'border-slate-200'
+            }`}
+          >
+            <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: s.color }}></span>
+            {s.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const HistoryView: React.FC<Props> = ({ onOpen, onBack }) => {
+  const { t } = useI18n();
+  const [sessions, setSessions] = useState<InterviewSessionRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(err => {
+        console.error(err);
+        setError(t('history.loadError'));
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteSession(id);
+      setSessions(prev => prev.filter(s => s.id !== id));
+    } catch (err) {
+      console.error(err);
+      setError(t('history.deleteError'));
+    }
+  };
+
+  const handleImport = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        onOpen(reportToRecord(parseReport(e.target?.result as string)));
+      } catch (err) {
+        console.error(err);
+        setError(err instanceof ReportImportError ? t(`history.importError.${err.problem}`) : t('history.importError'));
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20">
+        <div className="w-16 h-16 border-4 border-blue-100 border-t-blue-600 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="animate-in fade-in duration-500">
+      <div className="flex items-center justify-between mb-10">
+        <div>
+          <h2 className="text-3xl font-bold text-slate-900">{t('history.title')}</h2>
+          <p className="text-slate-500 mt-1">
+            {sessions.length === 1 ? t('history.countOne') : t('history.count', { count: sessions.length })}
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            id="report-import"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={() => document.getElementById('report-import')?.click()}
+            className="px-5 py-2.5 bg-white border border-slate-200 text-slate-700 hover:bg-slate-50 rounded-xl text-sm font-semibold transition-all active:scale-95"
+          >
+            {t('history.import')}
+          </button>
+          <button
+            onClick={onBack}
+            className="px-5 py-2.5 bg-slate-900 text-white hover:bg-slate-800 rounded-xl text-sm font-semibold transition-all active:scale-95"
+          >
+            {t('history.newInterview')}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 text-red-700 rounded-xl text-sm">
+          {error}
+        </div>
+      )}
+
+      {sessions.length === 0 ? (
+        <div className="text-center py-16 text-slate-500">
+          {t('history.empty')}
+        </div>
+      ) : (
+        <>
+          <div className="mb-12">
+            <h3 className="text-sm font-bold text-slate-400 uppercase tracking-[0.2em] mb-6">{t('history.chart')}</h3>
+            <ProgressChart sessions={sessions} />
+          </div>
+
+          <h3 className="text-sm font-bold text-slate-400 uppercase tracking-[0.2em] mb-6">{t('history.past')}</h3>
+          <div className="grid gap-4">
+            {[...sessions].reverse().map(session => (
+              <div key={session.id} className="bg-white p-6 rounded-3xl border border-slate-100 shadow-sm flex items-center justify-between">
+                <div className="flex flex-col min-w-0">
+                  <span className="text-lg font-bold text-slate-800 truncate">
+                    {session.gapAnalysis?.roleTitle || session.resumeData.experienceLevel}
+                  </span>
+                  <span className="text-sm text-slate-500">
+                    {t(`format.${session.format as InterviewFormat}.label`)} · {t(`persona.role.${session.persona.role as InterviewerRole}`)} · {new Date(session.completedAt).toLocaleString()} · {t('history.meta', { minutes: Math.max(1, Math.round((session.completedAt - session.startedAt) / 60000)), turns: session.messages.length })}
+                  </span>
+                </div>
+                <div className="flex items-center space-x-4 ml-4">
+                  <div className="text-2xl font-black text-blue-600">{session.assessment.score}</div>
+                  <button
+                    onClick={() => onOpen(session)}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-xl text-sm font-semibold hover:bg-blue-700 transition-all"
+                  >
+                    {t('history.view')}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(session.id)}
+                    className="text-red-500 text-sm font-semibold hover:underline"
+                  >
+                    {t('history.delete')}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HistoryView;
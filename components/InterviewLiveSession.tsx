@@ -1,19 +1,74 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { ResumeData, InterviewMessage } from '../types';
-import { decode, encode, decodeAudioData, createBlob } from '../utils/audioHelpers';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FunctionCall, LiveServerMessage } from '@google/genai';
+import { AgendaPhase, AgendaPhaseId, ResumeData, InterviewMessage, GapAnalysis, InterviewFormat, InterviewerPersona, InterviewMode, SessionRecording, DeliveryMetrics, DifficultyStep, InterviewEvent, CodeLanguage, CodeShareTrigger, CodeSnapshot, DrillFocus, ImageFrame, WhiteboardShape, QuestionBank, QuestionCoverage, Rubric } from '../types';
+import { decode, decodeAudioData, createBlob, createPcmBlob, createAudioContext, parseSampleRate, INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE } from '../utils/audioHelpers';
+import { createPcmCaptureNode } from '../utils/pcmCaptureWorklet';
+import { SessionRecorder, createSessionRecorder } from '../utils/sessionRecorder';
+import { VoiceActivityTracker, createVoiceActivityTracker } from '../utils/voiceActivityTracker';
+import { computeDelivery } from '../services/deliveryAnalytics';
+import { buildSystemInstruction } from '../services/promptBuilder';
+import { selectQuestions, trackCoverage } from '../services/questionBank';
+import { DRILL_QUESTIONS, drillQuestions } from '../services/drillScheduler';
+import { toInterviewEvent } from '../services/interviewTools';
+import { DifficultyLevel, MAX_DIFFICULTY, difficultyGuidance, extractScoreTag, initialDifficulty, nextDifficulty } from '../services/adaptiveDifficulty';
+import { INTERVIEW_FORMATS, isInterviewComplete } from '../services/interviewFormats';
+import { AGENDA_PHASES, agendaMinutes, locatePhase, scheduledPhases } from '../services/interviewAgenda';
+import { CODE_EDITOR_FORMATS, CODE_SYNC_INTERVAL_MS, codeNote, preferredCodeLanguage } from '../services/codeWorkspace';
+import { formatClock } from '../utils/formatClock';
+import { WHITEBOARD_FORMATS, WHITEBOARD_FRAME_INTERVAL_MS, renderWhiteboard } from '../utils/whiteboard';
+import { captureVideoFrame, hasCamera } from '../utils/cameraCapture';
+import { CAMERA_FRAME_INTERVAL_MS, CAMERA_FRAME_WIDTH, addPresenceSample } from '../services/cameraPresence';
+import { ChatSession, LiveSession, getProvider } from '../services/aiProvider';
+import PersonaSettings from './PersonaSettings';
+import AgendaSettings from './AgendaSettings';
+import QuestionBankSettings from './QuestionBankSettings';
+import RubricSettings from './RubricSettings';
+import CodeEditorPane from './CodeEditorPane';
+import WhiteboardCanvas from './WhiteboardCanvas';
+import { useI18n } from '../i18n';
 
 interface Props {
   resumeData: ResumeData;
-  onComplete: (history: InterviewMessage[]) => void;
+  gapAnalysis: GapAnalysis | null;
+  format: InterviewFormat;
+  onFormatChange: (format: InterviewFormat) => void;
+  persona: InterviewerPersona;
+  onPersonaChange: (persona: InterviewerPersona) => void;
+  agenda: AgendaPhase[];
+  onAgendaChange: (agenda: AgendaPhase[]) => void;
+  questionBank: QuestionBank;
+  onQuestionBankChange: (bank: QuestionBank) => void;
+  rubric: Rubric;
+  onRubricChange: (rubric: Rubric) => void;
+  // Set for a practice drill; the format and agenda are then fixed by the drill.
+  drill: DrillFocus | null;
+  onComplete: (history: InterviewMessage[], recording: SessionRecording | null, delivery: DeliveryMetrics, coverage: QuestionCoverage, events: InterviewEvent[], difficultyCurve: DifficultyStep[], codeSnapshots: CodeSnapshot[], whiteboard: ImageFrame | null, presenceFrames: ImageFrame[]) => void;
 }
 
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 16000;
+
+// Long enough for the closing line to be read before the scorecard replaces it.
+const AUTO_END_DELAY_MS = 2500;
+
+// 'unavailable' covers a missing camera, a denied permission and a camera unplugged mid-session.
+type CameraState = 'off' | 'on' | 'unavailable';
+
 interface TextScheduleEntry {
   text: string;
   startTime: number;
 }
 
-const InterviewLiveSession: React.FC<Props> = ({ resumeData, onComplete }) => {
+const InterviewLiveSession: React.FC<Props> = ({ resumeData, gapAnalysis, format, onFormatChange, persona, onPersonaChange, agenda, onAgendaChange, questionBank, onQuestionBankChange, rubric, onRubricChange, drill, onComplete }) => {
+  const { language, t } = useI18n();
+  // Compared by value to offer the text-chat fallback, so it must be the exact string that is thrown.
+  const micError = t('live.error.mic');
+  // Fixed once the session starts, since format and bank can no longer change then.
+  const plannedQuestions = useMemo(
+    () => drill ? drillQuestions(questionBank, format, drill) : selectQuestions(questionBank, resumeData, format),
+    [questionBank, resumeData, format, drill]
+  );
   const [isActive, setIsActive] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
   const [isReady, setIsReady] = useState(false); 
@@ -23,27 +78,96 @@ const InterviewLiveSession: React.FC<Props> = ({ resumeData, onComplete }) => {
   const [liveUserText, setLiveUserText] = useState('');
   const [isAiThinking, setIsAiThinking] = useState(false);
   const [isAiSpeaking, setIsAiSpeaking] = useState(false);
+  const [mode, setMode] = useState<InterviewMode>('voice');
+  const [draft, setDraft] = useState('');
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [isWrappingUp, setIsWrappingUp] = useState(false);
+  const [events, setEvents] = useState<InterviewEvent[]>([]);
+  // Set by the endInterview tool; the session ends once the closing line has finished playing.
+  const [endRequested, setEndRequested] = useState(false);
+  const [difficultyCurve, setDifficultyCurve] = useState<DifficultyStep[]>([]);
+  // null until the candidate toggles it, so the default follows the format picked on the boarding screen.
+  const [showCodeEditor, setShowCodeEditor] = useState<boolean | null>(null);
+  const [codeLanguage, setCodeLanguage] = useState<CodeLanguage>(() => preferredCodeLanguage(resumeData.skills));
+  const [code, setCode] = useState('');
+  const [codeSnapshots, setCodeSnapshots] = useState<CodeSnapshot[]>([]);
+  const [showWhiteboard, setShowWhiteboard] = useState<boolean | null>(null);
+  // Kept here rather than in the canvas so the drawing survives reconnects and hiding the board.
+  const [whiteboardShapes, setWhiteboardShapes] = useState<WhiteboardShape[]>([]);
+  const [whiteboardSentAt, setWhiteboardSentAt] = useState<number | null>(null);
+  // null while devices are still being listed.
+  const [cameraAvailable, setCameraAvailable] = useState<boolean | null>(null);
+  const [cameraRequested, setCameraRequested] = useState(false);
+  const [cameraState, setCameraState] = useState<CameraState>('off');
 
   const scrollRef = useRef<HTMLDivElement>(null);
   const audioContextInRef = useRef<AudioContext | null>(null);
   const audioContextOutRef = useRef<AudioContext | null>(null);
   const nextStartTimeRef = useRef<number>(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
+  const captureNodeRef = useRef<AudioWorkletNode | null>(null);
+  // Set while the worklet loads, so a reconnect during start-up cannot create a second capture node.
+  const captureStartingRef = useRef(false);
   const streamRef = useRef<MediaStream | null>(null);
   const activeSourcesCountRef = useRef(0);
+  const chatRef = useRef<ChatSession | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const voiceActivityRef = useRef<VoiceActivityTracker | null>(null);
+  const transcriptionRef = useRef<InterviewMessage[]>([]);
+  const connectionIdRef = useRef(0);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<number | null>(null);
+  const isEndingRef = useRef(false);
+  const isSocketOpenRef = useRef(false);
+
+  // Agenda clock: wall time since the interviewer first connected, including any reconnects.
+  const sessionStartRef = useRef<number | null>(null);
+  const steeredPhaseRef = useRef(0);
+  const overtimeSteeredRef = useRef(false);
+  // Text chat has no side channel, so agenda and difficulty notes wait and ride along with the candidate's next message.
+  const pendingNotesRef = useRef<string[]>([]);
+  // Read from live callbacks, which keep the state of the render that opened the connection.
+  const difficultyRef = useRef(initialDifficulty(resumeData.experienceLevel));
+  const codeBufferRef = useRef({ language: codeLanguage, code });
+  // The language and buffer last sent, so the periodic sync only sends changes.
+  const lastSharedCodeRef = useRef('');
+  const whiteboardShapesRef = useRef(whiteboardShapes);
+  // The drawing as last sent; an unchanged board is not sent again.
+  const sentWhiteboardRef = useRef(whiteboardShapes);
+  const cameraStreamRef = useRef<MediaStream | null>(null);
+  const selfViewRef = useRef<HTMLVideoElement | null>(null);
+  const presenceFramesRef = useRef<ImageFrame[]>([]);
 
   const pendingModelTextRef = useRef('');
   const textScheduleRef = useRef<TextScheduleEntry[]>([]);
   const currentModelTurnRef = useRef('');
   const currentUserTurnRef = useRef('');
-  const historyToCommitRef = useRef<{ user?: string; ai?: string } | null>(null);
+  const historyToCommitRef = useRef<{ user?: string; ai?: string; userStartedAt?: number; aiStartedAt?: number } | null>(null);
+  const userTurnStartedAtRef = useRef<number | undefined>(undefined);
+  const modelTurnStartedAtRef = useRef<number | undefined>(undefined);
 
   // Silence Nudge logic
   const lastActivityRef = useRef<number>(Date.now());
   const silenceTimerRef = useRef<number | null>(null);
 
+  useEffect(() => {
+    transcriptionRef.current = transcription;
+  }, [transcription]);
+
+  useEffect(() => {
+    codeBufferRef.current = { language: codeLanguage, code };
+  }, [codeLanguage, code]);
+
+  useEffect(() => {
+    whiteboardShapesRef.current = whiteboardShapes;
+  }, [whiteboardShapes]);
+
+  useEffect(() => {
+    hasCamera().then(setCameraAvailable);
+  }, []);
+
   // Auto-scroll logic - ensuring the latest messages are always visible
   useEffect(() => {
     if (scrollRef.current) {
@@ -78,7 +202,7 @@ const InterviewLiveSession: React.FC<Props> = ({ resumeData, onComplete }) => {
 
   // Silence Monitor: If user is silent for > 12s, the AI will provide a professional nudge
   useEffect(() => {
-    if (isActive) {
+    if (isActive && mode === 'voice') {
       silenceTimerRef.current = window.setInterval(() => {
         const now = Date.now();
         const idleTime = now - lastActivityRef.current;
@@ -97,7 +221,209 @@ const InterviewLiveSession: React.FC<Props> = ({ resumeData, onComplete }) => {
     return () => {
       if (silenceTimerRef.current) clearInterval(silenceTimerRef.current);
     };
-  }, [isActive, isAiSpeaking, isAiThinking]);
+  }, [isActive, isAiSpeaking, isAiThinking, mode]);
+
+  useEffect(() => {
+    if (!isActive) return;
+    if (sessionStartRef.current === null) {
+      sessionStartRef.current = Date.now();
+      setDifficultyCurve([{ at: sessionStartRef.current, level: difficultyRef.current, score: null }]);
+    }
+    const tick = () => setElapsedMs(Date.now() - (sessionStartRef.current ?? Date.now()));
+    tick();
+    const timer = window.setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [isActive]);
+
+  const position = locatePhase(agenda, elapsedMs);
+  const codeEditorOpen = showCodeEditor ?? CODE_EDITOR_FORMATS.includes(format);
+  const whiteboardOpen = showWhiteboard ?? WHITEBOARD_FORMATS.includes(format);
+  const currentDifficulty = difficultyCurve[difficultyCurve.length - 1]?.level ?? difficultyRef.current;
+
+  const sendAgendaNote = (note: string) => {
+    if (mode === 'text') {
+      pendingNotesRef.current.push(note);
+      return;
+    }
+    // Notes missed while disconnected are covered by the phase named in the resumption prompt.
+    if (!isSocketOpenRef.current) return;
+    sessionPromiseRef.current?.then(session => {
+      // turnComplete: false adds the note to the context without prompting a reply mid-answer.
+      session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: note }] }], turnComplete: false });
+    }).catch(() => {});
+  };
+
+  useEffect(() => {
+    if (!isActive || !position || isWrappingUp) return;
+    if (position.overtime) {
+      if (overtimeSteeredRef.current) return;
+      overtimeSteeredRef.current = true;
+      sendAgendaNote('[AGENDA: The interview is out of time. Let the candidate finish their current sentence, then deliver the closing line.]');
+    } else if (position.index > steeredPhaseRef.current) {
+      const previous = scheduledPhases(agenda)[steeredPhaseRef.current];
+      steeredPhaseRef.current = position.index;
+      const next = AGENDA_PHASES[position.phase.id];
+      sendAgendaNote(`[AGENDA: Time for ${AGENDA_PHASES[previous.id].label} is up. At the next natural break, move on to ${next.label} (${position.phase.minutes} min): ${next.goal}]`);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [position?.index, position?.overtime, isActive]);
+
+  // The closing line ends with the completion phrase; once it has been played (or shown) the interview is over.
+  useEffect(() => {
+    const last = transcription[transcription.length - 1];
+    const closed = last?.role === 'ai' && isInterviewComplete(last.text);
+    if (!isActive || !(closed || (endRequested && !isAiSpeaking))) return;
+    setIsWrappingUp(true);
+    const timer = window.setTimeout(endSession, AUTO_END_DELAY_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [transcription, isActive, endRequested, isAiSpeaking]);
+
+  // Moves the difficulty one step for a rated answer and returns the interviewer's instructions for the next question.
+  const recordAnswerScore = (score: number, at: number): string => {
+    const previous = difficultyRef.current;
+    const next = nextDifficulty(previous, score);
+    difficultyRef.current = next;
+    setDifficultyCurve(prev => [...prev, { at, level: next, score }]);
+    return difficultyGuidance(previous, next, score);
+  };
+
+  const handleToolCalls = (session: LiveSession, calls: FunctionCall[]) => {
+    const at = Date.now();
+    const received = calls.map(call => toInterviewEvent(call, at));
+    setEvents(prev => [...prev, ...received.filter((e): e is InterviewEvent => e !== null)]);
+
+    const responses = received.map(event => {
+      if (event?.type === 'answerQuality') {
+        return { result: 'ok', guidance: recordAnswerScore(event.score, at) };
+      }
+      if (event?.type === 'phase') {
+        // The interviewer moved on by itself, so the clock should not also tell it to.
+        const index = scheduledPhases(agenda).findIndex(p => p.id === event.phase);
+        if (index > steeredPhaseRef.current) steeredPhaseRef.current = index;
+      } else if (event?.type === 'end') {
+        setEndRequested(true);
+      }
+      return event ? { result: 'ok' } : null;
+    });
+
+    session.sendToolResponse({
+      functionResponses: calls.map((call, i) => ({
+        id: call.id,
+        name: call.name,
+        response: responses[i] ?? { error: `Unknown tool or invalid arguments for ${call.name}.` },
+      })),
+    });
+  };
+
+  const shareCode = (trigger: CodeShareTrigger) => {
+    const { language: bufferLanguage, code: buffer } = codeBufferRef.current;
+    if (!buffer.trim()) return;
+    const snapshot: CodeSnapshot = { at: Date.now(), language: bufferLanguage, code: buffer, trigger };
+    setCodeSnapshots(prev => [...prev, snapshot]);
+    lastSharedCodeRef.current = `${bufferLanguage}\n${buffer}`;
+    const note = codeNote(snapshot);
+
+    if (mode === 'text') {
+      // Only the newest buffer is worth sending along with the next message.
+      pendingNotesRef.current = pendingNotesRef.current.filter(n => !n.startsWith('[CODE'));
+      if (trigger === 'sync') {
+        pendingNotesRef.current.push(note);
+      } else {
+        sendChatTurn(note);
+      }
+      return;
+    }
+    if (!isSocketOpenRef.current) {
+      // Try again on the next sync once the connection is back.
+      lastSharedCodeRef.current = '';
+      return;
+    }
+    sessionPromiseRef.current?.then(session => {
+      // A run or submit asks for a reply; a background sync only updates the interviewer's context.
+      session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: note }] }], turnComplete: trigger !== 'sync' });
+    }).catch(() => {});
+  };
+
+  useEffect(() => {
+    if (!isActive) return;
+    const timer = window.setInterval(() => {
+      const { language: bufferLanguage, code: buffer } = codeBufferRef.current;
+      if (buffer.trim() && `${bufferLanguage}\n${buffer}` !== lastSharedCodeRef.current) shareCode('sync');
+    }, CODE_SYNC_INTERVAL_MS);
+    return () => clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isActive, mode]);
+
+  // A JPEG of the board if it changed since the last one was sent, marking it as sent.
+  const takeWhiteboardFrame = (): ImageFrame | null => {
+    const shapes = whiteboardShapesRef.current;
+    if (shapes === sentWhiteboardRef.current) return null;
+    sentWhiteboardRef.current = shapes;
+    const frame = renderWhiteboard(shapes, 'image/jpeg', 0.7);
+    setWhiteboardSentAt(frame.at);
+    return frame;
+  };
+
+  // Voice streams the board as video frames; text attaches it to the candidate's next message instead.
+  useEffect(() => {
+    if (!isActive || mode !== 'voice') return;
+    const timer = window.setInterval(() => {
+      if (!isSocketOpenRef.current) return;
+      const frame = takeWhiteboardFrame();
+      if (!frame) return;
+      sessionPromiseRef.current?.then(session => {
+        session.sendRealtimeInput({ video: { data: frame.data, mimeType: frame.mimeType } });
+      }).catch(() => {});
+    }, WHITEBOARD_FRAME_INTERVAL_MS);
+    return () => clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isActive, mode]);
+
+  // Any failure leaves the interview running on audio alone.
+  const startCamera = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { width: { ideal: 640 }, height: { ideal: 360 }, frameRate: { ideal: 15 } } });
+      cameraStreamRef.current = stream;
+      stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+        cameraStreamRef.current = null;
+        setCameraState('unavailable');
+      });
+      setCameraState('on');
+    } catch (err) {
+      console.warn('Camera unavailable:', err);
+      setCameraState('unavailable');
+    }
+  };
+
+  const stopCamera = () => {
+    cameraStreamRef.current?.getTracks().forEach(track => track.stop());
+    cameraStreamRef.current = null;
+  };
+
+  // Throttled to one frame a second, and paused while the tab is hidden or the socket is down.
+  // While the whiteboard is open the video stream carries the board alone, so the interviewer never sees the
+  // two interleaved; stills are still sampled for the presence score.
+  useEffect(() => {
+    if (!isActive || mode !== 'voice' || cameraState !== 'on') return;
+    const timer = window.setInterval(() => {
+      const video = selfViewRef.current;
+      if (!video || !isSocketOpenRef.current || document.hidden) return;
+      const frame = captureVideoFrame(video, CAMERA_FRAME_WIDTH);
+      if (!frame) return;
+      presenceFramesRef.current = addPresenceSample(presenceFramesRef.current, frame);
+      if (whiteboardOpen) return;
+      sessionPromiseRef.current?.then(session => {
+        session.sendRealtimeInput({ video: { data: frame.data, mimeType: frame.mimeType } });
+      }).catch(() => {});
+    }, CAMERA_FRAME_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isActive, mode, cameraState, whiteboardOpen]);
+
+  const attachSelfView = (video: HTMLVideoElement | null) => {
+    selfViewRef.current = video;
+    if (video && video.srcObject !== cameraStreamRef.current) video.srcObject = cameraStreamRef.current;
+  };
 
   const handleOpenKeySelector = async () => {
     if ((window as any).aistudio?.openSelectKey) {
@@ -106,227 +432,411 @@ const InterviewLiveSession: React.FC<Props> = ({ resumeData, onComplete }) => {
     }
   };
 
-  const startSession = async () => {
+  // Stops everything queued for playback; audio that never played is dropped from the recording and talk time too.
+  const stopPlayback = () => {
+    recorderRef.current?.discardOutputAfter(Date.now());
+    voiceActivityRef.current?.discardOutputAfter(Date.now());
+    modelTurnStartedAtRef.current = undefined;
+    sourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
+    sourcesRef.current.clear();
+    nextStartTimeRef.current = 0;
+    activeSourcesCountRef.current = 0;
+    setIsAiSpeaking(false);
+    pendingModelTextRef.current = '';
+    textScheduleRef.current = [];
+    currentModelTurnRef.current = '';
+    setLiveModelText('');
+    historyToCommitRef.current = null;
+  };
+
+  // Keeps whatever was said in a turn the connection cut short, so a resumed session still sees it.
+  const commitPartialTurn = () => {
+    const h = historyToCommitRef.current;
+    const userText = h?.user ?? currentUserTurnRef.current;
+    const aiText = h?.ai ?? (currentModelTurnRef.current + pendingModelTextRef.current);
+    const userStartedAt = h?.userStartedAt ?? userTurnStartedAtRef.current;
+    const aiStartedAt = h?.aiStartedAt ?? modelTurnStartedAtRef.current;
+    const partial: InterviewMessage[] = [];
+    if (userText) partial.push({ role: 'user', text: userText, timestamp: Date.now(), startedAt: userStartedAt });
+    if (aiText) partial.push({ role: 'ai', text: aiText, timestamp: Date.now(), startedAt: aiStartedAt });
+    if (partial.length > 0) {
+      transcriptionRef.current = [...transcriptionRef.current, ...partial];
+      setTranscription(prev => [...prev, ...partial]);
+    }
+    stopPlayback();
+    currentUserTurnRef.current = '';
+    userTurnStartedAtRef.current = undefined;
+    setLiveUserText('');
+  };
+
+  const handleConnectionDrop = () => {
+    if (isEndingRef.current) return;
+    // Anything the dropped connection still delivers belongs to a session we no longer use.
+    connectionIdRef.current++;
+    isSocketOpenRef.current = false;
+    setIsActive(false);
+    setIsAiThinking(false);
+    commitPartialTurn();
+
+    if (reconnectAttemptRef.current >= MAX_RECONNECT_ATTEMPTS) {
+      reconnectAttemptRef.current = 0;
+      setReconnectAttempt(0);
+      setIsConnecting(false);
+      setSessionError(t('live.error.lost'));
+      return;
+    }
+
+    const attempt = ++reconnectAttemptRef.current;
+    setReconnectAttempt(attempt);
+    reconnectTimerRef.current = window.setTimeout(() => {
+      reconnectTimerRef.current = null;
+      connect();
+    }, Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS));
+  };
+
+  const startCapture = async () => {
+    const ctx = audioContextInRef.current;
+    if (!ctx || !streamRef.current || captureNodeRef.current || captureStartingRef.current) return;
+    captureStartingRef.current = true;
     try {
-      setSessionError(null);
-      setIsConnecting(true);
-      setIsReady(true);
+      const source = ctx.createMediaStreamSource(streamRef.current);
+      // Capture, Int16 conversion and chunking run on the audio thread; only base64 framing happens here.
+      captureNodeRef.current = await createPcmCaptureNode(ctx, ({ pcm, samples, peak }) => {
+        if (peak > 0.04) lastActivityRef.current = Date.now();
+        recorderRef.current?.addInput(samples, ctx.sampleRate);
+        voiceActivityRef.current?.addInput(peak, (samples.length / ctx.sampleRate) * 1000);
 
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+        // Audio spoken while reconnecting is kept in the recording but has nowhere to go.
+        if (!isSocketOpenRef.current) return;
 
-      if (!window.AudioContext && !(window as any).webkitAudioContext) {
-        throw new Error("Your browser does not support the Web Audio API.");
-      }
+        // The worklet's PCM is only usable as-is when the browser honoured the requested rate.
+        const pcmBlob = ctx.sampleRate === INPUT_SAMPLE_RATE ? createPcmBlob(pcm) : createBlob(samples, ctx.sampleRate);
+        sessionPromiseRef.current?.then(session => {
+          session.sendRealtimeInput({ media: pcmBlob });
+        }).catch(() => {});
+      });
+      source.connect(captureNodeRef.current);
+    } catch (err: any) {
+      console.error('Audio capture error:', err);
+      setSessionError(err.message || t('live.error.capture'));
+    } finally {
+      captureStartingRef.current = false;
+    }
+  };
 
-      audioContextInRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      audioContextOutRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      
-      if (audioContextInRef.current.state === 'suspended') await audioContextInRef.current.resume();
-      if (audioContextOutRef.current.state === 'suspended') await audioContextOutRef.current.resume();
+  const currentPhase = () => sessionStartRef.current === null
+    ? undefined
+    : locatePhase(agenda, Date.now() - sessionStartRef.current)?.phase.id;
 
-      let stream: MediaStream;
-      try {
-        stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-        streamRef.current = stream;
-      } catch (micErr: any) {
-        throw new Error("Could not access microphone. Please ensure permissions are granted.");
-      }
+  // Opens a live connection. The mic, audio contexts and capture node outlive it, so a reconnect
+  // only replaces the socket; the transcript so far is passed in so the interviewer can resume.
+  const connect = () => {
+    const connectionId = ++connectionIdRef.current;
+    const isCurrent = () => connectionId === connectionIdRef.current;
 
-      const systemInstruction = `
-        You are 'CareerCompass AI', a distinguished Senior Engineering Director and Technical Lead. 
-        Your goal is to conduct a professional, high-caliber technical interview.
-        
-        TONE & STYLE:
-        - Be professional, authoritative, yet deeply natural and empathetic.
-        - Avoid robotic delivery. Use professional conversational bridges like "I appreciate that explanation," "Let's pivot slightly to your experience with...", or "That's a nuanced perspective."
-        - Use a natural professional cadence. Pause appropriately. 
-        - Sound like a mentor who is evaluating a peer.
-
-        STARTUP PROTOCOL:
-        1. YOU MUST INITIATE THE CONVERSATION IMMEDIATELY.
-        2. Opening Greeting: "Good day. I'm the CareerCompass AI Lead. It's a pleasure to speak with you today. I've had a chance to review your profile and I'm looking forward to our discussion. To begin, how are you doing today?"
-
-        INTERVIEW CONTENT:
-        - Candidate Skills: ${resumeData.skills.join(', ')}
-        - Level: ${resumeData.experienceLevel}
-        - Background: ${resumeData.summary}
-
-        INTERACTION GUIDELINES:
-        - Ask one nuanced question at a time.
-        - Listen carefully to the candidate's response. Acknowledge their points professionally before moving to the next topic.
-        - If the candidate is quiet, offer professional support or rephrase.
-        - Conclude with: "Thank you for the insightful conversation. This concludes our session. Interview complete."
-      `;
-
-      sessionPromiseRef.current = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            // 'Kore' is chosen for a clear, professional, and authoritative tone suitable for an Engineering Director.
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-          },
-          systemInstruction,
-          outputAudioTranscription: {},
-          inputAudioTranscription: {},
+    const systemInstruction = buildSystemInstruction({
+      resumeData,
+      format,
+      persona,
+      gapAnalysis,
+      mode: 'voice',
+      language,
+      agenda,
+      questions: plannedQuestions,
+      difficulty: difficultyRef.current,
+      camera: cameraStreamRef.current !== null,
+      drill: drill ?? undefined,
+      priorTranscript: transcriptionRef.current,
+      currentPhase: currentPhase(),
+    });
+
+    sessionPromiseRef.current = getProvider().connectLive({
+      systemInstruction,
+      voiceName: persona.voiceName,
+      language,
+      callbacks: {
+        onopen: () => {
+          if (!isCurrent()) return;
+          isSocketOpenRef.current = true;
+          setIsConnecting(false);
+          setIsActive(true);
+          setSessionError(null);
+          reconnectAttemptRef.current = 0;
+          setReconnectAttempt(0);
+          lastActivityRef.current = Date.now();
+          
+          setTimeout(startCapture, 600);
         },
-        callbacks: {
-          onopen: () => {
-            setIsConnecting(false);
-            setIsActive(true);
-            setSessionError(null);
+        onmessage: async (message: LiveServerMessage) => {
+          if (!isCurrent()) return;
+          const functionCalls = message.toolCall?.functionCalls;
+          if (functionCalls?.length) {
+            sessionPromiseRef.current?.then(session => handleToolCalls(session, functionCalls)).catch(() => {});
+          }
+          const serverContent = message.serverContent;
+          if (!serverContent) return;
+
+          if (serverContent.outputTranscription) {
+            pendingModelTextRef.current += serverContent.outputTranscription.text;
+            setIsAiThinking(false);
             lastActivityRef.current = Date.now();
-            
-            setTimeout(() => {
-              if (audioContextInRef.current && streamRef.current) {
-                const source = audioContextInRef.current.createMediaStreamSource(streamRef.current);
-                scriptProcessorRef.current = audioContextInRef.current.createScriptProcessor(2048, 1, 1);
-                
-                scriptProcessorRef.current.onaudioprocess = (e) => {
-                  const inputData = e.inputBuffer.getChannelData(0);
-                  const pcmBlob = createBlob(inputData);
-                  
-                  let hasEnergy = false;
-                  for (let i = 0; i < inputData.length; i++) {
-                    if (Math.abs(inputData[i]) > 0.04) {
-                      hasEnergy = true;
-                      break;
-                    }
-                  }
-                  if (hasEnergy) lastActivityRef.current = Date.now();
-
-                  sessionPromiseRef.current?.then(session => {
-                    session.sendRealtimeInput({ media: pcmBlob });
-                  });
-                };
+          } else if (serverContent.inputTranscription) {
+            if (!currentUserTurnRef.current) userTurnStartedAtRef.current = Date.now();
+            currentUserTurnRef.current += serverContent.inputTranscription.text;
+            setLiveUserText(currentUserTurnRef.current);
+            setIsAiThinking(true);
+            lastActivityRef.current = Date.now();
+          }
 
-                source.connect(scriptProcessorRef.current);
-                scriptProcessorRef.current.connect(audioContextInRef.current.destination);
-              }
-            }, 600);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            const serverContent = message.serverContent;
-            if (!serverContent) return;
-
-            if (serverContent.outputTranscription) {
-              pendingModelTextRef.current += serverContent.outputTranscription.text;
-              setIsAiThinking(false);
-              lastActivityRef.current = Date.now();
-            } else if (serverContent.inputTranscription) {
-              currentUserTurnRef.current += serverContent.inputTranscription.text;
-              setLiveUserText(currentUserTurnRef.current);
-              setIsAiThinking(true);
-              lastActivityRef.current = Date.now();
-            }
+          const inlineAudio = serverContent.modelTurn?.parts?.[0]?.inlineData;
+          const base64Audio = inlineAudio?.data;
+          if (base64Audio && audioContextOutRef.current) {
+            const ctx = audioContextOutRef.current;
+            const outputRate = parseSampleRate(inlineAudio?.mimeType, OUTPUT_SAMPLE_RATE);
+            const audioBuffer = await decodeAudioData(decode(base64Audio), ctx, outputRate, 1);
+            const startTime = Math.max(nextStartTimeRef.current, ctx.currentTime);
+            const textChunk = pendingModelTextRef.current;
+            pendingModelTextRef.current = ''; 
 
-            const base64Audio = serverContent.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (base64Audio && audioContextOutRef.current) {
-              const ctx = audioContextOutRef.current;
-              const audioBuffer = await decodeAudioData(decode(base64Audio), ctx, 24000, 1);
-              const startTime = Math.max(nextStartTimeRef.current, ctx.currentTime);
-              const textChunk = pendingModelTextRef.current;
-              pendingModelTextRef.current = ''; 
-
-              const source = ctx.createBufferSource();
-              source.buffer = audioBuffer;
-              source.connect(ctx.destination);
-              setIsAiSpeaking(true);
-              activeSourcesCountRef.current++;
-
-              textScheduleRef.current.push({ text: textChunk, startTime });
-
-              source.addEventListener('ended', () => {
-                sourcesRef.current.delete(source);
-                activeSourcesCountRef.current--;
-                if (activeSourcesCountRef.current === 0) {
-                  setIsAiSpeaking(false);
-                  lastActivityRef.current = Date.now();
-                  if (historyToCommitRef.current) {
-                    const h = historyToCommitRef.current;
-                    setTranscription(prev => {
-                      const updated = [...prev];
-                      if (h.user) updated.push({ role: 'user', text: h.user, timestamp: Date.now() });
-                      if (h.ai) updated.push({ role: 'ai', text: h.ai, timestamp: Date.now() });
-                      return updated;
-                    });
-                    historyToCommitRef.current = null;
-                    setLiveModelText('');
-                    setLiveUserText('');
-                    currentModelTurnRef.current = '';
-                    currentUserTurnRef.current = '';
-                  }
-                }
-              });
+            const playbackAt = Date.now() + (startTime - ctx.currentTime) * 1000;
+            if (modelTurnStartedAtRef.current === undefined) modelTurnStartedAtRef.current = playbackAt;
+            recorderRef.current?.addOutput(audioBuffer.getChannelData(0), audioBuffer.sampleRate, playbackAt);
+            voiceActivityRef.current?.addOutput(audioBuffer.duration * 1000, playbackAt);
 
-              source.start(startTime);
-              nextStartTimeRef.current = startTime + audioBuffer.duration;
-              sourcesRef.current.add(source);
-            }
+            const source = ctx.createBufferSource();
+            source.buffer = audioBuffer;
+            source.connect(ctx.destination);
+            setIsAiSpeaking(true);
+            activeSourcesCountRef.current++;
+
+            textScheduleRef.current.push({ text: textChunk, startTime });
 
-            if (serverContent.turnComplete) {
-              const finalAiText = currentModelTurnRef.current + pendingModelTextRef.current;
-              if (activeSourcesCountRef.current > 0) {
-                historyToCommitRef.current = { user: currentUserTurnRef.current, ai: finalAiText };
-              } else {
-                setTranscription(prev => {
-                  const updated = [...prev];
-                  if (currentUserTurnRef.current) updated.push({ role: 'user', text: currentUserTurnRef.current, timestamp: Date.now() });
-                  if (finalAiText) updated.push({ role: 'ai', text: finalAiText, timestamp: Date.now() });
-                  return updated;
-                });
-                setLiveModelText('');
-                setLiveUserText('');
-                currentModelTurnRef.current = '';
-                currentUserTurnRef.current = '';
+            source.addEventListener('ended', () => {
+              // Sources stopped by stopPlayback were already accounted for.
+              if (!sourcesRef.current.has(source)) return;
+              sourcesRef.current.delete(source);
+              activeSourcesCountRef.current--;
+              if (activeSourcesCountRef.current === 0) {
+                setIsAiSpeaking(false);
+                lastActivityRef.current = Date.now();
+                if (historyToCommitRef.current) {
+                  const h = historyToCommitRef.current;
+                  setTranscription(prev => {
+                    const updated = [...prev];
+                    if (h.user) updated.push({ role: 'user', text: h.user, timestamp: Date.now(), startedAt: h.userStartedAt });
+                    if (h.ai) updated.push({ role: 'ai', text: h.ai, timestamp: Date.now(), startedAt: h.aiStartedAt });
+                    return updated;
+                  });
+                  historyToCommitRef.current = null;
+                  setLiveModelText('');
+                  setLiveUserText('');
+                  currentModelTurnRef.current = '';
+                  currentUserTurnRef.current = '';
+                }
               }
-              lastActivityRef.current = Date.now();
-            }
+            });
 
-            if (serverContent.interrupted) {
-              sourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-              activeSourcesCountRef.current = 0;
-              setIsAiSpeaking(false);
-              pendingModelTextRef.current = '';
-              textScheduleRef.current = [];
-              currentModelTurnRef.current = '';
-              setLiveModelText('');
-              historyToCommitRef.current = null;
-              lastActivityRef.current = Date.now();
-            }
-          },
-          onerror: (e: any) => {
-            console.error('Live API Error:', e);
-            const msg = e.message || String(e);
-            if (msg.includes("Requested entity was not found")) {
-              setSessionError("Invalid API key. Ensure you use a key from a paid project.");
+            source.start(startTime);
+            nextStartTimeRef.current = startTime + audioBuffer.duration;
+            sourcesRef.current.add(source);
+          }
+
+          if (serverContent.turnComplete) {
+            const finalAiText = currentModelTurnRef.current + pendingModelTextRef.current;
+            const userStartedAt = userTurnStartedAtRef.current;
+            const aiStartedAt = modelTurnStartedAtRef.current;
+            userTurnStartedAtRef.current = undefined;
+            modelTurnStartedAtRef.current = undefined;
+            if (activeSourcesCountRef.current > 0) {
+              historyToCommitRef.current = { user: currentUserTurnRef.current, ai: finalAiText, userStartedAt, aiStartedAt };
             } else {
-              setSessionError("A connection error occurred. Please refresh or check your API key.");
+              const userText = currentUserTurnRef.current;
+              setTranscription(prev => {
+                const updated = [...prev];
+                if (userText) updated.push({ role: 'user', text: userText, timestamp: Date.now(), startedAt: userStartedAt });
+                if (finalAiText) updated.push({ role: 'ai', text: finalAiText, timestamp: Date.now(), startedAt: aiStartedAt });
+                return updated;
+              });
+              setLiveModelText('');
+              setLiveUserText('');
+              currentModelTurnRef.current = '';
+              currentUserTurnRef.current = '';
             }
+            lastActivityRef.current = Date.now();
+          }
+
+          if (serverContent.interrupted) {
+            stopPlayback();
+            lastActivityRef.current = Date.now();
+          }
+        },
+        onerror: (e: any) => {
+          if (!isCurrent()) return;
+          console.error('Live API Error:', e);
+          const msg = e.message || String(e);
+          if (msg.includes("Requested entity was not found")) {
+            // Retrying cannot fix a bad key.
+            connectionIdRef.current++;
+            isSocketOpenRef.current = false;
+            setSessionError(t('live.error.apiKey'));
             setIsConnecting(false);
             setIsActive(false);
-          },
-          onclose: () => setIsActive(false),
+            return;
+          }
+          handleConnectionDrop();
         },
-      });
+        onclose: () => {
+          if (!isCurrent()) return;
+          handleConnectionDrop();
+        },
+      },
+    });
+
+    sessionPromiseRef.current.catch((err) => {
+      if (!isCurrent()) return;
+      console.error('Live API connect failed:', err);
+      handleConnectionDrop();
+    });
+  };
+
+  const startSession = async () => {
+    try {
+      setMode('voice');
+      setSessionError(null);
+      setIsConnecting(true);
+      setIsReady(true);
+      isEndingRef.current = false;
+      reconnectAttemptRef.current = 0;
+      setReconnectAttempt(0);
+
+      if (!window.AudioContext && !(window as any).webkitAudioContext) {
+        throw new Error(t('live.error.webAudio'));
+      }
+
+      if (!recorderRef.current) recorderRef.current = createSessionRecorder();
+      if (!voiceActivityRef.current) voiceActivityRef.current = createVoiceActivityTracker();
+
+      // Reused across manual reconnects so capture and playback keep running on the same clocks.
+      if (!audioContextInRef.current || audioContextInRef.current.state === 'closed') {
+        audioContextInRef.current = createAudioContext(INPUT_SAMPLE_RATE);
+        captureNodeRef.current = null;
+      }
+      if (!audioContextOutRef.current || audioContextOutRef.current.state === 'closed') {
+        audioContextOutRef.current = createAudioContext(OUTPUT_SAMPLE_RATE);
+      }
+      
+      if (audioContextInRef.current.state === 'suspended') await audioContextInRef.current.resume();
+      if (audioContextOutRef.current.state === 'suspended') await audioContextOutRef.current.resume();
+
+      if (!streamRef.current) {
+        try {
+          streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
+        } catch (micErr: any) {
+          throw new Error(micError);
+        }
+      }
+      if (cameraRequested && cameraAvailable && !cameraStreamRef.current) await startCamera();
+
+      connect();
     } catch (err: any) {
-      setSessionError(err.message || "An unexpected error occurred.");
+      setSessionError(err.message || t('live.error.unexpected'));
       setIsConnecting(false);
     }
   };
 
+  const sendChatTurn = async (text: string) => {
+    if (!chatRef.current) return;
+    setIsAiThinking(true);
+    try {
+      const notes = pendingNotesRef.current;
+      pendingNotesRef.current = [];
+      const reply = await chatRef.current.sendMessage([...notes, text].join('\n\n'), takeWhiteboardFrame() ?? undefined);
+      const { score, text: replyText } = extractScoreTag(reply);
+      if (score !== null) {
+        const at = Date.now();
+        setEvents(prev => [...prev, { type: 'answerQuality', at, score, reason: '' }]);
+        pendingNotesRef.current.push(`[DIFFICULTY: ${recordAnswerScore(score, at)}]`);
+      }
+      if (replyText) {
+        setTranscription(prev => [...prev, { role: 'ai', text: replyText, timestamp: Date.now() }]);
+      }
+    } catch (err: any) {
+      console.error('Chat Error:', err);
+      setSessionError(t('live.error.chat'));
+      setIsActive(false);
+    } finally {
+      setIsAiThinking(false);
+    }
+  };
+
+  const startTextSession = async () => {
+    // Leaving voice mode (for example after a denied microphone) must release anything it opened.
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    stopCamera();
+    setCameraState('off');
+
+    setMode('text');
+    setSessionError(null);
+    setIsReady(true);
+    setIsConnecting(true);
+
+    chatRef.current = getProvider().createChat(
+      buildSystemInstruction({ resumeData, format, persona, gapAnalysis, mode: 'text', language, agenda, questions: plannedQuestions, difficulty: difficultyRef.current, camera: false, drill: drill ?? undefined, priorTranscript: transcriptionRef.current, currentPhase: currentPhase() })
+    );
+
+    setIsConnecting(false);
+    setIsActive(true);
+    await sendChatTurn(transcriptionRef.current.length > 0
+      ? '[The connection was restored. Continue the interview from where it left off.]'
+      : '[The candidate has joined the chat. Begin the interview.]');
+  };
+
+  const handleSendDraft = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text || isAiThinking) return;
+    setTranscription(prev => [...prev, { role: 'user', text, timestamp: Date.now() }]);
+    setDraft('');
+    sendChatTurn(text);
+  };
+
   const endSession = async () => {
-    sessionPromiseRef.current?.then(session => session.close());
+    isEndingRef.current = true;
+    isSocketOpenRef.current = false;
+    if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+    sessionPromiseRef.current?.then(session => session.close()).catch(() => {});
+    captureNodeRef.current?.disconnect();
+    captureNodeRef.current?.port.close();
+    chatRef.current = null;
     streamRef.current?.getTracks().forEach(track => track.stop());
+    stopCamera();
     setIsActive(false);
-    onComplete(transcription);
+    const isVoice = mode === 'voice';
+    // Keep whatever was typed after the last share so the scorecard reviews the final code.
+    const finalCode = code.trim() && `${codeLanguage}\n${code}` !== lastSharedCodeRef.current
+      ? [{ at: Date.now(), language: codeLanguage, code, trigger: 'sync' as const }]
+      : [];
+    onComplete(
+      transcription,
+      isVoice && recorderRef.current ? recorderRef.current.finish() : null,
+      computeDelivery(transcription, mode, language, isVoice ? voiceActivityRef.current?.snapshot() ?? null : null),
+      trackCoverage(questionBank, plannedQuestions, transcription, events),
+      events,
+      difficultyCurve,
+      [...codeSnapshots, ...finalCode],
+      whiteboardShapes.length > 0 ? renderWhiteboard(whiteboardShapes, 'image/png') : null,
+      presenceFramesRef.current
+    );
   };
 
   useEffect(() => {
     return () => {
+      isEndingRef.current = true;
+      if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+      sessionPromiseRef.current?.then(session => session.close()).catch(() => {});
       streamRef.current?.getTracks().forEach(track => track.stop());
+      cameraStreamRef.current?.getTracks().forEach(track => track.stop());
       if (audioContextInRef.current?.state !== 'closed') audioContextInRef.current?.close();
       if (audioContextOutRef.current?.state !== 'closed') audioContextOutRef.current?.close();
     };
@@ -338,22 +848,68 @@ const InterviewLiveSession: React.FC<Props> = ({ resumeData, onComplete }) => {
         <div>
           <h3 className="text-xl font-bold text-slate-800 flex items-center">
             <span className="bg-blue-600 w-2 h-6 rounded-full mr-3 shadow-[0_0_15px_rgba(37,99,235,0.4)]"></span>
-            Technical Interview Session
+            {t('live.title', { format: t(`format.${format as InterviewFormat}.label`) })}
           </h3>
-          <p className="text-sm text-slate-500 font-medium">Professional Session with CareerCompass Lead</p>
+          <p className="text-sm text-slate-500 font-medium">
+            {t(mode === 'text' ? 'live.subtitle.text' : 'live.subtitle.voice')}
+          </p>
         </div>
         <div className="flex items-center space-x-3">
+          {isReady && position && sessionStartRef.current !== null && (
+            <div className={`px-4 py-1.5 rounded-full text-xs font-bold tabular-nums border ${
+              position.overtime ? 'bg-red-50 text-red-600 border-red-100' : 'bg-slate-50 text-slate-600 border-slate-100'
+            }`}>
+              {formatClock(elapsedMs / 1000)} / {formatClock(agendaMinutes(agenda) * 60)}
+            </div>
+          )}
+          {isReady && difficultyCurve.length > 0 && (
+            <div
+              title={t('live.difficulty.hint')}
+              className="flex items-center gap-2 px-4 py-1.5 rounded-full text-xs font-bold border bg-slate-50 text-slate-600 border-slate-100"
+            >
+              <span className="flex items-end gap-0.5 h-3">
+                {Array.from({ length: MAX_DIFFICULTY }, (_, i) => (
+                  <span
+                    key={i}
+                    className={`w-1 rounded-full transition-colors ${i < currentDifficulty ? 'bg-blue-600' : 'bg-slate-200'}`}
+                    style={{ height: `${40 + i * 15}%` }}
+                  />
+                ))}
+              </span>
+              {t('live.difficulty', { label: t(`difficulty.level.${currentDifficulty as DifficultyLevel}`) })}
+            </div>
+          )}
+          {isReady && (
+            <button
+              onClick={() => setShowCodeEditor(!codeEditorOpen)}
+              className={`px-4 py-1.5 rounded-full text-xs font-bold border transition-colors ${
+                codeEditorOpen ? 'bg-slate-900 text-white border-slate-900' : 'bg-slate-50 text-slate-600 border-slate-100 hover:bg-slate-100'
+              }`}
+            >
+              {t('live.code.toggle')}
+            </button>
+          )}
+          {isReady && (
+            <button
+              onClick={() => setShowWhiteboard(!whiteboardOpen)}
+              className={`px-4 py-1.5 rounded-full text-xs font-bold border transition-colors ${
+                whiteboardOpen ? 'bg-slate-900 text-white border-slate-900' : 'bg-slate-50 text-slate-600 border-slate-100 hover:bg-slate-100'
+              }`}
+            >
+              {t('live.whiteboard.toggle')}
+            </button>
+          )}
           {isActive && (
             <div className="flex items-center px-4 py-1.5 bg-blue-50 text-blue-600 rounded-full text-[10px] font-black uppercase tracking-[0.15em] border border-blue-100 animate-pulse">
               <span className="w-2 h-2 bg-blue-500 rounded-full mr-2"></span>
-              Encrypted Live
+              {t('live.encrypted')}
             </div>
           )}
           <button 
             onClick={endSession}
             className="px-5 py-2.5 bg-slate-900 text-white hover:bg-slate-800 rounded-xl text-sm font-semibold transition-all active:scale-95 shadow-md shadow-slate-200/50"
           >
-            End Interview
+            {t('live.end')}
           </button>
         </div>
       </div>
@@ -367,16 +923,62 @@ const InterviewLiveSession: React.FC<Props> = ({ resumeData, onComplete }) => {
               </svg>
             </div>
             <div className="max-w-md">
-              <h2 className="text-2xl font-bold text-slate-800 mb-2">Technical Boarding</h2>
+              <h2 className="text-2xl font-bold text-slate-800 mb-2">{t('live.boarding.title')}</h2>
               <p className="text-slate-600 leading-relaxed">
-                You are about to enter a live technical discussion. Our Engineering Lead will introduce themselves and guide the conversation.
+                {t('live.boarding.body')}
               </p>
             </div>
+            {drill ? (
+              <div className="w-full max-w-xl px-5 py-4 bg-blue-50 border border-blue-100 rounded-2xl text-left">
+                <span className="block text-xs font-bold text-blue-600 uppercase tracking-widest mb-1">{t('live.drill.label')}</span>
+                <span className="block text-sm font-semibold text-slate-800">{t('live.drill.summary', { topic: drill.topic, min: DRILL_QUESTIONS.min, max: DRILL_QUESTIONS.max })}</span>
+                <span className="block text-xs text-slate-500 mt-1">
+                  {drill.kind === 'competency'
+                    ? `${t('live.drill.reason.competency', { score: drill.score })} ${drill.description}`
+                    : t('live.drill.reason.skill', { role: drill.roleTitle })}
+                </span>
+              </div>
+            ) : (
+              <div className="grid sm:grid-cols-2 gap-3 w-full max-w-xl text-left">
+                {(Object.keys(INTERVIEW_FORMATS) as InterviewFormat[]).map(key => (
+                  <button
+                    key={key}
+                    onClick={() => onFormatChange(key)}
+                    className={`p-4 rounded-2xl border transition-all ${
+                      format === key ? 'border-blue-500 bg-blue-50 shadow-sm' : 'border-slate-200 bg-white hover:border-slate-300'
+                    }`}
+                  >
+                    <span className={`block text-sm font-bold ${format === key ? 'text-blue-700' : 'text-slate-800'}`}>{t(`format.${key}.label`)}</span>
+                    <span className="block text-xs text-slate-500 mt-1 leading-snug">{t(`format.${key}.tagline`)}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            <PersonaSettings persona={persona} onChange={onPersonaChange} />
+            {!drill && <AgendaSettings agenda={agenda} onChange={onAgendaChange} />}
+            {!drill && <QuestionBankSettings bank={questionBank} planned={plannedQuestions} onChange={onQuestionBankChange} />}
+            <RubricSettings rubric={rubric} format={format} onChange={onRubricChange} />
+            <label className={`flex items-center gap-2 text-sm ${cameraAvailable === false ? 'text-slate-400' : 'text-slate-700'}`}>
+              <input
+                type="checkbox"
+                checked={cameraRequested && cameraAvailable !== false}
+                disabled={cameraAvailable === false}
+                onChange={(e) => setCameraRequested(e.target.checked)}
+                className="w-4 h-4 accent-blue-600"
+              />
+              {t(cameraAvailable === false ? 'live.camera.none' : 'live.camera.optIn')}
+            </label>
             <button 
               onClick={startSession}
               className="px-10 py-4 bg-blue-600 text-white rounded-2xl font-bold text-lg shadow-2xl hover:bg-blue-700 transition-all hover:shadow-blue-200 active:scale-95"
             >
-              Initialize & Enter Session
+              {t('live.start')}
+            </button>
+            <button 
+              onClick={startTextSession}
+              className="text-sm font-semibold text-slate-500 hover:text-slate-800 transition-colors"
+            >
+              {t('live.useText')}
             </button>
           </div>
         ) : sessionError ? (
@@ -387,20 +989,30 @@ const InterviewLiveSession: React.FC<Props> = ({ resumeData, onComplete }) => {
               </svg>
             </div>
             <div className="max-w-md">
-              <h4 className="text-xl font-bold text-slate-800 mb-2">Session Interrupted</h4>
+              <h4 className="text-xl font-bold text-slate-800 mb-2">{t('live.error.title')}</h4>
               <p className="text-slate-600 mb-6">{sessionError}</p>
               <div className="flex flex-col sm:flex-row gap-4 justify-center">
+                {sessionError === micError && (
+                  <button 
+                    onClick={startTextSession}
+                    className="px-6 py-2 bg-blue-600 text-white rounded-xl font-semibold hover:bg-blue-700 transition-all shadow-sm"
+                  >
+                    {t('live.continueText')}
+                  </button>
+                )}
                 <button 
                   onClick={handleOpenKeySelector}
                   className="px-6 py-2 bg-slate-800 text-white rounded-xl font-semibold hover:bg-slate-900 transition-all shadow-sm"
                 >
-                  Configure Key
+                  {t('live.configureKey')}
                 </button>
                 <button 
-                  onClick={startSession}
-                  className="px-6 py-2 bg-blue-600 text-white rounded-xl font-semibold hover:bg-blue-700 transition-all shadow-sm"
+                  onClick={mode === 'text' ? startTextSession : startSession}
+                  className={`px-6 py-2 rounded-xl font-semibold transition-all shadow-sm ${
+                    sessionError === micError ? 'bg-white border border-slate-200 text-slate-700 hover:bg-slate-50' : 'bg-blue-600 text-white hover:bg-blue-700'
+                  }`}
                 >
-                  Reconnect
+                  {sessionError === micError ? t('live.retryMic') : t('live.reconnect')}
                 </button>
               </div>
             </div>
@@ -411,14 +1023,63 @@ const InterviewLiveSession: React.FC<Props> = ({ resumeData, onComplete }) => {
               <div className="absolute inset-0 border-4 border-slate-100 rounded-full"></div>
               <div className="absolute inset-0 border-4 border-t-blue-600 rounded-full animate-spin"></div>
             </div>
-            <p className="text-slate-500 font-bold uppercase tracking-widest text-xs animate-pulse">Syncing AI Lead...</p>
+            <p className="text-slate-500 font-bold uppercase tracking-widest text-xs animate-pulse">
+              {reconnectAttempt > 0 ? t('live.reconnecting', { attempt: reconnectAttempt, max: MAX_RECONNECT_ATTEMPTS }) : t('live.syncing')}
+            </p>
           </div>
         ) : (
           <div className="flex-1 flex flex-col">
+            {position && (
+              <div className="mb-4">
+                <div className="flex gap-1 h-1.5">
+                  {scheduledPhases(agenda).map((phase, idx) => (
+                    <div
+                      key={phase.id}
+                      title={t(`agenda.phase.${phase.id as AgendaPhaseId}`)}
+                      style={{ flexGrow: phase.minutes }}
+                      className={`rounded-full transition-colors ${
+                        idx < position.index ? 'bg-blue-300' : idx === position.index ? (position.overtime ? 'bg-red-500' : 'bg-blue-600') : 'bg-slate-200'
+                      }`}
+                    />
+                  ))}
+                </div>
+                <p className={`mt-2 text-xs font-semibold ${position.overtime ? 'text-red-600' : 'text-slate-500'}`}>
+                  {position.overtime
+                    ? t('live.clock.overtime', { phase: t(`agenda.phase.${position.phase.id as AgendaPhaseId}`) })
+                    : t('live.clock.remaining', { phase: t(`agenda.phase.${position.phase.id as AgendaPhaseId}`), remaining: formatClock(position.phaseRemainingMs / 1000) })}
+                </p>
+              </div>
+            )}
+            {isWrappingUp && (
+              <div className="mb-4 px-4 py-3 bg-blue-50 border border-blue-100 text-blue-700 rounded-xl text-sm font-medium">
+                {t('live.wrappingUp')}
+              </div>
+            )}
+            {cameraRequested && cameraState === 'unavailable' && mode === 'voice' && (
+              <div className="mb-4 px-4 py-3 bg-slate-50 border border-slate-200 text-slate-600 rounded-xl text-sm font-medium">
+                {t('live.camera.unavailable')}
+              </div>
+            )}
+            {reconnectAttempt > 0 && (
+              <div className="mb-4 px-4 py-3 bg-amber-50 border border-amber-200 text-amber-800 rounded-xl text-sm font-medium flex items-center">
+                <span className="w-2 h-2 bg-amber-500 rounded-full mr-3 animate-pulse"></span>
+                {t('live.reconnectBanner', { attempt: reconnectAttempt, max: MAX_RECONNECT_ATTEMPTS })}
+              </div>
+            )}
             <div className="flex flex-col items-center justify-center p-10 bg-slate-50 rounded-[3.5rem] mb-8 relative overflow-hidden shadow-inner border border-slate-100 transition-all duration-700">
                <div className={`absolute -inset-10 bg-blue-500 blur-[130px] transition-opacity duration-1000 ${isAiSpeaking ? 'opacity-25' : 'opacity-0'}`}></div>
                <div className={`absolute -inset-10 bg-indigo-500 blur-[130px] transition-opacity duration-1000 ${isAiThinking ? 'opacity-25' : 'opacity-0'}`}></div>
                
+               {cameraState === 'on' && (
+                 <video
+                   ref={attachSelfView}
+                   autoPlay
+                   muted
+                   playsInline
+                   aria-label={t('live.camera.selfView')}
+                   className="absolute top-5 right-5 z-20 w-40 aspect-video object-cover rounded-2xl border-2 border-white shadow-lg -scale-x-100 bg-slate-900"
+                 />
+               )}
                <div className="relative z-10 flex flex-col items-center">
                   <div className={`w-36 h-36 rounded-full flex items-center justify-center transition-all duration-700 relative z-20 ${
                     isAiSpeaking ? 'bg-gradient-to-br from-blue-600 to-blue-800 scale-110 shadow-[0_0_60px_rgba(37,99,235,0.4)]' : 
@@ -442,7 +1103,7 @@ const InterviewLiveSession: React.FC<Props> = ({ resumeData, onComplete }) => {
                   
                   <div className="mt-8 text-center">
                     <p className={`text-sm font-black uppercase tracking-[0.3em] transition-colors duration-500 ${isAiSpeaking ? 'text-blue-600' : isAiThinking ? 'text-indigo-600' : 'text-slate-400'}`}>
-                      {isAiSpeaking ? "AI Sharing Feedback" : isAiThinking ? "AI Reflecting" : "Awaiting Input"}
+                      {t(isAiSpeaking ? 'live.status.speaking' : isAiThinking ? 'live.status.thinking' : mode === 'text' ? 'live.status.typing' : 'live.status.listening')}
                     </p>
                   </div>
                </div>
@@ -476,6 +1137,48 @@ const InterviewLiveSession: React.FC<Props> = ({ resumeData, onComplete }) => {
                 </div>
               )}
             </div>
+
+            {codeEditorOpen && (
+              <CodeEditorPane
+                language={codeLanguage}
+                onLanguageChange={setCodeLanguage}
+                code={code}
+                onCodeChange={setCode}
+                onShare={shareCode}
+                disabled={!isActive || (mode === 'text' && isAiThinking)}
+                lastSharedAt={codeSnapshots[codeSnapshots.length - 1]?.at ?? null}
+              />
+            )}
+
+            {whiteboardOpen && (
+              <WhiteboardCanvas shapes={whiteboardShapes} onChange={setWhiteboardShapes} lastSentAt={whiteboardSentAt} />
+            )}
+
+            {mode === 'text' && (
+              <form onSubmit={handleSendDraft} className="flex items-end gap-3 pt-4 border-t border-slate-100">
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    // Enter also confirms an IME conversion (Japanese input); only a plain Enter sends.
+                    if (e.nativeEvent.isComposing || e.keyCode === 229) return;
+                    if (e.key === 'Enter' && !e.shiftKey) handleSendDraft(e);
+                  }}
+                  rows={2}
+                  placeholder={t('live.draftPlaceholder')}
+                  className="flex-1 p-4 border border-slate-200 rounded-2xl bg-slate-50 focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all resize-none text-sm text-slate-700"
+                />
+                <button
+                  type="submit"
+                  disabled={!draft.trim() || isAiThinking || !isActive}
+                  className={`px-6 py-4 rounded-2xl text-sm font-bold text-white transition-all active:scale-95 ${
+                    draft.trim() && !isAiThinking && isActive ? 'bg-blue-600 hover:bg-blue-700' : 'bg-slate-300 cursor-not-allowed'
+                  }`}
+                >
+                  {t('live.send')}
+                </button>
+              </form>
+            )}
           </div>
         )}
       </div>
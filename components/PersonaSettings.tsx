@@ -0,0 +1,86 @@
+import React from 'react';
+import { InterviewerPersona, InterviewerRole, InterviewPacing, InterviewStrictness } from '../types';
+import { INTERVIEWER_ROLES, PACING_OPTIONS, STRICTNESS_LEVELS, VOICES } from '../services/interviewerPersonas';
+import { useI18n } from '../i18n';
+
+interface Props {
+  persona: InterviewerPersona;
+  onChange: (persona: InterviewerPersona) => void;
+}
+
+const selectClass = 'w-full mt-1 px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm text-slate-800 focus:outline-none focus:ring-2 focus:ring-blue-500';
+const labelClass = 'block text-[10px] font-bold text-slate-400 uppercase tracking-widest';
+
+const PersonaSettings: React.FC<Props> = ({ persona, onChange }) => {
+  const { t } = useI18n();
+  const update = (patch: Partial<InterviewerPersona>) => onChange({ ...persona, ...patch });
+
+  return (
+    <details className="w-full max-w-xl text-left bg-slate-50 border border-slate-100 rounded-2xl">
+      <summary className="px-4 py-3 cursor-pointer text-sm font-semibold text-slate-700 select-none">
+        {t('persona.summary', { role: t(`persona.role.${persona.role as InterviewerRole}`), strictness: t(`persona.strictness.${persona.strictness as InterviewStrictness}`), voice: persona.voiceName })}
+      </summary>
+      <div className="grid sm:grid-cols-2 gap-4 px-4 pb-4 pt-1">
+        <label className={labelClass}>
+          {t('persona.role')}
+          <select
+            value={persona.role}
+            onChange={(e) => update({ role: e.target.value as InterviewerRole })}
+            className={selectClass}
+          >
+            {(Object.keys(INTERVIEWER_ROLES) as InterviewerRole[]).map(key => (
+              <option key={key} value={key}>{t(`persona.role.${key}`)}</option>
+            ))}
+          </select>
+        </label>
+        <label className={labelClass}>
+          {t('persona.voice')}
+          <select
+            value={persona.voiceName}
+            onChange={(e) => update({ voiceName: e.target.value })}
+            className={selectClass}
+          >
+            {VOICES.map(voice => (
+              <option key={voice.name} value={voice.name}>{voice.name}: {voice.description}</option>
+            ))}
+          </select>
+        </label>
+        <label className={labelClass}>
+          {t('persona.difficulty')}
+          <select
+            value={persona.strictness}
+            onChange={(e) => update({ strictness: e.target.value as InterviewStrictness })}
+            className={selectClass}
+          >
+            {(Object.keys(STRICTNESS_LEVELS) as InterviewStrictness[]).map(key => (
+              <option key={key} value={key}>{t(`persona.strictness.${key}`)}</option>
+            ))}
+          </select>
+        </label>
+        <label className={labelClass}>
+          {t('persona.pacing')}
+          <select
+            value={persona.pacing}
+            onChange={(e) => update({ pacing: e.target.value as InterviewPacing })}
+            className={selectClass}
+          >
+            {(Object.keys(PACING_OPTIONS) as InterviewPacing[]).map(key => (
+              <option key={key} value={key}>{t(`persona.pacing.${key}`)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="sm:col-span-2 flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={persona.pushBackOnVagueAnswers}
+            onChange={(e) => update({ pushBackOnVagueAnswers: e.target.checked })}
+            className="w-4 h-4 accent-blue-600"
+          />
+          {t('persona.pushBack')}
+        </label>
+      </div>
+    </details>
+  );
+};
+
+export default PersonaSettings;
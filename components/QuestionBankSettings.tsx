@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { BankQuestion, QuestionBank } from '../types';
+import { DEFAULT_QUESTION_BANK, QuestionBankImportError, parseQuestionBank, toQuestionBankJson } from '../services/questionBank';
+import { downloadFile } from '../services/reportExport';
+import { useI18n } from '../i18n';
+
+interface Props {
+  bank: QuestionBank;
+  planned: BankQuestion[];
+  onChange: (bank: QuestionBank) => void;
+}
+
+const buttonClass = 'px-3 py-1.5 bg-white border border-slate-200 text-slate-700 hover:bg-slate-100 rounded-lg text-xs font-semibold transition-colors';
+
+const QuestionBankSettings: React.FC<Props> = ({ bank, planned, onChange }) => {
+  const { t } = useI18n();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        onChange(parseQuestionBank(e.target?.result as string));
+        setError(null);
+      } catch (err) {
+        console.error(err);
+        setError(err instanceof QuestionBankImportError
+          ? t(`questionBank.importError.${err.problem}`, { question: err.question ?? '' })
+          : t('questionBank.importError'));
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <details className="w-full max-w-xl text-left bg-slate-50 border border-slate-100 rounded-2xl">
+      <summary className="px-4 py-3 cursor-pointer text-sm font-semibold text-slate-700 select-none">
+        {t('questionBank.summary', { name: bank.name, planned: planned.length, total: bank.questions.length })}
+      </summary>
+      <div className="px-4 pb-4 pt-1 space-y-3">
+        {planned.length > 0 ? (
+          <ol className="space-y-1 list-decimal list-inside text-sm text-slate-700">
+            {planned.map(q => (
+              <li key={q.id}>
+                {q.text} <span className="text-xs text-slate-400">{[...q.skills, q.difficulty].join(' · ')}</span>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="text-sm text-slate-500">{t('questionBank.none')}</p>
+        )}
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        <div className="flex flex-wrap gap-2">
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            id="question-bank-import"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+          <button onClick={() => document.getElementById('question-bank-import')?.click()} className={buttonClass}>
+            {t('questionBank.import')}
+          </button>
+          <button onClick={() => downloadFile(toQuestionBankJson(bank), 'question-bank.json', 'application/json')} className={buttonClass}>
+            {t('questionBank.download')}
+          </button>
+          {bank !== DEFAULT_QUESTION_BANK && (
+            <button onClick={() => onChange(DEFAULT_QUESTION_BANK)} className={buttonClass}>
+              {t('questionBank.reset')}
+            </button>
+          )}
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default QuestionBankSettings;
@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react';
+import { JobDescriptionInput, ResumeAudit, ResumeInput } from '../types';
+import { getProvider } from '../services/aiProvider';
+import { useI18n } from '../i18n';
+
+interface Props {
+  input: ResumeInput;
+  job: JobDescriptionInput | null;
+  onPractice: () => void;
+  onBack: () => void;
+}
+
+const scoreColor = (score: number) => (score >= 75 ? 'text-emerald-600' : score >= 50 ? 'text-amber-600' : 'text-red-600');
+
+const Heading: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h3 className="text-sm font-bold text-slate-400 uppercase tracking-[0.2em] mb-4">{children}</h3>
+);
+
+const ResumeAuditView: React.FC<Props> = ({ input, job, onPractice, onBack }) => {
+  const { language, t } = useI18n();
+  const [audit, setAudit] = useState<ResumeAudit | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFailed(false);
+    getProvider().auditResume(input, job, language)
+      .then(result => { if (!cancelled) setAudit(result); })
+      .catch(err => {
+        console.error(err);
+        if (!cancelled) setFailed(true);
+      });
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [attempt]);
+
+  const copyRewrite = async (text: string, index: number) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedIndex(index);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  if (failed) {
+    return (
+      <div className="text-center py-20">
+        <h2 className="text-2xl font-bold text-slate-800 mb-4">{t('audit.error')}</h2>
+        <div className="flex justify-center gap-3">
+          <button onClick={() => setAttempt(a => a + 1)} className="px-6 py-2 bg-blue-600 text-white rounded-xl font-semibold">{t('audit.retry')}</button>
+          <button onClick={onBack} className="px-6 py-2 bg-slate-100 text-slate-700 rounded-xl font-semibold">{t('audit.back')}</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!audit) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20">
+        <div className="w-16 h-16 border-4 border-blue-100 border-t-blue-600 rounded-full animate-spin mb-6"></div>
+        <h2 className="text-2xl font-semibold text-slate-800 mb-2">{t('audit.loading.title')}</h2>
+        <p className="text-slate-500 text-center max-w-md">{t('audit.loading.body')}</p>
+      </div>
+    );
+  }
+
+  const warnings = [...audit.formattingWarnings, ...audit.lengthWarnings];
+
+  return (
+    <div className="animate-in fade-in duration-700 max-w-4xl mx-auto space-y-12">
+      <div className="flex flex-col md:flex-row items-center justify-between gap-6">
+        <div>
+          <h2 className="text-4xl font-extrabold text-slate-900 tracking-tight">{t('audit.title')}</h2>
+          <p className="text-slate-500 text-lg mt-1 font-medium">{t('audit.subtitle', { role: audit.targetRole })}</p>
+          <p className="text-slate-600 mt-4 max-w-xl">{audit.summary}</p>
+        </div>
+        <div className="flex flex-col items-center bg-slate-50 border border-slate-100 p-8 rounded-[2.5rem]">
+          <div className={`text-6xl font-black ${scoreColor(audit.keywordScore)}`}>{audit.keywordScore}</div>
+          <span className="text-xs font-bold uppercase tracking-widest text-slate-400 mt-1">{t('audit.keywords')}</span>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="bg-emerald-50/50 p-6 rounded-3xl border border-emerald-100">
+          <h4 className="text-xs font-bold text-emerald-700 uppercase tracking-widest mb-3">{t('audit.matched')}</h4>
+          <div className="flex flex-wrap gap-2">
+            {audit.matchedKeywords.map(k => (
+              <span key={k} className="px-3 py-1 bg-white border border-emerald-100 rounded-full text-xs font-semibold text-emerald-800">{k}</span>
+            ))}
+          </div>
+        </div>
+        <div className="bg-amber-50/50 p-6 rounded-3xl border border-amber-100">
+          <h4 className="text-xs font-bold text-amber-700 uppercase tracking-widest mb-3">{t('audit.missing')}</h4>
+          <div className="flex flex-wrap gap-2">
+            {audit.missingKeywords.map(k => (
+              <span key={k} className="px-3 py-1 bg-white border border-amber-100 rounded-full text-xs font-semibold text-amber-800">{k}</span>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <Heading>{t('audit.formatting')}</Heading>
+        {warnings.length > 0 ? (
+          <ul className="space-y-2">
+            {warnings.map((w, i) => (
+              <li key={i} className="flex items-start gap-3 p-4 bg-white border border-slate-100 rounded-2xl text-sm text-slate-700">
+                <span className="mt-0.5 w-2 h-2 rounded-full bg-amber-500 flex-shrink-0"></span>
+                {w}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-slate-500">{t('audit.noWarnings')}</p>
+        )}
+      </div>
+
+      <div>
+        <Heading>{t('audit.bullets')}</Heading>
+        {audit.weakBullets.length > 0 ? (
+          <div className="space-y-4">
+            {audit.weakBullets.map((b, i) => (
+              <div key={i} className="bg-white p-6 rounded-3xl border border-slate-100 shadow-sm space-y-3">
+                <div>
+                  <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t('audit.original')}</span>
+                  <p className="text-slate-500 line-through decoration-slate-300">{b.original}</p>
+                </div>
+                <p className="text-sm text-amber-700">{b.issue}</p>
+                <div className="flex items-start justify-between gap-4 p-4 bg-blue-50 rounded-2xl">
+                  <div>
+                    <span className="text-[10px] font-bold text-blue-500 uppercase tracking-widest">{t('audit.rewrite')}</span>
+                    <p className="text-slate-800 font-medium">{b.rewrite}</p>
+                  </div>
+                  <button onClick={() => copyRewrite(b.rewrite, i)} className="text-xs font-bold text-blue-600 hover:text-blue-800 flex-shrink-0">
+                    {copiedIndex === i ? t('audit.copied') : t('audit.copy')}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">{t('audit.noBullets')}</p>
+        )}
+      </div>
+
+      <div>
+        <Heading>{t('audit.sections')}</Heading>
+        {audit.missingSections.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {audit.missingSections.map(s => (
+              <span key={s} className="px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-semibold text-slate-700">{s}</span>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">{t('audit.noSections')}</p>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row justify-center gap-3 pt-4">
+        <button onClick={onPractice} className="px-8 py-4 bg-blue-600 text-white rounded-full font-bold shadow-xl shadow-blue-200 hover:bg-blue-700 transition-all active:scale-95">
+          {t('audit.practice')}
+        </button>
+        <button onClick={onBack} className="px-8 py-4 bg-slate-100 text-slate-700 rounded-full font-bold hover:bg-slate-200 transition-all">
+          {t('audit.back')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeAuditView;
@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { Education, ResumeData, ResumeProject, WorkExperience } from '../types';
+import { useI18n } from '../i18n';
+
+interface Props {
+  resumeData: ResumeData;
+  onConfirm: (resume: ResumeData) => void;
+}
+
+const EXPERIENCE_LEVELS = ['Entry', 'Mid-level', 'Senior', 'Executive'];
+
+const inputClass = 'w-full mt-1 px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm text-slate-800 normal-case tracking-normal font-normal focus:outline-none focus:ring-2 focus:ring-blue-500';
+const labelClass = 'block text-[10px] font-bold text-slate-400 uppercase tracking-widest';
+const cardClass = 'relative p-4 bg-slate-50 border border-slate-100 rounded-2xl';
+
+const replaceAt = <T,>(items: T[], index: number, patch: Partial<T>): T[] =>
+  items.map((item, i) => (i === index ? { ...item, ...patch } : item));
+
+const removeAt = <T,>(items: T[], index: number): T[] => items.filter((_, i) => i !== index);
+
+// Editing keeps blank lines and half-filled entries around; they are dropped only once the profile is confirmed.
+const cleanResume = (resume: ResumeData): ResumeData => ({
+  ...resume,
+  summary: resume.summary.trim(),
+  workHistory: resume.workHistory
+    .map(job => ({ ...job, highlights: job.highlights.map(h => h.trim()).filter(Boolean) }))
+    .filter(job => job.title.trim() || job.company.trim()),
+  projects: resume.projects.filter(p => p.name.trim() || p.description.trim()),
+  education: resume.education.filter(e => e.institution.trim() || e.degree.trim()),
+});
+
+const TagInput: React.FC<{ tags: string[]; placeholder: string; onChange: (tags: string[]) => void }> = ({ tags, placeholder, onChange }) => {
+  const [draft, setDraft] = useState('');
+  const { t } = useI18n();
+
+  const commit = () => {
+    const tag = draft.trim();
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-1">
+      {tags.map(tag => (
+        <span key={tag} className="inline-flex items-center gap-1 px-3 py-1 bg-white border border-slate-200 rounded-full text-xs font-semibold text-slate-700 normal-case tracking-normal">
+          {tag}
+          <button type="button" onClick={() => onChange(tags.filter(x => x !== tag))} aria-label={`${t('review.remove')} ${tag}`} className="text-slate-400 hover:text-red-500">×</button>
+        </span>
+      ))}
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          // Leave Enter to the IME while a conversion is being composed.
+          if (e.nativeEvent.isComposing || e.keyCode === 229) return;
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            commit();
+          }
+        }}
+        onBlur={commit}
+        placeholder={placeholder}
+        className="flex-1 min-w-[10rem] px-3 py-1 bg-white border border-slate-200 rounded-full text-xs text-slate-800 normal-case tracking-normal font-normal focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+    </div>
+  );
+};
+
+const Section: React.FC<{ title: string; onAdd?: () => void; children: React.ReactNode }> = ({ title, onAdd, children }) => {
+  const { t } = useI18n();
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-slate-400 uppercase tracking-[0.2em]">{title}</h3>
+        {onAdd && (
+          <button type="button" onClick={onAdd} className="text-xs font-bold text-blue-600 hover:text-blue-800">
+            + {t('review.add')}
+          </button>
+        )}
+      </div>
+      {children}
+    </section>
+  );
+};
+
+const RemoveButton: React.FC<{ onClick: () => void }> = ({ onClick }) => {
+  const { t } = useI18n();
+  return (
+    <button type="button" onClick={onClick} className="absolute top-3 right-3 text-xs font-semibold text-slate-400 hover:text-red-500">
+      {t('review.remove')}
+    </button>
+  );
+};
+
+const ResumeReview: React.FC<Props> = ({ resumeData, onConfirm }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<ResumeData>(resumeData);
+  const update = (patch: Partial<ResumeData>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const setSkills = (skills: string[]) => update({
+    skills,
+    skillYears: Object.fromEntries(Object.entries<number>(draft.skillYears).filter(([skill]) => skills.includes(skill))),
+  });
+
+  const setSkillYears = (skill: string, value: string) => {
+    const { [skill]: _, ...rest } = draft.skillYears;
+    const years = parseFloat(value);
+    update({ skillYears: years > 0 ? { ...rest, [skill]: years } : rest });
+  };
+
+  const levels = EXPERIENCE_LEVELS.includes(draft.experienceLevel) ? EXPERIENCE_LEVELS : [draft.experienceLevel, ...EXPERIENCE_LEVELS];
+  const empty = <p className="text-sm text-slate-400">{t('review.empty')}</p>;
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 space-y-10">
+      <div className="text-center">
+        <h2 className="text-3xl font-bold text-slate-800 mb-2">{t('review.title')}</h2>
+        <p className="text-slate-500 max-w-xl mx-auto">{t('review.subtitle')}</p>
+      </div>
+
+      <Section title={t('review.profile')}>
+        <div className="grid sm:grid-cols-[1fr_12rem] gap-4">
+          <label className={labelClass}>
+            {t('review.summary')}
+            <textarea
+              value={draft.summary}
+              onChange={(e) => update({ summary: e.target.value })}
+              rows={2}
+              className={`${inputClass} resize-none`}
+            />
+          </label>
+          <label className={labelClass}>
+            {t('review.level')}
+            <select value={draft.experienceLevel} onChange={(e) => update({ experienceLevel: e.target.value })} className={inputClass}>
+              {levels.map(level => <option key={level} value={level}>{level}</option>)}
+            </select>
+          </label>
+        </div>
+      </Section>
+
+      <Section title={t('review.skills')}>
+        {draft.skills.length > 0 && (
+          <div className="grid sm:grid-cols-2 gap-2">
+            {draft.skills.map(skill => (
+              <div key={skill} className="flex items-center gap-2 px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl">
+                <span className="flex-1 text-sm font-semibold text-slate-700 truncate">{skill}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={draft.skillYears[skill] ?? ''}
+                  onChange={(e) => setSkillYears(skill, e.target.value)}
+                  aria-label={t('review.yearsOf', { skill })}
+                  className="w-16 px-2 py-1 bg-white border border-slate-200 rounded-lg text-sm text-right focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <span className="text-xs text-slate-400">{t('review.years')}</span>
+                <button type="button" onClick={() => setSkills(draft.skills.filter(s => s !== skill))} aria-label={`${t('review.remove')} ${skill}`} className="text-slate-400 hover:text-red-500">×</button>
+              </div>
+            ))}
+          </div>
+        )}
+        <TagInput tags={[]} placeholder={t('review.addSkill')} onChange={([skill]) => !draft.skills.includes(skill) && setSkills([...draft.skills, skill])} />
+      </Section>
+
+      <Section
+        title={t('review.work')}
+        onAdd={() => update({ workHistory: [...draft.workHistory, { title: '', company: '', startDate: '', endDate: '', highlights: [] }] })}
+      >
+        {draft.workHistory.length === 0 && empty}
+        {draft.workHistory.map((job, i) => {
+          const setJob = (patch: Partial<WorkExperience>) => update({ workHistory: replaceAt(draft.workHistory, i, patch) });
+          return (
+            <div key={i} className={cardClass}>
+              <RemoveButton onClick={() => update({ workHistory: removeAt(draft.workHistory, i) })} />
+              <div className="grid sm:grid-cols-2 gap-3 pr-16">
+                <label className={labelClass}>{t('review.jobTitle')}<input value={job.title} onChange={(e) => setJob({ title: e.target.value })} className={inputClass} /></label>
+                <label className={labelClass}>{t('review.company')}<input value={job.company} onChange={(e) => setJob({ company: e.target.value })} className={inputClass} /></label>
+                <label className={labelClass}>{t('review.start')}<input value={job.startDate} onChange={(e) => setJob({ startDate: e.target.value })} className={inputClass} /></label>
+                <label className={labelClass}>{t('review.end')}<input value={job.endDate} onChange={(e) => setJob({ endDate: e.target.value })} className={inputClass} /></label>
+              </div>
+              <label className={`${labelClass} mt-3`}>
+                {t('review.highlights')}
+                <textarea
+                  value={job.highlights.join('\n')}
+                  onChange={(e) => setJob({ highlights: e.target.value.split('\n') })}
+                  rows={3}
+                  className={`${inputClass} resize-y`}
+                />
+              </label>
+            </div>
+          );
+        })}
+      </Section>
+
+      <Section
+        title={t('review.projects')}
+        onAdd={() => update({ projects: [...draft.projects, { name: '', description: '', technologies: [] }] })}
+      >
+        {draft.projects.length === 0 && empty}
+        {draft.projects.map((project, i) => {
+          const setProject = (patch: Partial<ResumeProject>) => update({ projects: replaceAt(draft.projects, i, patch) });
+          return (
+            <div key={i} className={cardClass}>
+              <RemoveButton onClick={() => update({ projects: removeAt(draft.projects, i) })} />
+              <label className={`${labelClass} pr-16`}>{t('review.projectName')}<input value={project.name} onChange={(e) => setProject({ name: e.target.value })} className={inputClass} /></label>
+              <label className={`${labelClass} mt-3`}>
+                {t('review.description')}
+                <textarea value={project.description} onChange={(e) => setProject({ description: e.target.value })} rows={2} className={`${inputClass} resize-y`} />
+              </label>
+              <div className={`${labelClass} mt-3`}>
+                {t('review.technologies')}
+                <TagInput tags={project.technologies} placeholder={t('review.addTag')} onChange={(technologies) => setProject({ technologies })} />
+              </div>
+            </div>
+          );
+        })}
+      </Section>
+
+      <Section
+        title={t('review.education')}
+        onAdd={() => update({ education: [...draft.education, { institution: '', degree: '', year: '' }] })}
+      >
+        {draft.education.length === 0 && empty}
+        {draft.education.map((entry, i) => {
+          const setEntry = (patch: Partial<Education>) => update({ education: replaceAt(draft.education, i, patch) });
+          return (
+            <div key={i} className={cardClass}>
+              <RemoveButton onClick={() => update({ education: removeAt(draft.education, i) })} />
+              <div className="grid sm:grid-cols-[1fr_1fr_6rem] gap-3 pr-16">
+                <label className={labelClass}>{t('review.institution')}<input value={entry.institution} onChange={(e) => setEntry({ institution: e.target.value })} className={inputClass} /></label>
+                <label className={labelClass}>{t('review.degree')}<input value={entry.degree} onChange={(e) => setEntry({ degree: e.target.value })} className={inputClass} /></label>
+                <label className={labelClass}>{t('review.year')}<input value={entry.year} onChange={(e) => setEntry({ year: e.target.value })} className={inputClass} /></label>
+              </div>
+            </div>
+          );
+        })}
+      </Section>
+
+      <Section title={t('review.certifications')}>
+        <TagInput tags={draft.certifications} placeholder={t('review.addTag')} onChange={(certifications) => update({ certifications })} />
+      </Section>
+
+      <div className="flex justify-center pt-2">
+        <button
+          onClick={() => onConfirm(cleanResume(draft))}
+          className="px-10 py-4 bg-blue-600 text-white rounded-full font-bold shadow-xl shadow-blue-200 hover:bg-blue-700 transition-all active:scale-95"
+        >
+          {t('review.confirm')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeReview;
@@ -1,9 +1,11 @@
 
 import React, { useState } from 'react';
-import { ResumeInput } from '../types';
+import { JobDescriptionInput, ResumeInput } from '../types';
+import { useI18n } from '../i18n';
 
 interface Props {
-  onSubmit: (input: ResumeInput) => void;
+  onSubmit: (input: ResumeInput, job: JobDescriptionInput | null) => void;
+  onAudit: (input: ResumeInput, job: JobDescriptionInput | null) => void;
 }
 
 const getMimeType = (file: File): string => {
@@ -23,10 +25,13 @@ const getMimeType = (file: File): string => {
   }
 };
 
-const ResumeUpload: React.FC<Props> = ({ onSubmit }) => {
+const ResumeUpload: React.FC<Props> = ({ onSubmit, onAudit }) => {
+  const { t } = useI18n();
   const [text, setText] = useState('');
   const [fileInput, setFileInput] = useState<{ data: string; mimeType: string; fileName: string } | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [jobText, setJobText] = useState('');
+  const [jobFile, setJobFile] = useState<{ data: string; mimeType: string; fileName: string } | null>(null);
 
   const handleFile = async (file: File) => {
     if (!file) return;
@@ -62,43 +67,77 @@ const ResumeUpload: React.FC<Props> = ({ onSubmit }) => {
     if (file) handleFile(file);
   };
 
-  const handleSubmit = () => {
-    if (fileInput) {
-      onSubmit({ type: 'file', ...fileInput });
-    } else if (text.trim()) {
-      onSubmit({ type: 'text', content: text });
+  const handleJobFile = (file: File) => {
+    const mimeType = getMimeType(file);
+    const reader = new FileReader();
+
+    if (mimeType === 'text/plain') {
+      reader.onload = (e) => {
+        setJobText(e.target?.result as string);
+        setJobFile(null);
+      };
+      reader.readAsText(file);
+    } else {
+      reader.onload = (e) => {
+        const result = e.target?.result as string;
+        if (!result) return;
+        setJobFile({
+          data: result.split(',')[1],
+          mimeType: mimeType,
+          fileName: file.name
+        });
+        setJobText('');
+      };
+      reader.readAsDataURL(file);
     }
   };
 
+  const getJobInput = (): JobDescriptionInput | null => {
+    if (jobFile) return { type: 'file', ...jobFile };
+    if (jobText.trim()) return { type: 'text', content: jobText };
+    return null;
+  };
+
+  const getResumeInput = (): ResumeInput | null => {
+    if (fileInput) return { type: 'file', ...fileInput };
+    if (text.trim()) return { type: 'text', content: text };
+    return null;
+  };
+
+  const handleSubmit = (submit: Props['onSubmit']) => {
+    const input = getResumeInput();
+    if (input) submit(input, getJobInput());
+  };
+
   const isSubmitDisabled = !text.trim() && !fileInput;
 
   return (
     <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
       <div className="text-center mb-10">
-        <h2 className="text-3xl font-bold text-slate-900 mb-4">Prepare for Success</h2>
+        <h2 className="text-3xl font-bold text-slate-900 mb-4">{t('upload.title')}</h2>
         <p className="text-slate-600 text-lg">
-          Upload your resume (PDF, Image, Text) or paste its content to start.
+          {t('upload.subtitle')}
         </p>
       </div>
 
       <div className="grid md:grid-cols-2 gap-8">
         <div className="space-y-4">
-          <label className="block text-sm font-semibold text-slate-700">Option 1: Paste Resume Text</label>
+          <label className="block text-sm font-semibold text-slate-700">{t('upload.pasteLabel')}</label>
           <textarea
             className={`w-full h-64 p-4 border rounded-2xl bg-slate-50 focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all resize-none text-slate-700 ${
               fileInput ? 'opacity-50 pointer-events-none' : 'border-slate-200'
             }`}
-            placeholder="Experience, Skills, Projects..."
+            placeholder={t('upload.pastePlaceholder')}
             value={text}
             onChange={(e) => setText(e.target.value)}
           />
           {fileInput && (
-            <p className="text-xs text-blue-600 font-medium">Clear selected file to use text input</p>
+            <p className="text-xs text-blue-600 font-medium">{t('upload.clearFileHint')}</p>
           )}
         </div>
 
         <div className="space-y-4">
-          <label className="block text-sm font-semibold text-slate-700">Option 2: Upload Document</label>
+          <label className="block text-sm font-semibold text-slate-700">{t('upload.fileLabel')}</label>
           <div 
             onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
             onDragLeave={() => setIsDragging(false)}
@@ -125,7 +164,7 @@ const ResumeUpload: React.FC<Props> = ({ onSubmit }) => {
                   onClick={(e) => { e.stopPropagation(); setFileInput(null); }}
                   className="text-red-500 text-sm font-semibold hover:underline"
                 >
-                  Remove File
+                  {t('upload.removeFile')}
                 </button>
               </div>
             ) : (
@@ -135,8 +174,8 @@ const ResumeUpload: React.FC<Props> = ({ onSubmit }) => {
                     <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5m-13.5-9L12 3m0 0 4.5 4.5M12 3v13.5" />
                   </svg>
                 </div>
-                <p className="text-slate-600 text-center font-medium">PDF, PNG, JPG, or TXT</p>
-                <p className="text-slate-400 text-xs mt-1">Drag and drop or browse</p>
+                <p className="text-slate-600 text-center font-medium">{t('upload.fileTypes')}</p>
+                <p className="text-slate-400 text-xs mt-1">{t('upload.dragDrop')}</p>
                 <input 
                   type="file" 
                   accept=".txt,.pdf,.png,.jpg,.jpeg" 
@@ -148,28 +187,80 @@ const ResumeUpload: React.FC<Props> = ({ onSubmit }) => {
                   onClick={() => document.getElementById('file-upload')?.click()}
                   className="mt-6 px-6 py-2 bg-white border border-slate-200 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors font-medium shadow-sm"
                 >
-                  Browse Files
+                  {t('upload.browse')}
                 </button>
               </>
             )}
           </div>
           {text.trim() && (
-            <p className="text-xs text-blue-600 font-medium">Clear text input to upload a file</p>
+            <p className="text-xs text-blue-600 font-medium">{t('upload.clearTextHint')}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-10 space-y-4">
+        <div className="flex items-center justify-between">
+          <label className="block text-sm font-semibold text-slate-700">
+            {t('upload.targetRole')} <span className="text-slate-400 font-normal">{t('upload.targetRoleHint')}</span>
+          </label>
+          {jobFile ? (
+            <button
+              onClick={() => setJobFile(null)}
+              className="text-red-500 text-sm font-semibold hover:underline"
+            >
+              {t('upload.removeJobFile', { fileName: jobFile.fileName })}
+            </button>
+          ) : (
+            <>
+              <input
+                type="file"
+                accept=".txt,.pdf,.png,.jpg,.jpeg"
+                className="hidden"
+                id="job-upload"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleJobFile(file);
+                }}
+              />
+              <button
+                onClick={() => document.getElementById('job-upload')?.click()}
+                className="text-blue-600 text-sm font-semibold hover:underline"
+              >
+                {t('upload.uploadPosting')}
+              </button>
+            </>
           )}
         </div>
+        <textarea
+          className={`w-full h-32 p-4 border rounded-2xl bg-slate-50 focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all resize-none text-slate-700 ${
+            jobFile ? 'opacity-50 pointer-events-none' : 'border-slate-200'
+          }`}
+          placeholder={t('upload.jobPlaceholder')}
+          value={jobText}
+          onChange={(e) => setJobText(e.target.value)}
+        />
       </div>
 
-      <div className="mt-12 flex justify-center">
+      <div className="mt-12 flex flex-col items-center gap-4">
         <button
           disabled={isSubmitDisabled}
-          onClick={handleSubmit}
+          onClick={() => handleSubmit(onSubmit)}
           className={`px-12 py-4 rounded-full text-white font-bold text-lg shadow-lg transform transition-all active:scale-95 ${
             !isSubmitDisabled 
               ? 'bg-blue-600 hover:bg-blue-700 shadow-blue-200 cursor-pointer' 
               : 'bg-slate-300 cursor-not-allowed'
           }`}
         >
-          Start My Interview
+          {t('upload.submit')}
+        </button>
+        <button
+          disabled={isSubmitDisabled}
+          onClick={() => handleSubmit(onAudit)}
+          className={`text-sm font-semibold transition-colors ${
+            !isSubmitDisabled ? 'text-blue-600 hover:text-blue-800 hover:underline' : 'text-slate-300 cursor-not-allowed'
+          }`}
+        >
+          {t('upload.audit')}
         </button>
       </div>
     </div>
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { InterviewFormat, Rubric } from '../types';
+import { BUILT_IN_RUBRIC, RubricImportError, parseRubric, rubricCompetencies, toRubricJson, weightShare } from '../services/scoringRubric';
+import { PRESENCE_COMPETENCY } from '../services/cameraPresence';
+import { downloadFile } from '../services/reportExport';
+import { useI18n } from '../i18n';
+
+interface Props {
+  rubric: Rubric;
+  format: InterviewFormat;
+  onChange: (rubric: Rubric) => void;
+}
+
+const buttonClass = 'px-3 py-1.5 bg-white border border-slate-200 text-slate-700 hover:bg-slate-100 rounded-lg text-xs font-semibold transition-colors';
+
+const RubricSettings: React.FC<Props> = ({ rubric, format, onChange }) => {
+  const { t } = useI18n();
+  const [error, setError] = useState<string | null>(null);
+  const competencies = rubricCompetencies(rubric, format);
+
+  // Unknown format keys from the file are shown as written.
+  const formatName = (key: string | undefined) => key && Object.values(InterviewFormat).includes(key as InterviewFormat)
+    ? t(`format.${key as InterviewFormat}.label`)
+    : key ?? '';
+
+  const handleImport = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        onChange(parseRubric(e.target?.result as string));
+        setError(null);
+      } catch (err) {
+        console.error(err);
+        setError(err instanceof RubricImportError
+          ? t(`rubric.importError.${err.problem}`, { format: formatName(err.format), competency: err.competency ?? '', presence: PRESENCE_COMPETENCY.name })
+          : t('rubric.importError'));
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <details className="w-full max-w-xl text-left bg-slate-50 border border-slate-100 rounded-2xl">
+      <summary className="px-4 py-3 cursor-pointer text-sm font-semibold text-slate-700 select-none">
+        {t('rubric.summary', { name: rubric.name })}
+      </summary>
+      <div className="px-4 pb-4 pt-1 space-y-3">
+        {!rubric.formats[format] && <p className="text-xs text-slate-500">{t('rubric.fallback')}</p>}
+        <ul className="space-y-1 text-sm text-slate-700">
+          {competencies.map(c => (
+            <li key={c.name} className="flex justify-between gap-4">
+              <span>{c.name}</span>
+              <span className="text-xs text-slate-400">{t('feedback.weight', { share: Math.round(weightShare(c, competencies) * 100) })}</span>
+            </li>
+          ))}
+        </ul>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        <div className="flex flex-wrap gap-2">
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            id="rubric-import"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+          <button onClick={() => document.getElementById('rubric-import')?.click()} className={buttonClass}>
+            {t('rubric.import')}
+          </button>
+          <button onClick={() => downloadFile(toRubricJson(rubric), 'rubric.json', 'application/json')} className={buttonClass}>
+            {t('rubric.download')}
+          </button>
+          {rubric !== BUILT_IN_RUBRIC && (
+            <button onClick={() => onChange(BUILT_IN_RUBRIC)} className={buttonClass}>
+              {t('rubric.reset')}
+            </button>
+          )}
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default RubricSettings;
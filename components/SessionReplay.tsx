@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnswerReview, InterviewEvent, InterviewMessage, SessionRecording } from '../types';
+import { formatClock } from '../utils/formatClock';
+import { eventMessageIndex } from '../services/interviewTools';
+import { useI18n } from '../i18n';
+
+interface Props {
+  messages: InterviewMessage[];
+  recording: SessionRecording | null;
+  answerReviews?: AnswerReview[];
+  events?: InterviewEvent[];
+}
+
+const scoreTone = (score: number) =>
+  score >= 75 ? 'bg-emerald-50 text-emerald-700 border-emerald-100'
+  : score >= 50 ? 'bg-amber-50 text-amber-700 border-amber-100'
+  : 'bg-red-50 text-red-700 border-red-100';
+
+const AnswerAnnotation: React.FC<{ review: AnswerReview }> = ({ review }) => {
+  const { t } = useI18n();
+  const [showSuggestion, setShowSuggestion] = useState(false);
+  return (
+    <div className="max-w-[80%] mt-2 p-4 bg-white border border-slate-100 rounded-2xl shadow-sm text-left">
+      <div className="flex items-start gap-3">
+        <span className={`shrink-0 px-2 py-0.5 rounded-lg border text-xs font-black ${scoreTone(review.score)}`}>{review.score}</span>
+        <p className="text-xs text-slate-600 leading-relaxed">{review.critique}</p>
+      </div>
+      <button
+        onClick={() => setShowSuggestion(prev => !prev)}
+        className="mt-3 text-xs font-semibold text-blue-600 hover:underline"
+      >
+        {t(showSuggestion ? 'replay.hideSuggestion' : 'replay.showSuggestion')}
+      </button>
+      {showSuggestion && (
+        <p className="mt-2 p-3 bg-blue-50/60 border border-blue-100 rounded-xl text-xs text-slate-700 leading-relaxed italic">
+          {review.suggestedAnswer}
+        </p>
+      )}
+    </div>
+  );
+};
+
+const SessionReplay: React.FC<Props> = ({ messages, recording, answerReviews = [], events = [] }) => {
+  const { t } = useI18n();
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [playhead, setPlayhead] = useState(0);
+
+  useEffect(() => {
+    if (!recording) return;
+    const url = URL.createObjectURL(recording.audio);
+    setAudioUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [recording]);
+
+  const turnOffset = (m: InterviewMessage) => recording
+    ? Math.max(0, ((m.startedAt ?? m.timestamp) - recording.startedAt) / 1000)
+    : 0;
+
+  const activeIndex = recording
+    ? messages.reduce((active, m, idx) => (turnOffset(m) <= playhead ? idx : active), -1)
+    : -1;
+
+  const seekTo = (m: InterviewMessage) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = turnOffset(m);
+    audioRef.current.play();
+  };
+
+  // Each turn shows what the interviewer logged about it live: the topic of a question, or its rating of an answer.
+  const liveNotes = new Map<number, string>();
+  events.forEach(event => {
+    const index = eventMessageIndex(event, messages);
+    if (index === -1) return;
+    if (event.type === 'question') liveNotes.set(index, `${event.topic} · ${event.difficulty}`);
+    if (event.type === 'answerQuality') liveNotes.set(index, `${t('replay.liveRating', { score: event.score })}${event.reason ? `: ${event.reason}` : ''}`);
+  });
+
+  if (messages.length === 0) return null;
+
+  return (
+    <div className="mb-12">
+      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-[0.2em] mb-6">
+        {t(answerReviews.length > 0 ? 'replay.titleWithReview' : 'replay.title')}
+      </h3>
+      <div className="bg-white p-6 rounded-3xl border border-slate-100 shadow-sm">
+        {recording && audioUrl ? (
+          <div className="flex flex-col sm:flex-row sm:items-center gap-4 mb-6 pb-6 border-b border-slate-100">
+            <audio
+              ref={audioRef}
+              src={audioUrl}
+              controls
+              onTimeUpdate={(e) => setPlayhead(e.currentTarget.currentTime)}
+              className="flex-1"
+            />
+            <a
+              href={audioUrl}
+              download={`interview-${new Date(recording.startedAt).toISOString().slice(0, 10)}.wav`}
+              className="px-5 py-2.5 bg-slate-900 text-white hover:bg-slate-800 rounded-xl text-sm font-semibold text-center transition-all"
+            >
+              {t('replay.download')}
+            </a>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-400 mb-6">{t('replay.noAudio')}</p>
+        )}
+
+        <div className="max-h-[420px] overflow-y-auto space-y-3 pr-2">
+          {messages.map((m, idx) => {
+            const review = answerReviews.find(r => r.messageIndex === idx);
+            return (
+              <div key={idx} className={`flex flex-col ${m.role === 'user' ? 'items-end' : 'items-start'}`}>
+                <button
+                  disabled={!recording}
+                  onClick={() => seekTo(m)}
+                  className={`max-w-[80%] text-left px-5 py-3 rounded-3xl text-[13px] leading-relaxed transition-all ${
+                    m.role === 'user' ? 'bg-blue-600 text-white rounded-tr-none' : 'bg-slate-50 border border-slate-100 text-slate-800 rounded-tl-none'
+                  } ${idx === activeIndex ? 'ring-2 ring-offset-2 ring-blue-400' : ''} ${recording ? 'cursor-pointer hover:opacity-90' : 'cursor-default'}`}
+                >
+                  {recording && (
+                    <span className={`block text-[10px] font-bold uppercase tracking-widest mb-1 ${m.role === 'user' ? 'text-blue-200' : 'text-slate-400'}`}>
+                      {formatClock(turnOffset(m))}
+                    </span>
+                  )}
+                  {m.text}
+                </button>
+                {liveNotes.has(idx) && (
+                  <span className="max-w-[80%] mt-1 px-3 text-[11px] font-semibold text-slate-400">{liveNotes.get(idx)}</span>
+                )}
+                {review && <AnswerAnnotation review={review} />}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionReplay;
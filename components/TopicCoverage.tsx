@@ -0,0 +1,72 @@
+import React from 'react';
+import { QuestionCoverage } from '../types';
+import { useI18n } from '../i18n';
+
+interface Props {
+  coverage: QuestionCoverage;
+  resumeSkills: string[];
+}
+
+const TopicCoverage: React.FC<Props> = ({ coverage, resumeSkills }) => {
+  const { t } = useI18n();
+  if (coverage.planned.length === 0) return null;
+
+  const askedIds = new Set(coverage.asked.map(a => a.questionId));
+  const general = t('feedback.coverage.general');
+  const topics = new Map<string, { planned: number; asked: number }>();
+  coverage.planned.forEach(q => {
+    (q.skills.length ? q.skills : [general]).forEach(skill => {
+      const topic = topics.get(skill) ?? { planned: 0, asked: 0 };
+      topic.planned++;
+      if (askedIds.has(q.id)) topic.asked++;
+      topics.set(skill, topic);
+    });
+  });
+  const plannedSkills = new Set(coverage.planned.flatMap(q => q.skills.map(s => s.toLowerCase())));
+  const uncovered = resumeSkills.filter(s => !plannedSkills.has(s.toLowerCase()));
+
+  return (
+    <div className="mb-12">
+      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-[0.2em] mb-2">{t('feedback.coverage')}</h3>
+      <p className="text-sm text-slate-500 mb-6">
+        {t('feedback.coverage.summary', { asked: askedIds.size, planned: coverage.planned.length, bank: coverage.bankName })}
+      </p>
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="bg-white p-6 rounded-3xl border border-slate-100 shadow-sm space-y-3">
+          {[...topics.entries()].map(([skill, topic]) => (
+            <div key={skill}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="font-semibold text-slate-700">{skill}</span>
+                <span className="text-slate-400">{topic.asked} / {topic.planned}</span>
+              </div>
+              <div className="w-full h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-600 rounded-full" style={{ width: `${(topic.asked / topic.planned) * 100}%` }} />
+              </div>
+            </div>
+          ))}
+        </div>
+        <ul className="bg-white p-6 rounded-3xl border border-slate-100 shadow-sm space-y-3">
+          {coverage.planned.map(q => {
+            const asked = askedIds.has(q.id);
+            return (
+              <li key={q.id} className="flex items-start gap-3 text-sm">
+                <span
+                  title={asked ? t('feedback.coverage.asked') : t('feedback.coverage.notAsked')}
+                  className={`mt-0.5 w-5 h-5 flex-shrink-0 rounded-full flex items-center justify-center text-xs font-bold ${asked ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-400'}`}
+                >
+                  {asked ? '✓' : '–'}
+                </span>
+                <span className={asked ? 'text-slate-700' : 'text-slate-400'}>{q.text}</span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+      {uncovered.length > 0 && (
+        <p className="text-sm text-amber-700 mt-4">{t('feedback.coverage.gaps', { skills: uncovered.join(', ') })}</p>
+      )}
+    </div>
+  );
+};
+
+export default TopicCoverage;
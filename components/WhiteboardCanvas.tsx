@@ -0,0 +1,122 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { WhiteboardPoint, WhiteboardShape } from '../types';
+import { WHITEBOARD_HEIGHT, WHITEBOARD_WIDTH, drawWhiteboard } from '../utils/whiteboard';
+import { useI18n } from '../i18n';
+
+interface Props {
+  shapes: WhiteboardShape[];
+  onChange: (shapes: WhiteboardShape[]) => void;
+  lastSentAt: number | null;
+}
+
+type Tool = WhiteboardShape['kind'];
+
+const TOOLS: Tool[] = ['box', 'arrow', 'text', 'pen'];
+
+const buttonClass = 'px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors border';
+
+const WhiteboardCanvas: React.FC<Props> = ({ shapes, onChange, lastSentAt }) => {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [tool, setTool] = useState<Tool>('box');
+  const [label, setLabel] = useState('');
+  // The shape being dragged out; it only joins `shapes` when the pointer is released.
+  const [draft, setDraft] = useState<WhiteboardShape | null>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) drawWhiteboard(ctx, draft ? [...shapes, draft] : shapes);
+  }, [shapes, draft]);
+
+  // Pointer position in board coordinates, whatever size the canvas is displayed at.
+  const toPoint = (e: React.PointerEvent<HTMLCanvasElement>): WhiteboardPoint => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.round(((e.clientX - rect.left) / rect.width) * WHITEBOARD_WIDTH),
+      y: Math.round(((e.clientY - rect.top) / rect.height) * WHITEBOARD_HEIGHT),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toPoint(e);
+    if (tool === 'text') {
+      if (label.trim()) onChange([...shapes, { kind: 'text', at: point, text: label.trim() }]);
+      setLabel('');
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft(tool === 'pen' ? { kind: 'pen', points: [point] } : { kind: tool, from: point, to: point });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!draft) return;
+    const point = toPoint(e);
+    if (draft.kind === 'pen') setDraft({ ...draft, points: [...draft.points, point] });
+    else if (draft.kind === 'box' || draft.kind === 'arrow') setDraft({ ...draft, to: point });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    // A click without a drag would leave an invisible box or arrow behind.
+    const isDot = (draft.kind === 'box' || draft.kind === 'arrow') && Math.hypot(draft.to.x - draft.from.x, draft.to.y - draft.from.y) < 4;
+    if (!isDot) onChange([...shapes, draft]);
+    setDraft(null);
+  };
+
+  return (
+    <div className="mb-6 rounded-2xl border border-slate-200 overflow-hidden">
+      <div className="flex flex-wrap items-center gap-2 px-4 py-2 bg-slate-50 border-b border-slate-200">
+        {TOOLS.map(id => (
+          <button
+            key={id}
+            onClick={() => setTool(id)}
+            className={`${buttonClass} ${tool === id ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-700 border-slate-200 hover:bg-slate-100'}`}
+          >
+            {t(`live.whiteboard.${id}`)}
+          </button>
+        ))}
+        {tool === 'text' && (
+          <input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder={t('live.whiteboard.labelPlaceholder')}
+            className="px-2 py-1 bg-white border border-slate-200 rounded-lg text-xs text-slate-700 outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        )}
+        <div className="flex items-center gap-2 ml-auto">
+          {lastSentAt !== null && (
+            <span className="text-[10px] font-semibold text-slate-400">
+              {t('live.whiteboard.sent', { time: new Date(lastSentAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) })}
+            </span>
+          )}
+          <button
+            onClick={() => onChange(shapes.slice(0, -1))}
+            disabled={shapes.length === 0}
+            className={`${buttonClass} bg-white text-slate-700 border-slate-200 hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed`}
+          >
+            {t('live.whiteboard.undo')}
+          </button>
+          <button
+            onClick={() => onChange([])}
+            disabled={shapes.length === 0}
+            className={`${buttonClass} bg-white text-slate-700 border-slate-200 hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed`}
+          >
+            {t('live.whiteboard.clear')}
+          </button>
+        </div>
+      </div>
+      <canvas
+        ref={canvasRef}
+        width={WHITEBOARD_WIDTH}
+        height={WHITEBOARD_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`block w-full h-auto touch-none ${tool === 'text' ? 'cursor-text' : 'cursor-crosshair'}`}
+      />
+    </div>
+  );
+};
+
+export default WhiteboardCanvas;
@@ -0,0 +1,22 @@
+import React from 'react';
+import { ImageFrame } from '../types';
+import { whiteboardDataUrl } from '../utils/whiteboard';
+import { useI18n } from '../i18n';
+
+interface Props {
+  image: ImageFrame;
+}
+
+const WhiteboardDiagram: React.FC<Props> = ({ image }) => {
+  const { t } = useI18n();
+  return (
+    <div className="mb-12">
+      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-[0.2em] mb-6">{t('feedback.whiteboard')}</h3>
+      <div className="bg-white p-4 rounded-3xl border border-slate-100 shadow-sm">
+        <img src={whiteboardDataUrl(image)} alt={t('feedback.whiteboard.alt')} className="w-full h-auto rounded-2xl border border-slate-100" />
+      </div>
+    </div>
+  );
+};
+
+export default WhiteboardDiagram;
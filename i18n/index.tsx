@@ -0,0 +1,64 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { InterviewLanguage } from '../types';
+import { DEFAULT_LANGUAGE, LANGUAGES, isInterviewLanguage } from './languages';
+import { MessageCatalog, MessageKey, en } from './messages/en';
+import { de } from './messages/de';
+import { es } from './messages/es';
+import { ja } from './messages/ja';
+
+export type { MessageKey } from './messages/en';
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+const CATALOGS: Record<InterviewLanguage, MessageCatalog> = { en, de, es, ja };
+const STORAGE_KEY = 'career-compass.language';
+
+export const translate = (language: InterviewLanguage, key: MessageKey, params: Record<string, string | number> = {}): string => {
+  const template = CATALOGS[language][key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+};
+
+interface I18nContextValue {
+  language: InterviewLanguage;
+  setLanguage: (language: InterviewLanguage) => void;
+  t: Translate;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+const readStoredLanguage = (): InterviewLanguage => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return isInterviewLanguage(stored) ? stored : DEFAULT_LANGUAGE;
+  } catch {
+    return DEFAULT_LANGUAGE;
+  }
+};
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [language, setLanguage] = useState<InterviewLanguage>(readStoredLanguage);
+
+  useEffect(() => {
+    document.documentElement.lang = LANGUAGES[language].locale;
+    try {
+      window.localStorage.setItem(STORAGE_KEY, language);
+    } catch {
+      // Private browsing can refuse storage; the choice still applies for this visit.
+    }
+  }, [language]);
+
+  const t: Translate = (key, params) => translate(language, key, params);
+
+  return (
+    <I18nContext.Provider value={{ language, setLanguage, t }}>
+      {children}
+    </I18nContext.Provider>
+  );
+};
+
+export const useI18n = (): I18nContextValue => {
+  const value = useContext(I18nContext);
+  if (!value) {
+    throw new Error("useI18n must be used inside an I18nProvider.");
+  }
+  return value;
+};
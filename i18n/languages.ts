@@ -0,0 +1,22 @@
+import { InterviewLanguage } from "../types";
+
+export interface LanguageDefinition {
+  // How the language names itself in the picker.
+  label: string;
+  // How prompts refer to the language when instructing the model.
+  englishName: string;
+  // BCP-47 code used for transcription hints and the document language.
+  locale: string;
+}
+
+export const LANGUAGES: Record<InterviewLanguage, LanguageDefinition> = {
+  en: { label: 'English', englishName: 'English', locale: 'en-US' },
+  de: { label: 'Deutsch', englishName: 'German', locale: 'de-DE' },
+  es: { label: 'Español', englishName: 'Spanish', locale: 'es-ES' },
+  ja: { label: '日本語', englishName: 'Japanese', locale: 'ja-JP' },
+};
+
+export const DEFAULT_LANGUAGE: InterviewLanguage = 'en';
+
+export const isInterviewLanguage = (value: unknown): value is InterviewLanguage =>
+  typeof value === 'string' && value in LANGUAGES;
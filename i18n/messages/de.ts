@@ -0,0 +1,305 @@
+import { MessageCatalog } from "./en";
+
+export const de: MessageCatalog = {
+  'app.history': 'Verlauf',
+  'app.startOver': 'Neu beginnen',
+  'app.language': 'Sprache',
+  'app.resumeError': 'Der Lebenslauf konnte nicht analysiert werden. Bitte versuchen Sie es mit einem gut lesbaren Dokument oder Text erneut.',
+  'app.apiKey.title': 'API-Schlüssel erforderlich',
+  'app.apiKey.body': 'Das Live-Interview benötigt einen gültigen Gemini-API-Schlüssel aus einem kostenpflichtigen GCP-Projekt.',
+  'app.apiKey.select': 'API-Schlüssel auswählen',
+  'app.apiKey.billing': 'Abrechnungsdokumentation ansehen',
+  'app.analyzing.title': 'Ihr Profil wird analysiert...',
+  'app.analyzing.body': 'Gemini liest Ihren Lebenslauf, um ein passendes Interview vorzubereiten.',
+  'app.jobFitError': 'Die Stellenanzeige konnte nicht analysiert werden. Bitte versuchen Sie es erneut.',
+  'app.footer': 'Unterstützt von Gemini 2.5 Flash Native Audio',
+
+  'upload.title': 'Bereit für den Erfolg',
+  'upload.subtitle': 'Laden Sie Ihren Lebenslauf hoch (PDF, Bild, Text) oder fügen Sie den Inhalt ein.',
+  'upload.pasteLabel': 'Option 1: Lebenslauf als Text einfügen',
+  'upload.pastePlaceholder': 'Berufserfahrung, Kenntnisse, Projekte...',
+  'upload.clearFileHint': 'Entfernen Sie die ausgewählte Datei, um Text einzugeben',
+  'upload.fileLabel': 'Option 2: Dokument hochladen',
+  'upload.removeFile': 'Datei entfernen',
+  'upload.fileTypes': 'PDF, PNG, JPG oder TXT',
+  'upload.dragDrop': 'Hierher ziehen oder durchsuchen',
+  'upload.browse': 'Dateien durchsuchen',
+  'upload.clearTextHint': 'Leeren Sie das Textfeld, um eine Datei hochzuladen',
+  'upload.targetRole': 'Zielposition',
+  'upload.targetRoleHint': '(optionale Stellenbeschreibung)',
+  'upload.removeJobFile': '{fileName} entfernen',
+  'upload.uploadPosting': 'Stellenanzeige hochladen',
+  'upload.jobPlaceholder': 'Fügen Sie die Stellenanzeige ein, damit sich das Interview auf Ihre Lücken für diese Position konzentriert...',
+  'upload.submit': 'Interview starten',
+  'upload.audit': 'Nur meinen Lebenslauf prüfen',
+  'drills.title': 'Übungsdrills',
+  'drills.lastScore': 'letzte Bewertung {score} %',
+  'drills.due': 'jetzt fällig',
+  'drills.dueIn': 'fällig in {days} Tagen',
+  'drills.remove': 'Entfernen',
+  'drills.start': 'Drill starten',
+  'drills.startEarly': 'Vorzeitig üben',
+
+  'format.TECHNICAL.label': 'Technisches Fachgespräch',
+  'format.TECHNICAL.tagline': 'Praxisnahe Fragen zu den Fähigkeiten aus Ihrem Lebenslauf.',
+  'format.BEHAVIORAL.label': 'Verhaltensinterview',
+  'format.BEHAVIORAL.tagline': 'Fragen zu früheren Erfahrungen, vertieft mit der STAR-Methode.',
+  'format.SYSTEM_DESIGN.label': 'Systemdesign',
+  'format.SYSTEM_DESIGN.tagline': 'Entwerfen Sie ein System von Anfang bis Ende und begründen Sie Ihre Abwägungen.',
+  'format.HR_SCREEN.label': 'HR-Vorgespräch',
+  'format.HR_SCREEN.tagline': 'Ein kurzes Gespräch mit dem Recruiting zu Motivation, Passung und Rahmenbedingungen.',
+
+  'live.title': 'Sitzung: {format}',
+  'live.subtitle.voice': 'Sprachsitzung mit CareerCompass Lead',
+  'live.subtitle.text': 'Textchat mit CareerCompass Lead',
+  'live.encrypted': 'Verschlüsselt live',
+  'live.difficulty': 'Schwierigkeit: {label}',
+  'live.difficulty.hint': 'Nach starken Antworten werden die Fragen schwieriger, nach schwachen leichter.',
+  'difficulty.level.1': 'Grundlagen',
+  'difficulty.level.2': 'Aufbauend',
+  'difficulty.level.3': 'Sicher',
+  'difficulty.level.4': 'Fortgeschritten',
+  'difficulty.level.5': 'Experte',
+  'live.code.toggle': 'Code-Editor',
+  'live.code.language': 'Sprache',
+  'live.code.shared': 'Geteilt um {time}',
+  'live.code.run': 'Durchgehen',
+  'live.code.runHint': 'Den Interviewer bitten, Ihren Code an einem Beispiel durchzugehen',
+  'live.code.submit': 'Lösung einreichen',
+  'live.code.placeholder': 'Schreiben Sie hier Ihren Code. Der Interviewer sieht ihn, wenn Sie ihn durchgehen lassen oder einreichen, und automatisch, während Sie ihn bearbeiten.',
+  'live.whiteboard.toggle': 'Whiteboard',
+  'live.whiteboard.box': 'Kasten',
+  'live.whiteboard.arrow': 'Pfeil',
+  'live.whiteboard.text': 'Beschriftung',
+  'live.whiteboard.pen': 'Stift',
+  'live.whiteboard.labelPlaceholder': 'Text eingeben, dann auf das Board klicken',
+  'live.whiteboard.sent': 'Gesendet um {time}',
+  'live.whiteboard.undo': 'Rückgängig',
+  'live.whiteboard.clear': 'Leeren',
+  'live.camera.optIn': 'Kamera für Feedback zur Präsenz einschalten (nur Sprachinterviews)',
+  'live.camera.none': 'Keine Kamera gefunden, dieses Interview läuft nur mit Audio',
+  'live.camera.unavailable': 'Die Kamera konnte nicht verwendet werden, das Interview läuft nur mit Audio weiter.',
+  'live.camera.selfView': 'Ihre Kamera',
+  'live.drill.label': 'Übungsdrill',
+  'live.drill.summary': '{min}–{max} gezielte Fragen zu {topic}. Der Interviewer überspringt den Lebenslauf und kommt direkt zu den Fragen.',
+  'live.drill.reason.competency': 'In der letzten Auswertung mit {score} % bewertet.',
+  'live.drill.reason.skill': 'Für die Rolle {role} gefordert, fehlt aber in Ihrem Lebenslauf.',
+  'live.end': 'Interview beenden',
+  'live.boarding.title': 'Vorbereitung',
+  'live.boarding.body': 'Gleich beginnt Ihr Live-Interview. Wählen Sie ein Format und, falls gewünscht, wer Sie interviewt; Ihr Gesprächspartner stellt sich vor und führt durch das Gespräch.',
+  'live.start': 'Sitzung starten',
+  'live.useText': 'Kein Mikrofon? Stattdessen per Textchat',
+  'live.error.title': 'Sitzung unterbrochen',
+  'live.error.mic': 'Kein Zugriff auf das Mikrofon. Bitte erteilen Sie die Berechtigung.',
+  'live.error.lost': 'Die Verbindung ist abgebrochen und konnte nicht wiederhergestellt werden. Ihr Transkript ist gesichert; versuchen Sie, sich erneut zu verbinden.',
+  'live.error.capture': 'Die Audioaufnahme konnte nicht gestartet werden.',
+  'live.error.apiKey': 'Ungültiger API-Schlüssel. Verwenden Sie einen Schlüssel aus einem kostenpflichtigen Projekt.',
+  'live.error.webAudio': 'Ihr Browser unterstützt die Web Audio API nicht.',
+  'live.error.unexpected': 'Ein unerwarteter Fehler ist aufgetreten.',
+  'live.error.chat': 'Der Interviewer ist nicht erreichbar. Bitte prüfen Sie Ihre Verbindung und versuchen Sie es erneut.',
+  'live.continueText': 'Im Textchat fortfahren',
+  'live.configureKey': 'Schlüssel einrichten',
+  'live.retryMic': 'Mikrofon erneut versuchen',
+  'live.reconnect': 'Neu verbinden',
+  'live.reconnecting': 'Verbindung wird wiederhergestellt (Versuch {attempt} von {max})...',
+  'live.syncing': 'Interviewer wird verbunden...',
+  'live.reconnectBanner': 'Verbindung verloren. Neuer Versuch ({attempt} von {max}); Ihr Transkript bleibt erhalten und der Interviewer macht dort weiter, wo Sie aufgehört haben.',
+  'live.status.speaking': 'KI spricht',
+  'live.status.thinking': 'KI überlegt',
+  'live.status.typing': 'Sie sind dran',
+  'live.status.listening': 'Wartet auf Antwort',
+  'live.draftPlaceholder': 'Antwort eingeben... (Enter zum Senden, Umschalt+Enter für eine neue Zeile)',
+  'live.send': 'Senden',
+  'live.clock.remaining': '{phase} · noch {remaining}',
+  'live.clock.overtime': '{phase} · Zeit überschritten',
+  'live.wrappingUp': 'Das Interview ist beendet. Ihre Auswertung wird vorbereitet...',
+
+  'persona.summary': 'Interviewer: {role} · {strictness} · {voice}',
+  'persona.role': 'Interviewer',
+  'persona.voice': 'Stimme',
+  'persona.difficulty': 'Schwierigkeit',
+  'persona.pacing': 'Tempo',
+  'persona.pushBack': 'Bei vagen Antworten nachhaken',
+  'persona.description': '{role} · {strictness} · Tempo: {pacing} · Stimme: {voice}',
+  'persona.role.RECRUITER': 'Recruiter',
+  'persona.role.PEER_ENGINEER': 'Engineering-Kollege',
+  'persona.role.DIRECTOR': 'Engineering Director',
+  'persona.role.VP': 'VP of Engineering',
+  'persona.strictness.supportive': 'Unterstützend',
+  'persona.strictness.balanced': 'Ausgewogen',
+  'persona.strictness.demanding': 'Anspruchsvoll',
+  'persona.pacing.relaxed': 'Entspannt',
+  'persona.pacing.standard': 'Normal',
+  'persona.pacing.brisk': 'Zügig',
+
+  'agenda.summary': 'Ablauf: {phases} Phasen · {minutes} Min.',
+  'agenda.minutes': 'Min.',
+  'agenda.phase.intro': 'Vorstellung',
+  'agenda.phase.resume': 'Lebenslauf',
+  'agenda.phase.technical': 'Kernfragen',
+  'agenda.phase.behavioral': 'Verhaltensfragen',
+  'agenda.phase.candidateQuestions': 'Ihre Fragen',
+  'agenda.phase.close': 'Abschluss',
+
+  'questionBank.summary': 'Fragenkatalog: {name} · {planned} von {total} Fragen geplant',
+  'questionBank.none': 'Keine Frage in diesem Katalog passt zu Ihren Fähigkeiten und diesem Format; der Interviewer improvisiert.',
+  'questionBank.import': 'Katalog importieren (JSON)',
+  'questionBank.download': 'Als Vorlage herunterladen',
+  'questionBank.reset': 'Integrierten Katalog verwenden',
+  'questionBank.importError': 'Der Fragenkatalog konnte nicht importiert werden.',
+  'questionBank.importError.json': 'Diese Datei ist kein gültiges JSON.',
+  'questionBank.importError.kind': 'Diese Datei ist kein CareerCompass-Fragenkatalog.',
+  'questionBank.importError.version': 'Dieser Fragenkatalog wurde für eine neuere Version von CareerCompass erstellt. Bitte aktualisieren Sie und versuchen Sie es erneut.',
+  'questionBank.importError.empty': 'Ein Fragenkatalog braucht einen Namen und mindestens eine Frage.',
+  'questionBank.importError.question': 'Bei Frage {question} fehlt ein Feld oder Schwierigkeit bzw. Format sind ungültig.',
+  'questionBank.importError.duplicateId': 'Jede Frage braucht eine eindeutige ID.',
+  'rubric.summary': 'Bewertungsraster: {name}',
+  'rubric.fallback': 'Dieses Raster deckt dieses Format nicht ab, daher werden die integrierten Kompetenzen verwendet.',
+  'rubric.import': 'Raster importieren (JSON)',
+  'rubric.download': 'Als Vorlage herunterladen',
+  'rubric.reset': 'Integriertes Raster verwenden',
+  'rubric.importError': 'Das Bewertungsraster konnte nicht importiert werden.',
+  'rubric.importError.json': 'Diese Datei ist kein gültiges JSON.',
+  'rubric.importError.kind': 'Diese Datei ist kein CareerCompass-Bewertungsraster.',
+  'rubric.importError.version': 'Dieses Bewertungsraster wurde für eine neuere Version von CareerCompass erstellt. Bitte aktualisieren Sie und versuchen Sie es erneut.',
+  'rubric.importError.empty': 'Ein Bewertungsraster braucht einen Namen und Kompetenzen für mindestens ein Format.',
+  'rubric.importError.format': '„{format}“ ist kein Interviewformat.',
+  'rubric.importError.noCompetencies': 'Das Raster für {format} braucht mindestens eine Kompetenz.',
+  'rubric.importError.competency': 'Bei Kompetenz {competency} im Raster für {format} fehlt ein Feld, ein Anker oder ein positives Gewicht.',
+  'rubric.importError.duplicateName': 'Jede Kompetenz im Raster für {format} braucht einen eindeutigen Namen; {presence} ist für die Kamera reserviert.',
+
+  'review.title': 'Profil prüfen',
+  'review.subtitle': 'Das haben wir aus Ihrem Lebenslauf gelesen. Korrigieren Sie, was falsch ist oder fehlt: Ihr Interviewer kennt nur, was hier steht.',
+  'review.profile': 'Profil',
+  'review.summary': 'Zusammenfassung',
+  'review.level': 'Erfahrungsstufe',
+  'review.skills': 'Fähigkeiten',
+  'review.years': 'J.',
+  'review.yearsOf': 'Jahre mit {skill}',
+  'review.addSkill': 'Fähigkeit eingeben und Enter drücken',
+  'review.work': 'Berufserfahrung',
+  'review.jobTitle': 'Position',
+  'review.company': 'Unternehmen',
+  'review.start': 'Beginn',
+  'review.end': 'Ende (leer, falls aktuell)',
+  'review.highlights': 'Erfolge (einer pro Zeile)',
+  'review.projects': 'Projekte',
+  'review.projectName': 'Name',
+  'review.description': 'Beschreibung',
+  'review.technologies': 'Technologien',
+  'review.addTag': 'Eingeben und Enter drücken',
+  'review.education': 'Ausbildung',
+  'review.institution': 'Einrichtung',
+  'review.degree': 'Abschluss',
+  'review.year': 'Jahr',
+  'review.certifications': 'Zertifikate',
+  'review.add': 'Hinzufügen',
+  'review.remove': 'Entfernen',
+  'review.empty': 'Nichts im Lebenslauf gefunden.',
+  'review.confirm': 'Passt so, weiter',
+
+  'audit.loading.title': 'Lebenslauf wird geprüft',
+  'audit.loading.body': 'Schlüsselwörter, Formatierung und Aufzählungspunkte werden wie von einem Bewerbermanagementsystem geprüft...',
+  'audit.error': 'Die Prüfung des Lebenslaufs ist fehlgeschlagen. Bitte versuchen Sie es erneut.',
+  'audit.retry': 'Erneut versuchen',
+  'audit.title': 'Lebenslauf-Prüfung',
+  'audit.subtitle': 'Bewertet für: {role}',
+  'audit.keywords': 'Schlüsselwort-Abdeckung',
+  'audit.matched': 'Gefundene Schlüsselwörter',
+  'audit.missing': 'Fehlende Schlüsselwörter',
+  'audit.formatting': 'Formatierung & Länge',
+  'audit.noWarnings': 'Keine Probleme mit Formatierung oder Länge gefunden.',
+  'audit.bullets': 'Aufzählungspunkte zum Verbessern',
+  'audit.original': 'Aktuell',
+  'audit.rewrite': 'Vorschlag',
+  'audit.noBullets': 'Ihre Aufzählungspunkte sind bereits stark.',
+  'audit.sections': 'Fehlende Abschnitte',
+  'audit.noSections': 'Alle erwarteten Abschnitte sind vorhanden.',
+  'audit.copy': 'Kopieren',
+  'audit.copied': 'Kopiert',
+  'audit.practice': 'Mit diesem Lebenslauf ein Interview üben',
+  'audit.back': 'Zurück zum Hochladen',
+
+  'feedback.loading.title': 'Ihre Sitzung wird ausgewertet',
+  'feedback.loading.body': 'CareerCompass AI bewertet Ihre Kompetenzen und erstellt einen detaillierten Entwicklungsplan...',
+  'feedback.empty': 'Keine Daten verfügbar',
+  'feedback.error': 'Die Auswertung konnte nicht erstellt werden. Ihr Interview ist noch vorhanden, Sie können es erneut versuchen.',
+  'feedback.retry': 'Erneut versuchen',
+  'feedback.title': 'Interview-Auswertung',
+  'feedback.subtitle': '{format}-Interview · Detaillierte Auswertung Ihrer beruflichen Eignung.',
+  'feedback.interviewer': 'Interviewer: {persona}',
+  'feedback.overall': 'Gesamt',
+  'feedback.competencies': 'Kompetenzen im Detail',
+  'feedback.rubric': 'Bewertet mit {name}',
+  'feedback.weight': '{share} % der Gesamtnote',
+  'feedback.roleFit': 'Passung zur Stelle',
+  'feedback.strengths': 'Stärken',
+  'feedback.growth': 'Entwicklungsfelder',
+  'feedback.advice': 'Strategischer Rat',
+  'feedback.delivery': 'Vortrag',
+  'feedback.delivery.pace': 'Sprechtempo',
+  'feedback.delivery.wpm': '{wpm} Wörter/Min.',
+  'feedback.delivery.paceHint': 'Angenehmer Bereich: {min}–{max} Wörter pro Minute',
+  'feedback.delivery.fillers': 'Füllwörter',
+  'feedback.delivery.fillerRate': '{rate} pro 100 Wörter',
+  'feedback.delivery.noFillers': 'Keine Füllwörter erkannt.',
+  'feedback.delivery.talkRatio': 'Redeanteil',
+  'feedback.delivery.you': 'Sie {share} %',
+  'feedback.delivery.interviewer': 'Interviewer {share} %',
+  'feedback.delivery.pauses': 'Längste Pausen',
+  'feedback.delivery.pauseItem': 'Antwort {answer}: {seconds} s',
+  'feedback.delivery.noPauses': 'Keine langen Pausen erkannt.',
+  'feedback.delivery.lengths': 'Antwortlänge',
+  'feedback.delivery.median': 'Median: {words} Wörter pro Antwort',
+  'feedback.delivery.answerLabel': 'Antwort {answer}: {words} Wörter',
+  'feedback.delivery.voiceOnly': 'Nur bei Sprachinterviews gemessen.',
+  'feedback.coverage': 'Themenabdeckung',
+  'feedback.coverage.summary': '{asked} von {planned} geplanten Fragen gestellt · {bank}',
+  'feedback.coverage.general': 'Allgemein',
+  'feedback.coverage.asked': 'Gestellt',
+  'feedback.coverage.notAsked': 'Nicht gestellt',
+  'feedback.coverage.gaps': 'Fähigkeiten aus Ihrem Lebenslauf ohne geplante Frage: {skills}',
+  'feedback.difficulty': 'Schwierigkeitsverlauf',
+  'feedback.difficulty.summary': 'Begonnen bei {start}, Höchststand {peak}, beendet bei {end}.',
+  'feedback.difficulty.start': 'Start',
+  'feedback.difficulty.answer': 'Antwort {n}',
+  'feedback.difficulty.score': 'Bewertet mit {score}/5',
+  'feedback.code': 'Code',
+  'feedback.code.strengths': 'Was gut war',
+  'feedback.code.issues': 'Was zu verbessern ist',
+  'feedback.code.submitted': 'Eingereichte Lösung · {language}',
+  'feedback.code.final': 'Letzter Stand im Editor · {language}',
+  'feedback.whiteboard': 'Whiteboard',
+  'feedback.whiteboard.alt': 'Ihr finales Whiteboard-Diagramm',
+  'feedback.drill': 'Gezielt üben',
+  'feedback.drillSkill': 'Einen kurzen Übungsdrill zu {skill} starten',
+  'feedback.export': 'Bericht exportieren',
+  'feedback.exportError': 'Der Bericht konnte nicht exportiert werden.',
+  'feedback.retake': 'Neues Interview mit anderem Dokument',
+  'feedback.poweredBy': 'Analyse durch CareerCompass AI',
+  'history.title': 'Ihr Fortschritt',
+  'history.countOne': '1 abgeschlossene Sitzung, auf diesem Gerät gespeichert.',
+  'history.count': '{count} abgeschlossene Sitzungen, auf diesem Gerät gespeichert.',
+  'history.import': 'Bericht importieren',
+  'history.newInterview': 'Neues Interview',
+  'history.empty': 'Schließen Sie ein Interview ab, um Ihren Fortschritt zu verfolgen.',
+  'history.chart': 'Ergebnisse im Zeitverlauf',
+  'history.past': 'Frühere Sitzungen',
+  'history.meta': '{minutes} Min. · {turns} Beiträge',
+  'history.view': 'Auswertung ansehen',
+  'history.delete': 'Löschen',
+  'history.loadError': 'Ihr Interviewverlauf konnte nicht geladen werden.',
+  'history.deleteError': 'Diese Sitzung konnte nicht gelöscht werden.',
+  'history.importError': 'Dieser Bericht konnte nicht importiert werden.',
+  'history.importError.json': 'Diese Datei ist kein gültiges JSON.',
+  'history.importError.kind': 'Diese Datei ist kein CareerCompass-Interviewbericht.',
+  'history.importError.version': 'Dieser Bericht wurde mit einer neueren Version von CareerCompass exportiert. Bitte aktualisieren Sie und versuchen Sie es erneut.',
+  'history.importError.damaged': 'Dieser Bericht ist unvollständig oder beschädigt.',
+  'replay.title': 'Interview-Wiedergabe',
+  'replay.titleWithReview': 'Interview-Wiedergabe & Antwortanalyse',
+  'replay.download': 'WAV herunterladen',
+  'replay.noAudio': 'Für diese Sitzung wurde kein Ton aufgezeichnet.',
+  'replay.showSuggestion': 'Stärkere Antwort zeigen',
+  'replay.hideSuggestion': 'Stärkere Antwort ausblenden',
+  'replay.liveRating': 'Live-Bewertung des Interviewers {score}/5',
+};
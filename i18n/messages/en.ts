@@ -0,0 +1,307 @@
+// The source catalog: every other language must provide the same keys. Placeholders look like {name}.
+export const en = {
+  'app.history': 'History',
+  'app.startOver': 'Start Over',
+  'app.language': 'Language',
+  'app.resumeError': 'Failed to analyze resume. Please try again with a clear document or text.',
+  'app.apiKey.title': 'API Key Required',
+  'app.apiKey.body': 'The Live Interview feature requires a valid Gemini API key from a paid GCP project.',
+  'app.apiKey.select': 'Select API Key',
+  'app.apiKey.billing': 'View Billing Documentation',
+  'app.analyzing.title': 'Analyzing your profile...',
+  'app.analyzing.body': 'Gemini is parsing your resume to build a tailored interview experience.',
+  'app.jobFitError': 'Failed to analyze the job posting. Please try again.',
+  'app.footer': 'Powered by Gemini 2.5 Flash Native Audio',
+
+  'upload.title': 'Prepare for Success',
+  'upload.subtitle': 'Upload your resume (PDF, Image, Text) or paste its content to start.',
+  'upload.pasteLabel': 'Option 1: Paste Resume Text',
+  'upload.pastePlaceholder': 'Experience, Skills, Projects...',
+  'upload.clearFileHint': 'Clear selected file to use text input',
+  'upload.fileLabel': 'Option 2: Upload Document',
+  'upload.removeFile': 'Remove File',
+  'upload.fileTypes': 'PDF, PNG, JPG, or TXT',
+  'upload.dragDrop': 'Drag and drop or browse',
+  'upload.browse': 'Browse Files',
+  'upload.clearTextHint': 'Clear text input to upload a file',
+  'upload.targetRole': 'Target Role',
+  'upload.targetRoleHint': '(optional job description)',
+  'upload.removeJobFile': 'Remove {fileName}',
+  'upload.uploadPosting': 'Upload Posting',
+  'upload.jobPlaceholder': 'Paste the job posting to focus the interview on your gaps for this role...',
+  'upload.submit': 'Start My Interview',
+  'upload.audit': 'Review My Resume Only',
+  'drills.title': 'Practice Drills',
+  'drills.lastScore': 'last score {score}%',
+  'drills.due': 'due now',
+  'drills.dueIn': 'due in {days} days',
+  'drills.remove': 'Remove',
+  'drills.start': 'Start Drill',
+  'drills.startEarly': 'Practice Early',
+
+  'format.TECHNICAL.label': 'Technical Deep-Dive',
+  'format.TECHNICAL.tagline': 'Hands-on questions on the skills listed in your resume.',
+  'format.BEHAVIORAL.label': 'Behavioral',
+  'format.BEHAVIORAL.tagline': 'Past-experience questions probed with the STAR method.',
+  'format.SYSTEM_DESIGN.label': 'System Design',
+  'format.SYSTEM_DESIGN.tagline': 'Design a system end-to-end and defend your trade-offs.',
+  'format.HR_SCREEN.label': 'HR Screen',
+  'format.HR_SCREEN.tagline': 'A short recruiter call on motivation, fit and logistics.',
+
+  'live.title': '{format} Session',
+  'live.subtitle.voice': 'Voice Session with CareerCompass Lead',
+  'live.subtitle.text': 'Text Chat Session with CareerCompass Lead',
+  'live.encrypted': 'Encrypted Live',
+  'live.difficulty': 'Difficulty: {label}',
+  'live.difficulty.hint': 'Questions get harder after strong answers and easier after weak ones.',
+  'difficulty.level.1': 'Foundational',
+  'difficulty.level.2': 'Developing',
+  'difficulty.level.3': 'Proficient',
+  'difficulty.level.4': 'Advanced',
+  'difficulty.level.5': 'Expert',
+  'live.code.toggle': 'Code editor',
+  'live.code.language': 'Language',
+  'live.code.shared': 'Shared at {time}',
+  'live.code.run': 'Run through',
+  'live.code.runHint': 'Ask the interviewer to trace your code on an example',
+  'live.code.submit': 'Submit solution',
+  'live.code.placeholder': 'Write your code here. The interviewer sees it when you run or submit, and automatically as you edit it.',
+  'live.whiteboard.toggle': 'Whiteboard',
+  'live.whiteboard.box': 'Box',
+  'live.whiteboard.arrow': 'Arrow',
+  'live.whiteboard.text': 'Label',
+  'live.whiteboard.pen': 'Pen',
+  'live.whiteboard.labelPlaceholder': 'Type a label, then click the board',
+  'live.whiteboard.sent': 'Sent at {time}',
+  'live.whiteboard.undo': 'Undo',
+  'live.whiteboard.clear': 'Clear',
+  'live.camera.optIn': 'Turn on my camera for feedback on presence (voice interviews only)',
+  'live.camera.none': 'No camera found, so this interview is audio only',
+  'live.camera.unavailable': 'The camera could not be used, so the interview continues with audio only.',
+  'live.camera.selfView': 'Your camera',
+  'live.drill.label': 'Practice Drill',
+  'live.drill.summary': '{min}–{max} focused questions on {topic}. The interviewer skips the resume walkthrough and goes straight to the questions.',
+  'live.drill.reason.competency': 'Scored {score}% on the last scorecard.',
+  'live.drill.reason.skill': 'Required for the {role} role but missing from your resume.',
+  'live.end': 'End Interview',
+  'live.boarding.title': 'Technical Boarding',
+  'live.boarding.body': 'You are about to enter a live interview. Choose a format and, if you like, who interviews you; your interviewer will introduce themselves and guide the conversation.',
+  'live.start': 'Initialize & Enter Session',
+  'live.useText': 'No microphone? Use text chat instead',
+  'live.error.title': 'Session Interrupted',
+  'live.error.mic': 'Could not access microphone. Please ensure permissions are granted.',
+  'live.error.lost': 'The connection was lost and could not be restored. Your transcript is safe; try reconnecting.',
+  'live.error.capture': 'Could not start audio capture.',
+  'live.error.apiKey': 'Invalid API key. Ensure you use a key from a paid project.',
+  'live.error.webAudio': 'Your browser does not support the Web Audio API.',
+  'live.error.unexpected': 'An unexpected error occurred.',
+  'live.error.chat': 'The interviewer could not be reached. Please check your connection and try again.',
+  'live.continueText': 'Continue in Text Chat',
+  'live.configureKey': 'Configure Key',
+  'live.retryMic': 'Retry Microphone',
+  'live.reconnect': 'Reconnect',
+  'live.reconnecting': 'Reconnecting (attempt {attempt} of {max})...',
+  'live.syncing': 'Syncing AI Lead...',
+  'live.reconnectBanner': 'Connection lost. Reconnecting (attempt {attempt} of {max}); your transcript is kept and the interviewer will pick up where you left off.',
+  'live.status.speaking': 'AI Sharing Feedback',
+  'live.status.thinking': 'AI Reflecting',
+  'live.status.typing': 'Your Turn to Type',
+  'live.status.listening': 'Awaiting Input',
+  'live.draftPlaceholder': 'Type your answer... (Enter to send, Shift+Enter for a new line)',
+  'live.send': 'Send',
+  'live.clock.remaining': '{phase} · {remaining} left',
+  'live.clock.overtime': '{phase} · over time',
+  'live.wrappingUp': 'The interview is complete. Preparing your scorecard...',
+
+  'persona.summary': 'Interviewer: {role} · {strictness} · {voice}',
+  'persona.role': 'Interviewer',
+  'persona.voice': 'Voice',
+  'persona.difficulty': 'Difficulty',
+  'persona.pacing': 'Pacing',
+  'persona.pushBack': 'Push back on vague answers',
+  'persona.description': '{role} · {strictness} · {pacing} pace · Voice: {voice}',
+  'persona.role.RECRUITER': 'Recruiter',
+  'persona.role.PEER_ENGINEER': 'Peer Engineer',
+  'persona.role.DIRECTOR': 'Engineering Director',
+  'persona.role.VP': 'VP of Engineering',
+  'persona.strictness.supportive': 'Supportive',
+  'persona.strictness.balanced': 'Balanced',
+  'persona.strictness.demanding': 'Demanding',
+  'persona.pacing.relaxed': 'Relaxed',
+  'persona.pacing.standard': 'Standard',
+  'persona.pacing.brisk': 'Brisk',
+
+  'agenda.summary': 'Agenda: {phases} phases · {minutes} min',
+  'agenda.minutes': 'min',
+  'agenda.phase.intro': 'Introductions',
+  'agenda.phase.resume': 'Resume Walkthrough',
+  'agenda.phase.technical': 'Core Questions',
+  'agenda.phase.behavioral': 'Behavioral',
+  'agenda.phase.candidateQuestions': 'Candidate Questions',
+  'agenda.phase.close': 'Close',
+
+  'questionBank.summary': 'Question bank: {name} · {planned} of {total} questions planned',
+  'questionBank.none': 'No questions in this bank match your skills and this format; the interviewer will improvise.',
+  'questionBank.import': 'Import Bank (JSON)',
+  'questionBank.download': 'Download as Template',
+  'questionBank.reset': 'Use Built-in Bank',
+  'questionBank.importError': 'Could not import that question bank.',
+  'questionBank.importError.json': 'This file is not valid JSON.',
+  'questionBank.importError.kind': 'This file is not a CareerCompass question bank.',
+  'questionBank.importError.version': 'This question bank was made for a newer version of CareerCompass. Please update and try again.',
+  'questionBank.importError.empty': 'A question bank needs a name and at least one question.',
+  'questionBank.importError.question': 'Question {question} is missing a field or has an invalid difficulty or format.',
+  'questionBank.importError.duplicateId': 'Every question needs a unique id.',
+  'rubric.summary': 'Scoring rubric: {name}',
+  'rubric.fallback': 'This rubric does not cover this format, so the built-in competencies are used.',
+  'rubric.import': 'Import Rubric (JSON)',
+  'rubric.download': 'Download as Template',
+  'rubric.reset': 'Use Built-in Rubric',
+  'rubric.importError': 'Could not import that rubric.',
+  'rubric.importError.json': 'This file is not valid JSON.',
+  'rubric.importError.kind': 'This file is not a CareerCompass rubric.',
+  'rubric.importError.version': 'This rubric was made for a newer version of CareerCompass. Please update and try again.',
+  'rubric.importError.empty': 'A rubric needs a name and competencies for at least one format.',
+  'rubric.importError.format': '"{format}" is not an interview format.',
+  'rubric.importError.noCompetencies': 'The {format} rubric needs at least one competency.',
+  'rubric.importError.competency': 'Competency {competency} of the {format} rubric is missing a field, an anchor or a positive weight.',
+  'rubric.importError.duplicateName': 'Every competency in the {format} rubric needs a unique name, and {presence} is reserved for the camera.',
+
+  'review.title': 'Review Your Profile',
+  'review.subtitle': 'This is what we read from your resume. Correct anything that is wrong or missing: your interviewer will only know what is here.',
+  'review.profile': 'Profile',
+  'review.summary': 'Summary',
+  'review.level': 'Experience Level',
+  'review.skills': 'Skills',
+  'review.years': 'yrs',
+  'review.yearsOf': 'Years of {skill}',
+  'review.addSkill': 'Add a skill and press Enter',
+  'review.work': 'Work History',
+  'review.jobTitle': 'Title',
+  'review.company': 'Company',
+  'review.start': 'Start',
+  'review.end': 'End (blank if current)',
+  'review.highlights': 'Highlights (one per line)',
+  'review.projects': 'Projects',
+  'review.projectName': 'Name',
+  'review.description': 'Description',
+  'review.technologies': 'Technologies',
+  'review.addTag': 'Add and press Enter',
+  'review.education': 'Education',
+  'review.institution': 'Institution',
+  'review.degree': 'Degree',
+  'review.year': 'Year',
+  'review.certifications': 'Certifications',
+  'review.add': 'Add',
+  'review.remove': 'Remove',
+  'review.empty': 'Nothing found on your resume.',
+  'review.confirm': 'Looks Good, Continue',
+
+  'audit.loading.title': 'Reviewing your resume',
+  'audit.loading.body': 'Checking keywords, formatting and bullet points the way an applicant tracking system would...',
+  'audit.error': 'The resume review failed. Please try again.',
+  'audit.retry': 'Try Again',
+  'audit.title': 'Resume Review',
+  'audit.subtitle': 'Scored against: {role}',
+  'audit.keywords': 'Keyword Coverage',
+  'audit.matched': 'Keywords Found',
+  'audit.missing': 'Keywords Missing',
+  'audit.formatting': 'Formatting & Length',
+  'audit.noWarnings': 'No formatting or length problems found.',
+  'audit.bullets': 'Bullet Points to Strengthen',
+  'audit.original': 'Current',
+  'audit.rewrite': 'Suggested',
+  'audit.noBullets': 'Your bullet points are already strong.',
+  'audit.sections': 'Missing Sections',
+  'audit.noSections': 'All the expected sections are there.',
+  'audit.copy': 'Copy',
+  'audit.copied': 'Copied',
+  'audit.practice': 'Practice an Interview With This Resume',
+  'audit.back': 'Back to Upload',
+
+  'feedback.loading.title': 'Analyzing Your Session',
+  'feedback.loading.body': 'CareerCompass AI is calculating your competencies and generating a detailed growth map...',
+  'feedback.empty': 'No data available',
+  'feedback.error': 'The scorecard could not be generated. Your interview is still here, so you can try again.',
+  'feedback.retry': 'Try Again',
+  'feedback.title': 'Interview Scorecard',
+  'feedback.subtitle': '{format} interview · Detailed breakdown of your professional alignment.',
+  'feedback.interviewer': 'Interviewer: {persona}',
+  'feedback.overall': 'Overall',
+  'feedback.competencies': 'Competency Breakdown',
+  'feedback.rubric': 'Scored with {name}',
+  'feedback.weight': '{share}% of overall',
+  'feedback.roleFit': 'Role Fit',
+  'feedback.strengths': 'Key Strengths',
+  'feedback.growth': 'Growth Areas',
+  'feedback.advice': 'Strategic Advice',
+  'feedback.delivery': 'Delivery',
+  'feedback.delivery.pace': 'Pace',
+  'feedback.delivery.wpm': '{wpm} wpm',
+  'feedback.delivery.paceHint': 'Comfortable range: {min}–{max} words per minute',
+  'feedback.delivery.fillers': 'Filler Words',
+  'feedback.delivery.fillerRate': '{rate} per 100 words',
+  'feedback.delivery.noFillers': 'No filler words detected.',
+  'feedback.delivery.talkRatio': 'Talk Time',
+  'feedback.delivery.you': 'You {share}%',
+  'feedback.delivery.interviewer': 'Interviewer {share}%',
+  'feedback.delivery.pauses': 'Longest Pauses',
+  'feedback.delivery.pauseItem': 'Answer {answer}: {seconds}s',
+  'feedback.delivery.noPauses': 'No long pauses detected.',
+  'feedback.delivery.lengths': 'Answer Length',
+  'feedback.delivery.median': 'Median answer: {words} words',
+  'feedback.delivery.answerLabel': 'Answer {answer}: {words} words',
+  'feedback.delivery.voiceOnly': 'Measured in voice interviews only.',
+  'feedback.coverage': 'Topic Coverage',
+  'feedback.coverage.summary': '{asked} of {planned} planned questions asked · {bank}',
+  'feedback.coverage.general': 'General',
+  'feedback.coverage.asked': 'Asked',
+  'feedback.coverage.notAsked': 'Not asked',
+  'feedback.coverage.gaps': 'Skills on your resume with no planned question: {skills}',
+  'feedback.difficulty': 'Difficulty Curve',
+  'feedback.difficulty.summary': 'Started at {start}, peaked at {peak} and finished at {end}.',
+  'feedback.difficulty.start': 'Start',
+  'feedback.difficulty.answer': 'Answer {n}',
+  'feedback.difficulty.score': 'Rated {score}/5',
+  'feedback.code': 'Code',
+  'feedback.code.strengths': 'What worked',
+  'feedback.code.issues': 'What to fix',
+  'feedback.code.submitted': 'Submitted solution · {language}',
+  'feedback.code.final': 'Final editor contents · {language}',
+  'feedback.whiteboard': 'Whiteboard',
+  'feedback.whiteboard.alt': 'Your final whiteboard diagram',
+  'feedback.drill': 'Drill this',
+  'feedback.drillSkill': 'Start a short practice drill on {skill}',
+  'feedback.export': 'Export Report',
+  'feedback.exportError': 'Could not export the report.',
+  'feedback.retake': 'Retake Interview with New Document',
+  'feedback.poweredBy': 'Powered by CareerCompass AI Analysis Engine',
+  'history.title': 'Your Progress',
+  'history.countOne': '1 completed session, stored on this device.',
+  'history.count': '{count} completed sessions, stored on this device.',
+  'history.import': 'Import Report',
+  'history.newInterview': 'New Interview',
+  'history.empty': 'Complete an interview to start tracking your progress.',
+  'history.chart': 'Scores Over Time',
+  'history.past': 'Past Sessions',
+  'history.meta': '{minutes} min · {turns} turns',
+  'history.view': 'View Scorecard',
+  'history.delete': 'Delete',
+  'history.loadError': 'Could not load your interview history.',
+  'history.deleteError': 'Could not delete that session.',
+  'history.importError': 'Could not import that report.',
+  'history.importError.json': 'This file is not valid JSON.',
+  'history.importError.kind': 'This file is not a CareerCompass interview report.',
+  'history.importError.version': 'This report was exported by a newer version of CareerCompass. Please update and try again.',
+  'history.importError.damaged': 'This report is incomplete or damaged.',
+  'replay.title': 'Interview Replay',
+  'replay.titleWithReview': 'Interview Replay & Answer Review',
+  'replay.download': 'Download WAV',
+  'replay.noAudio': 'No audio was recorded for this session.',
+  'replay.showSuggestion': 'Show stronger answer',
+  'replay.hideSuggestion': 'Hide stronger answer',
+  'replay.liveRating': 'Interviewer\'s live rating {score}/5',
+};
+
+export type MessageKey = keyof typeof en;
+export type MessageCatalog = Record<MessageKey, string>;
@@ -0,0 +1,305 @@
+import { MessageCatalog } from "./en";
+
+export const es: MessageCatalog = {
+  'app.history': 'Historial',
+  'app.startOver': 'Empezar de nuevo',
+  'app.language': 'Idioma',
+  'app.resumeError': 'No se pudo analizar el currículum. Inténtalo de nuevo con un documento o texto legible.',
+  'app.apiKey.title': 'Se necesita una clave de API',
+  'app.apiKey.body': 'La entrevista en directo requiere una clave de API de Gemini válida de un proyecto de GCP de pago.',
+  'app.apiKey.select': 'Seleccionar clave de API',
+  'app.apiKey.billing': 'Ver documentación de facturación',
+  'app.analyzing.title': 'Analizando tu perfil...',
+  'app.analyzing.body': 'Gemini está leyendo tu currículum para preparar una entrevista a tu medida.',
+  'app.jobFitError': 'No se pudo analizar la oferta de empleo. Inténtalo de nuevo.',
+  'app.footer': 'Con la tecnología de Gemini 2.5 Flash Native Audio',
+
+  'upload.title': 'Prepárate para triunfar',
+  'upload.subtitle': 'Sube tu currículum (PDF, imagen, texto) o pega su contenido para empezar.',
+  'upload.pasteLabel': 'Opción 1: Pegar el texto del currículum',
+  'upload.pastePlaceholder': 'Experiencia, habilidades, proyectos...',
+  'upload.clearFileHint': 'Quita el archivo seleccionado para escribir texto',
+  'upload.fileLabel': 'Opción 2: Subir un documento',
+  'upload.removeFile': 'Quitar archivo',
+  'upload.fileTypes': 'PDF, PNG, JPG o TXT',
+  'upload.dragDrop': 'Arrastra y suelta o explora',
+  'upload.browse': 'Explorar archivos',
+  'upload.clearTextHint': 'Borra el texto para subir un archivo',
+  'upload.targetRole': 'Puesto objetivo',
+  'upload.targetRoleHint': '(descripción del puesto opcional)',
+  'upload.removeJobFile': 'Quitar {fileName}',
+  'upload.uploadPosting': 'Subir oferta',
+  'upload.jobPlaceholder': 'Pega la oferta de empleo para centrar la entrevista en tus carencias para este puesto...',
+  'upload.submit': 'Empezar mi entrevista',
+  'upload.audit': 'Revisar solo mi currículum',
+  'drills.title': 'Ejercicios de práctica',
+  'drills.lastScore': 'última puntuación {score} %',
+  'drills.due': 'pendiente ahora',
+  'drills.dueIn': 'pendiente en {days} días',
+  'drills.remove': 'Quitar',
+  'drills.start': 'Empezar ejercicio',
+  'drills.startEarly': 'Practicar antes',
+
+  'format.TECHNICAL.label': 'Inmersión técnica',
+  'format.TECHNICAL.tagline': 'Preguntas prácticas sobre las habilidades de tu currículum.',
+  'format.BEHAVIORAL.label': 'Conductual',
+  'format.BEHAVIORAL.tagline': 'Preguntas sobre experiencias pasadas, exploradas con el método STAR.',
+  'format.SYSTEM_DESIGN.label': 'Diseño de sistemas',
+  'format.SYSTEM_DESIGN.tagline': 'Diseña un sistema de principio a fin y defiende tus decisiones.',
+  'format.HR_SCREEN.label': 'Entrevista con RR. HH.',
+  'format.HR_SCREEN.tagline': 'Una llamada breve con selección sobre motivación, encaje y logística.',
+
+  'live.title': 'Sesión: {format}',
+  'live.subtitle.voice': 'Sesión de voz con CareerCompass Lead',
+  'live.subtitle.text': 'Chat de texto con CareerCompass Lead',
+  'live.encrypted': 'En directo cifrado',
+  'live.difficulty': 'Dificultad: {label}',
+  'live.difficulty.hint': 'Las preguntas se vuelven más difíciles tras respuestas sólidas y más sencillas tras respuestas débiles.',
+  'difficulty.level.1': 'Básico',
+  'difficulty.level.2': 'En desarrollo',
+  'difficulty.level.3': 'Competente',
+  'difficulty.level.4': 'Avanzado',
+  'difficulty.level.5': 'Experto',
+  'live.code.toggle': 'Editor de código',
+  'live.code.language': 'Lenguaje',
+  'live.code.shared': 'Compartido a las {time}',
+  'live.code.run': 'Repasar',
+  'live.code.runHint': 'Pide al entrevistador que recorra tu código con un ejemplo',
+  'live.code.submit': 'Enviar solución',
+  'live.code.placeholder': 'Escribe aquí tu código. El entrevistador lo ve cuando lo repasas o lo envías, y automáticamente mientras lo editas.',
+  'live.whiteboard.toggle': 'Pizarra',
+  'live.whiteboard.box': 'Caja',
+  'live.whiteboard.arrow': 'Flecha',
+  'live.whiteboard.text': 'Etiqueta',
+  'live.whiteboard.pen': 'Lápiz',
+  'live.whiteboard.labelPlaceholder': 'Escribe una etiqueta y haz clic en la pizarra',
+  'live.whiteboard.sent': 'Enviada a las {time}',
+  'live.whiteboard.undo': 'Deshacer',
+  'live.whiteboard.clear': 'Borrar todo',
+  'live.camera.optIn': 'Activar mi cámara para recibir feedback sobre presencia (solo entrevistas por voz)',
+  'live.camera.none': 'No se encontró ninguna cámara, así que esta entrevista será solo de audio',
+  'live.camera.unavailable': 'No se pudo usar la cámara, así que la entrevista continúa solo con audio.',
+  'live.camera.selfView': 'Tu cámara',
+  'live.drill.label': 'Ejercicio de práctica',
+  'live.drill.summary': '{min}–{max} preguntas centradas en {topic}. El entrevistador omite el repaso del currículum y pasa directamente a las preguntas.',
+  'live.drill.reason.competency': 'Obtuviste un {score} % en la última evaluación.',
+  'live.drill.reason.skill': 'Se requiere para el puesto de {role}, pero no aparece en tu currículum.',
+  'live.end': 'Terminar entrevista',
+  'live.boarding.title': 'Preparación',
+  'live.boarding.body': 'Estás a punto de empezar una entrevista en directo. Elige un formato y, si quieres, quién te entrevista; tu entrevistador se presentará y guiará la conversación.',
+  'live.start': 'Iniciar la sesión',
+  'live.useText': '¿Sin micrófono? Usa el chat de texto',
+  'live.error.title': 'Sesión interrumpida',
+  'live.error.mic': 'No se pudo acceder al micrófono. Asegúrate de haber concedido el permiso.',
+  'live.error.lost': 'Se perdió la conexión y no se pudo restablecer. Tu transcripción está a salvo; intenta reconectar.',
+  'live.error.capture': 'No se pudo iniciar la captura de audio.',
+  'live.error.apiKey': 'Clave de API no válida. Usa una clave de un proyecto de pago.',
+  'live.error.webAudio': 'Tu navegador no es compatible con la Web Audio API.',
+  'live.error.unexpected': 'Se produjo un error inesperado.',
+  'live.error.chat': 'No se pudo contactar con el entrevistador. Comprueba tu conexión e inténtalo de nuevo.',
+  'live.continueText': 'Continuar por chat de texto',
+  'live.configureKey': 'Configurar clave',
+  'live.retryMic': 'Reintentar micrófono',
+  'live.reconnect': 'Reconectar',
+  'live.reconnecting': 'Reconectando (intento {attempt} de {max})...',
+  'live.syncing': 'Conectando con el entrevistador...',
+  'live.reconnectBanner': 'Conexión perdida. Reconectando (intento {attempt} de {max}); se conserva tu transcripción y el entrevistador seguirá donde lo dejasteis.',
+  'live.status.speaking': 'La IA está hablando',
+  'live.status.thinking': 'La IA está pensando',
+  'live.status.typing': 'Te toca escribir',
+  'live.status.listening': 'Esperando respuesta',
+  'live.draftPlaceholder': 'Escribe tu respuesta... (Intro para enviar, Mayús+Intro para una nueva línea)',
+  'live.send': 'Enviar',
+  'live.clock.remaining': '{phase} · quedan {remaining}',
+  'live.clock.overtime': '{phase} · fuera de tiempo',
+  'live.wrappingUp': 'La entrevista ha terminado. Preparando tu evaluación...',
+
+  'persona.summary': 'Entrevistador: {role} · {strictness} · {voice}',
+  'persona.role': 'Entrevistador',
+  'persona.voice': 'Voz',
+  'persona.difficulty': 'Dificultad',
+  'persona.pacing': 'Ritmo',
+  'persona.pushBack': 'Insistir ante respuestas vagas',
+  'persona.description': '{role} · {strictness} · Ritmo: {pacing} · Voz: {voice}',
+  'persona.role.RECRUITER': 'Reclutador',
+  'persona.role.PEER_ENGINEER': 'Ingeniero del equipo',
+  'persona.role.DIRECTOR': 'Director de Ingeniería',
+  'persona.role.VP': 'VP de Ingeniería',
+  'persona.strictness.supportive': 'Comprensivo',
+  'persona.strictness.balanced': 'Equilibrado',
+  'persona.strictness.demanding': 'Exigente',
+  'persona.pacing.relaxed': 'Relajado',
+  'persona.pacing.standard': 'Normal',
+  'persona.pacing.brisk': 'Ágil',
+
+  'agenda.summary': 'Agenda: {phases} fases · {minutes} min',
+  'agenda.minutes': 'min',
+  'agenda.phase.intro': 'Presentaciones',
+  'agenda.phase.resume': 'Repaso del currículum',
+  'agenda.phase.technical': 'Preguntas principales',
+  'agenda.phase.behavioral': 'Preguntas de conducta',
+  'agenda.phase.candidateQuestions': 'Tus preguntas',
+  'agenda.phase.close': 'Cierre',
+
+  'questionBank.summary': 'Banco de preguntas: {name} · {planned} de {total} preguntas previstas',
+  'questionBank.none': 'Ninguna pregunta de este banco encaja con tus habilidades y este formato; el entrevistador improvisará.',
+  'questionBank.import': 'Importar banco (JSON)',
+  'questionBank.download': 'Descargar como plantilla',
+  'questionBank.reset': 'Usar el banco integrado',
+  'questionBank.importError': 'No se pudo importar ese banco de preguntas.',
+  'questionBank.importError.json': 'Este archivo no es un JSON válido.',
+  'questionBank.importError.kind': 'Este archivo no es un banco de preguntas de CareerCompass.',
+  'questionBank.importError.version': 'Este banco de preguntas se creó para una versión más reciente de CareerCompass. Actualiza e inténtalo de nuevo.',
+  'questionBank.importError.empty': 'Un banco de preguntas necesita un nombre y al menos una pregunta.',
+  'questionBank.importError.question': 'A la pregunta {question} le falta un campo o tiene una dificultad o un formato no válidos.',
+  'questionBank.importError.duplicateId': 'Cada pregunta necesita un id único.',
+  'rubric.summary': 'Rúbrica de evaluación: {name}',
+  'rubric.fallback': 'Esta rúbrica no cubre este formato, así que se usan las competencias integradas.',
+  'rubric.import': 'Importar rúbrica (JSON)',
+  'rubric.download': 'Descargar como plantilla',
+  'rubric.reset': 'Usar la rúbrica integrada',
+  'rubric.importError': 'No se pudo importar esa rúbrica.',
+  'rubric.importError.json': 'Este archivo no es un JSON válido.',
+  'rubric.importError.kind': 'Este archivo no es una rúbrica de CareerCompass.',
+  'rubric.importError.version': 'Esta rúbrica se creó para una versión más reciente de CareerCompass. Actualiza e inténtalo de nuevo.',
+  'rubric.importError.empty': 'Una rúbrica necesita un nombre y competencias para al menos un formato.',
+  'rubric.importError.format': '«{format}» no es un formato de entrevista.',
+  'rubric.importError.noCompetencies': 'La rúbrica de {format} necesita al menos una competencia.',
+  'rubric.importError.competency': 'A la competencia {competency} de la rúbrica de {format} le falta un campo, un ancla o un peso positivo.',
+  'rubric.importError.duplicateName': 'Cada competencia de la rúbrica de {format} necesita un nombre único, y {presence} está reservado para la cámara.',
+
+  'review.title': 'Revisa tu perfil',
+  'review.subtitle': 'Esto es lo que hemos leído de tu currículum. Corrige lo que esté mal o falte: tu entrevistador solo sabrá lo que aparece aquí.',
+  'review.profile': 'Perfil',
+  'review.summary': 'Resumen',
+  'review.level': 'Nivel de experiencia',
+  'review.skills': 'Habilidades',
+  'review.years': 'años',
+  'review.yearsOf': 'Años con {skill}',
+  'review.addSkill': 'Añade una habilidad y pulsa Intro',
+  'review.work': 'Experiencia laboral',
+  'review.jobTitle': 'Cargo',
+  'review.company': 'Empresa',
+  'review.start': 'Inicio',
+  'review.end': 'Fin (vacío si es el actual)',
+  'review.highlights': 'Logros (uno por línea)',
+  'review.projects': 'Proyectos',
+  'review.projectName': 'Nombre',
+  'review.description': 'Descripción',
+  'review.technologies': 'Tecnologías',
+  'review.addTag': 'Escribe y pulsa Intro',
+  'review.education': 'Formación',
+  'review.institution': 'Centro',
+  'review.degree': 'Titulación',
+  'review.year': 'Año',
+  'review.certifications': 'Certificaciones',
+  'review.add': 'Añadir',
+  'review.remove': 'Quitar',
+  'review.empty': 'No se encontró nada en tu currículum.',
+  'review.confirm': 'Todo bien, continuar',
+
+  'audit.loading.title': 'Revisando tu currículum',
+  'audit.loading.body': 'Comprobando palabras clave, formato y viñetas como lo haría un sistema de seguimiento de candidatos...',
+  'audit.error': 'No se pudo revisar el currículum. Inténtalo de nuevo.',
+  'audit.retry': 'Reintentar',
+  'audit.title': 'Revisión del currículum',
+  'audit.subtitle': 'Evaluado para: {role}',
+  'audit.keywords': 'Cobertura de palabras clave',
+  'audit.matched': 'Palabras clave encontradas',
+  'audit.missing': 'Palabras clave que faltan',
+  'audit.formatting': 'Formato y extensión',
+  'audit.noWarnings': 'No se encontraron problemas de formato ni de extensión.',
+  'audit.bullets': 'Viñetas que mejorar',
+  'audit.original': 'Actual',
+  'audit.rewrite': 'Sugerencia',
+  'audit.noBullets': 'Tus viñetas ya son sólidas.',
+  'audit.sections': 'Secciones que faltan',
+  'audit.noSections': 'Están todas las secciones esperadas.',
+  'audit.copy': 'Copiar',
+  'audit.copied': 'Copiado',
+  'audit.practice': 'Practicar una entrevista con este currículum',
+  'audit.back': 'Volver a la subida',
+
+  'feedback.loading.title': 'Analizando tu sesión',
+  'feedback.loading.body': 'CareerCompass AI está evaluando tus competencias y preparando un plan de mejora detallado...',
+  'feedback.empty': 'No hay datos disponibles',
+  'feedback.error': 'No se pudo generar la evaluación. Tu entrevista sigue aquí, así que puedes volver a intentarlo.',
+  'feedback.retry': 'Reintentar',
+  'feedback.title': 'Evaluación de la entrevista',
+  'feedback.subtitle': 'Entrevista: {format} · Análisis detallado de tu encaje profesional.',
+  'feedback.interviewer': 'Entrevistador: {persona}',
+  'feedback.overall': 'Global',
+  'feedback.competencies': 'Desglose por competencias',
+  'feedback.rubric': 'Evaluado con {name}',
+  'feedback.weight': '{share} % del total',
+  'feedback.roleFit': 'Encaje con el puesto',
+  'feedback.strengths': 'Puntos fuertes',
+  'feedback.growth': 'Áreas de mejora',
+  'feedback.advice': 'Consejo estratégico',
+  'feedback.delivery': 'Expresión oral',
+  'feedback.delivery.pace': 'Ritmo',
+  'feedback.delivery.wpm': '{wpm} ppm',
+  'feedback.delivery.paceHint': 'Rango cómodo: {min}–{max} palabras por minuto',
+  'feedback.delivery.fillers': 'Muletillas',
+  'feedback.delivery.fillerRate': '{rate} por cada 100 palabras',
+  'feedback.delivery.noFillers': 'No se detectaron muletillas.',
+  'feedback.delivery.talkRatio': 'Tiempo de palabra',
+  'feedback.delivery.you': 'Tú {share} %',
+  'feedback.delivery.interviewer': 'Entrevistador {share} %',
+  'feedback.delivery.pauses': 'Pausas más largas',
+  'feedback.delivery.pauseItem': 'Respuesta {answer}: {seconds} s',
+  'feedback.delivery.noPauses': 'No se detectaron pausas largas.',
+  'feedback.delivery.lengths': 'Longitud de las respuestas',
+  'feedback.delivery.median': 'Respuesta mediana: {words} palabras',
+  'feedback.delivery.answerLabel': 'Respuesta {answer}: {words} palabras',
+  'feedback.delivery.voiceOnly': 'Solo se mide en entrevistas de voz.',
+  'feedback.coverage': 'Cobertura de temas',
+  'feedback.coverage.summary': '{asked} de {planned} preguntas previstas realizadas · {bank}',
+  'feedback.coverage.general': 'General',
+  'feedback.coverage.asked': 'Realizada',
+  'feedback.coverage.notAsked': 'No realizada',
+  'feedback.coverage.gaps': 'Habilidades de tu currículum sin pregunta prevista: {skills}',
+  'feedback.difficulty': 'Curva de dificultad',
+  'feedback.difficulty.summary': 'Empezó en {start}, alcanzó {peak} y terminó en {end}.',
+  'feedback.difficulty.start': 'Inicio',
+  'feedback.difficulty.answer': 'Respuesta {n}',
+  'feedback.difficulty.score': 'Valorada con {score}/5',
+  'feedback.code': 'Código',
+  'feedback.code.strengths': 'Lo que funcionó',
+  'feedback.code.issues': 'Qué corregir',
+  'feedback.code.submitted': 'Solución enviada · {language}',
+  'feedback.code.final': 'Contenido final del editor · {language}',
+  'feedback.whiteboard': 'Pizarra',
+  'feedback.whiteboard.alt': 'Tu diagrama final de la pizarra',
+  'feedback.drill': 'Practicar esto',
+  'feedback.drillSkill': 'Empezar un ejercicio breve sobre {skill}',
+  'feedback.export': 'Exportar informe',
+  'feedback.exportError': 'No se pudo exportar el informe.',
+  'feedback.retake': 'Repetir la entrevista con otro documento',
+  'feedback.poweredBy': 'Análisis de CareerCompass AI',
+  'history.title': 'Tu progreso',
+  'history.countOne': '1 sesión completada, guardada en este dispositivo.',
+  'history.count': '{count} sesiones completadas, guardadas en este dispositivo.',
+  'history.import': 'Importar informe',
+  'history.newInterview': 'Nueva entrevista',
+  'history.empty': 'Completa una entrevista para empezar a seguir tu progreso.',
+  'history.chart': 'Puntuaciones a lo largo del tiempo',
+  'history.past': 'Sesiones anteriores',
+  'history.meta': '{minutes} min · {turns} turnos',
+  'history.view': 'Ver evaluación',
+  'history.delete': 'Eliminar',
+  'history.loadError': 'No se pudo cargar tu historial de entrevistas.',
+  'history.deleteError': 'No se pudo eliminar esa sesión.',
+  'history.importError': 'No se pudo importar ese informe.',
+  'history.importError.json': 'Este archivo no es un JSON válido.',
+  'history.importError.kind': 'Este archivo no es un informe de entrevista de CareerCompass.',
+  'history.importError.version': 'Este informe se exportó con una versión más reciente de CareerCompass. Actualiza e inténtalo de nuevo.',
+  'history.importError.damaged': 'Este informe está incompleto o dañado.',
+  'replay.title': 'Repetición de la entrevista',
+  'replay.titleWithReview': 'Repetición de la entrevista y revisión de respuestas',
+  'replay.download': 'Descargar WAV',
+  'replay.noAudio': 'No se grabó audio en esta sesión.',
+  'replay.showSuggestion': 'Mostrar una respuesta mejor',
+  'replay.hideSuggestion': 'Ocultar la respuesta mejor',
+  'replay.liveRating': 'Valoración en directo del entrevistador {score}/5',
+};
@@ -0,0 +1,305 @@
+import { MessageCatalog } from "./en";
+
+export const ja: MessageCatalog = {
+  'app.history': '履歴',
+  'app.startOver': '最初からやり直す',
+  'app.language': '言語',
+  'app.resumeError': '履歴書を解析できませんでした。読みやすい書類またはテキストでもう一度お試しください。',
+  'app.apiKey.title': 'API キーが必要です',
+  'app.apiKey.body': 'ライブ面接には、有料の GCP プロジェクトで発行した有効な Gemini API キーが必要です。',
+  'app.apiKey.select': 'API キーを選択',
+  'app.apiKey.billing': '課金に関するドキュメントを見る',
+  'app.analyzing.title': 'プロフィールを分析しています...',
+  'app.analyzing.body': 'Gemini が履歴書を読み取り、あなたに合わせた面接を準備しています。',
+  'app.jobFitError': '求人票を解析できませんでした。もう一度お試しください。',
+  'app.footer': 'Gemini 2.5 Flash Native Audio を利用しています',
+
+  'upload.title': '面接の準備を始めましょう',
+  'upload.subtitle': '履歴書（PDF・画像・テキスト）をアップロードするか、内容を貼り付けてください。',
+  'upload.pasteLabel': '方法 1：履歴書のテキストを貼り付ける',
+  'upload.pastePlaceholder': '職歴、スキル、プロジェクト...',
+  'upload.clearFileHint': 'テキストを入力するには選択中のファイルを外してください',
+  'upload.fileLabel': '方法 2：書類をアップロードする',
+  'upload.removeFile': 'ファイルを削除',
+  'upload.fileTypes': 'PDF、PNG、JPG、TXT',
+  'upload.dragDrop': 'ドラッグ＆ドロップ、または参照',
+  'upload.browse': 'ファイルを参照',
+  'upload.clearTextHint': 'ファイルをアップロードするにはテキストを消去してください',
+  'upload.targetRole': '応募するポジション',
+  'upload.targetRoleHint': '（求人票は任意）',
+  'upload.removeJobFile': '{fileName} を削除',
+  'upload.uploadPosting': '求人票をアップロード',
+  'upload.jobPlaceholder': '求人票を貼り付けると、このポジションに対して不足している点を中心に面接します...',
+  'upload.submit': '面接を始める',
+  'upload.audit': '履歴書のチェックだけ行う',
+  'drills.title': '練習ドリル',
+  'drills.lastScore': '前回のスコア {score}%',
+  'drills.due': '今すぐ実施',
+  'drills.dueIn': '{days}日後に実施',
+  'drills.remove': '削除',
+  'drills.start': 'ドリルを開始',
+  'drills.startEarly': '前倒しで練習',
+
+  'format.TECHNICAL.label': '技術深掘り',
+  'format.TECHNICAL.tagline': '履歴書に記載されたスキルについての実践的な質問。',
+  'format.BEHAVIORAL.label': '行動面接',
+  'format.BEHAVIORAL.tagline': 'STAR法で掘り下げる、過去の経験についての質問。',
+  'format.SYSTEM_DESIGN.label': 'システム設計',
+  'format.SYSTEM_DESIGN.tagline': 'システムを一から設計し、トレードオフを説明します。',
+  'format.HR_SCREEN.label': '人事面談',
+  'format.HR_SCREEN.tagline': '志望動機、適性、条件についての短いリクルーター面談。',
+
+  'live.title': '{format} セッション',
+  'live.subtitle.voice': 'CareerCompass Lead との音声セッション',
+  'live.subtitle.text': 'CareerCompass Lead とのテキストチャット',
+  'live.encrypted': '暗号化ライブ',
+  'live.difficulty': '難易度：{label}',
+  'live.difficulty.hint': '良い回答の後は質問が難しくなり、弱い回答の後は易しくなります。',
+  'difficulty.level.1': '基礎',
+  'difficulty.level.2': '初級',
+  'difficulty.level.3': '中級',
+  'difficulty.level.4': '上級',
+  'difficulty.level.5': 'エキスパート',
+  'live.code.toggle': 'コードエディター',
+  'live.code.language': '言語',
+  'live.code.shared': '{time} に共有',
+  'live.code.run': '確認してもらう',
+  'live.code.runHint': '面接官に例を使ってコードをたどってもらいます',
+  'live.code.submit': '解答を提出',
+  'live.code.placeholder': 'ここにコードを書いてください。確認や提出のとき、また編集中も自動で面接官に共有されます。',
+  'live.whiteboard.toggle': 'ホワイトボード',
+  'live.whiteboard.box': '四角',
+  'live.whiteboard.arrow': '矢印',
+  'live.whiteboard.text': 'ラベル',
+  'live.whiteboard.pen': 'ペン',
+  'live.whiteboard.labelPlaceholder': 'ラベルを入力してからボードをクリック',
+  'live.whiteboard.sent': '{time} に送信',
+  'live.whiteboard.undo': '元に戻す',
+  'live.whiteboard.clear': 'すべて消去',
+  'live.camera.optIn': 'カメラをオンにして印象・態度のフィードバックを受ける（音声面接のみ）',
+  'live.camera.none': 'カメラが見つからないため、この面接は音声のみです',
+  'live.camera.unavailable': 'カメラを使用できなかったため、音声のみで面接を続けます。',
+  'live.camera.selfView': 'あなたのカメラ',
+  'live.drill.label': '練習ドリル',
+  'live.drill.summary': '{topic}に絞った{min}〜{max}問の質問です。面接官は履歴書の確認を省略し、すぐに質問に入ります。',
+  'live.drill.reason.competency': '前回のスコアカードでは{score}%でした。',
+  'live.drill.reason.skill': '{role}の職務で求められていますが、履歴書に記載がありません。',
+  'live.end': '面接を終了',
+  'live.boarding.title': '面接の準備',
+  'live.boarding.body': 'これからライブ面接を始めます。形式と、必要であれば面接官を選んでください。面接官が自己紹介をして会話を進めます。',
+  'live.start': 'セッションを開始',
+  'live.useText': 'マイクがない場合はテキストチャットで',
+  'live.error.title': 'セッションが中断されました',
+  'live.error.mic': 'マイクにアクセスできませんでした。権限が許可されているか確認してください。',
+  'live.error.lost': '接続が切れ、復旧できませんでした。文字起こしは保存されています。再接続をお試しください。',
+  'live.error.capture': '音声の取り込みを開始できませんでした。',
+  'live.error.apiKey': 'API キーが無効です。有料プロジェクトのキーを使用してください。',
+  'live.error.webAudio': 'お使いのブラウザは Web Audio API に対応していません。',
+  'live.error.unexpected': '予期しないエラーが発生しました。',
+  'live.error.chat': '面接官に接続できませんでした。接続を確認してもう一度お試しください。',
+  'live.continueText': 'テキストチャットで続ける',
+  'live.configureKey': 'キーを設定',
+  'live.retryMic': 'マイクを再試行',
+  'live.reconnect': '再接続',
+  'live.reconnecting': '再接続しています（{max} 回中 {attempt} 回目）...',
+  'live.syncing': '面接官に接続しています...',
+  'live.reconnectBanner': '接続が切れました。再接続しています（{max} 回中 {attempt} 回目）。文字起こしは保持され、面接官は中断したところから再開します。',
+  'live.status.speaking': 'AI が話しています',
+  'live.status.thinking': 'AI が考えています',
+  'live.status.typing': '入力してください',
+  'live.status.listening': '回答を待っています',
+  'live.draftPlaceholder': '回答を入力...（Enter で送信、Shift+Enter で改行）',
+  'live.send': '送信',
+  'live.clock.remaining': '{phase} · 残り {remaining}',
+  'live.clock.overtime': '{phase} · 時間超過',
+  'live.wrappingUp': '面接が終了しました。スコアカードを準備しています...',
+
+  'persona.summary': '面接官：{role} · {strictness} · {voice}',
+  'persona.role': '面接官',
+  'persona.voice': '声',
+  'persona.difficulty': '難易度',
+  'persona.pacing': 'ペース',
+  'persona.pushBack': 'あいまいな回答には踏み込んで質問する',
+  'persona.description': '{role} · {strictness} · ペース：{pacing} · 声：{voice}',
+  'persona.role.RECRUITER': 'リクルーター',
+  'persona.role.PEER_ENGINEER': '同僚エンジニア',
+  'persona.role.DIRECTOR': 'エンジニアリングディレクター',
+  'persona.role.VP': 'エンジニアリング担当VP',
+  'persona.strictness.supportive': 'サポート重視',
+  'persona.strictness.balanced': 'バランス型',
+  'persona.strictness.demanding': '厳しめ',
+  'persona.pacing.relaxed': 'ゆったり',
+  'persona.pacing.standard': '標準',
+  'persona.pacing.brisk': '速め',
+
+  'agenda.summary': '進行：{phases} フェーズ · {minutes} 分',
+  'agenda.minutes': '分',
+  'agenda.phase.intro': '自己紹介',
+  'agenda.phase.resume': '経歴の確認',
+  'agenda.phase.technical': '主要な質問',
+  'agenda.phase.behavioral': '行動面の質問',
+  'agenda.phase.candidateQuestions': '逆質問',
+  'agenda.phase.close': 'クロージング',
+
+  'questionBank.summary': '質問バンク：{name} · {total} 問中 {planned} 問を予定',
+  'questionBank.none': 'このバンクにはスキルと形式に合う質問がありません。面接官が質問を考えます。',
+  'questionBank.import': 'バンクをインポート（JSON）',
+  'questionBank.download': 'テンプレートとしてダウンロード',
+  'questionBank.reset': '組み込みのバンクを使う',
+  'questionBank.importError': '質問バンクをインポートできませんでした。',
+  'questionBank.importError.json': 'このファイルは有効な JSON ではありません。',
+  'questionBank.importError.kind': 'このファイルは CareerCompass の質問バンクではありません。',
+  'questionBank.importError.version': 'この質問バンクは新しいバージョンの CareerCompass 用に作成されています。更新してからもう一度お試しください。',
+  'questionBank.importError.empty': '質問バンクには名前と 1 つ以上の質問が必要です。',
+  'questionBank.importError.question': '質問 {question} に項目の不足、または無効な難易度・形式があります。',
+  'questionBank.importError.duplicateId': '各質問には一意の ID が必要です。',
+  'rubric.summary': '評価基準: {name}',
+  'rubric.fallback': 'この評価基準はこの形式に対応していないため、組み込みのコンピテンシーを使用します。',
+  'rubric.import': '評価基準をインポート (JSON)',
+  'rubric.download': 'テンプレートとしてダウンロード',
+  'rubric.reset': '組み込みの評価基準を使用',
+  'rubric.importError': '評価基準をインポートできませんでした。',
+  'rubric.importError.json': 'このファイルは有効な JSON ではありません。',
+  'rubric.importError.kind': 'このファイルは CareerCompass の評価基準ではありません。',
+  'rubric.importError.version': 'この評価基準は新しいバージョンの CareerCompass 用に作成されています。更新してからもう一度お試しください。',
+  'rubric.importError.empty': '評価基準には名前と、少なくとも 1 つの形式のコンピテンシーが必要です。',
+  'rubric.importError.format': '「{format}」は面接形式ではありません。',
+  'rubric.importError.noCompetencies': '{format}の評価基準には 1 つ以上のコンピテンシーが必要です。',
+  'rubric.importError.competency': '{format}の評価基準のコンピテンシー {competency} に、項目、アンカー、または正の重みが不足しています。',
+  'rubric.importError.duplicateName': '{format}の評価基準の各コンピテンシーには一意の名前が必要です。また、{presence} はカメラ用に予約されています。',
+
+  'review.title': 'プロフィールの確認',
+  'review.subtitle': '履歴書から読み取った内容です。誤りや不足があれば修正してください。面接官はここにある情報だけを参照します。',
+  'review.profile': 'プロフィール',
+  'review.summary': '概要',
+  'review.level': '経験レベル',
+  'review.skills': 'スキル',
+  'review.years': '年',
+  'review.yearsOf': '{skill} の経験年数',
+  'review.addSkill': 'スキルを入力して Enter',
+  'review.work': '職歴',
+  'review.jobTitle': '役職',
+  'review.company': '会社',
+  'review.start': '開始',
+  'review.end': '終了（在職中なら空欄）',
+  'review.highlights': '主な実績（1 行に 1 つ）',
+  'review.projects': 'プロジェクト',
+  'review.projectName': '名前',
+  'review.description': '説明',
+  'review.technologies': '技術',
+  'review.addTag': '入力して Enter',
+  'review.education': '学歴',
+  'review.institution': '学校',
+  'review.degree': '学位',
+  'review.year': '年',
+  'review.certifications': '資格',
+  'review.add': '追加',
+  'review.remove': '削除',
+  'review.empty': '履歴書に記載がありません。',
+  'review.confirm': 'この内容で進む',
+
+  'audit.loading.title': '履歴書をチェックしています',
+  'audit.loading.body': '採用管理システム（ATS）と同じ観点で、キーワード・書式・箇条書きを確認しています...',
+  'audit.error': '履歴書のチェックに失敗しました。もう一度お試しください。',
+  'audit.retry': '再試行',
+  'audit.title': '履歴書チェック',
+  'audit.subtitle': '評価対象のポジション：{role}',
+  'audit.keywords': 'キーワード網羅率',
+  'audit.matched': '含まれているキーワード',
+  'audit.missing': '不足しているキーワード',
+  'audit.formatting': '書式と分量',
+  'audit.noWarnings': '書式や分量の問題は見つかりませんでした。',
+  'audit.bullets': '改善できる箇条書き',
+  'audit.original': '現在',
+  'audit.rewrite': '改善案',
+  'audit.noBullets': '箇条書きはすでに十分に具体的です。',
+  'audit.sections': '不足しているセクション',
+  'audit.noSections': '必要なセクションはすべて揃っています。',
+  'audit.copy': 'コピー',
+  'audit.copied': 'コピーしました',
+  'audit.practice': 'この履歴書で面接を練習する',
+  'audit.back': 'アップロードに戻る',
+
+  'feedback.loading.title': 'セッションを分析しています',
+  'feedback.loading.body': 'CareerCompass AI がコンピテンシーを評価し、詳しい成長プランを作成しています...',
+  'feedback.empty': 'データがありません',
+  'feedback.error': 'スコアカードを作成できませんでした。面接の内容は残っているので、もう一度お試しいただけます。',
+  'feedback.retry': '再試行',
+  'feedback.title': '面接スコアカード',
+  'feedback.subtitle': '{format} 面接 · 職務適性の詳しい内訳です。',
+  'feedback.interviewer': '面接官：{persona}',
+  'feedback.overall': '総合',
+  'feedback.competencies': 'コンピテンシー別評価',
+  'feedback.rubric': '{name}で評価',
+  'feedback.weight': '総合の{share}%',
+  'feedback.roleFit': 'ポジションとの適合度',
+  'feedback.strengths': '強み',
+  'feedback.growth': '改善点',
+  'feedback.advice': '戦略的アドバイス',
+  'feedback.delivery': '話し方',
+  'feedback.delivery.pace': '話す速さ',
+  'feedback.delivery.wpm': '毎分 {wpm} 語',
+  'feedback.delivery.paceHint': '聞きやすい範囲：毎分 {min}〜{max} 語',
+  'feedback.delivery.fillers': 'つなぎ言葉',
+  'feedback.delivery.fillerRate': '100 語あたり {rate} 回',
+  'feedback.delivery.noFillers': 'つなぎ言葉は検出されませんでした。',
+  'feedback.delivery.talkRatio': '発話時間の割合',
+  'feedback.delivery.you': 'あなた {share}%',
+  'feedback.delivery.interviewer': '面接官 {share}%',
+  'feedback.delivery.pauses': '長い沈黙',
+  'feedback.delivery.pauseItem': '回答 {answer}：{seconds} 秒',
+  'feedback.delivery.noPauses': '長い沈黙は検出されませんでした。',
+  'feedback.delivery.lengths': '回答の長さ',
+  'feedback.delivery.median': '回答の中央値：{words} 語',
+  'feedback.delivery.answerLabel': '回答 {answer}：{words} 語',
+  'feedback.delivery.voiceOnly': '音声面接でのみ計測します。',
+  'feedback.coverage': 'トピックの網羅状況',
+  'feedback.coverage.summary': '予定した {planned} 問中 {asked} 問を出題 · {bank}',
+  'feedback.coverage.general': '一般',
+  'feedback.coverage.asked': '出題済み',
+  'feedback.coverage.notAsked': '未出題',
+  'feedback.coverage.gaps': '予定した質問がない履歴書のスキル：{skills}',
+  'feedback.difficulty': '難易度の推移',
+  'feedback.difficulty.summary': '開始は{start}、最高は{peak}、終了は{end}でした。',
+  'feedback.difficulty.start': '開始',
+  'feedback.difficulty.answer': '回答 {n}',
+  'feedback.difficulty.score': '評価 {score}/5',
+  'feedback.code': 'コード',
+  'feedback.code.strengths': '良かった点',
+  'feedback.code.issues': '直すべき点',
+  'feedback.code.submitted': '提出した解答 · {language}',
+  'feedback.code.final': 'エディターの最終内容 · {language}',
+  'feedback.whiteboard': 'ホワイトボード',
+  'feedback.whiteboard.alt': '最終的なホワイトボードの図',
+  'feedback.drill': '集中練習する',
+  'feedback.drillSkill': '{skill}の短い練習ドリルを開始',
+  'feedback.export': 'レポートを書き出す',
+  'feedback.exportError': 'レポートを書き出せませんでした。',
+  'feedback.retake': '別の書類で面接をやり直す',
+  'feedback.poweredBy': 'CareerCompass AI 分析エンジン',
+  'history.title': 'あなたの進捗',
+  'history.countOne': '完了したセッション 1 件（この端末に保存）',
+  'history.count': '完了したセッション {count} 件（この端末に保存）',
+  'history.import': 'レポートをインポート',
+  'history.newInterview': '新しい面接',
+  'history.empty': '面接を完了すると、進捗の記録が始まります。',
+  'history.chart': 'スコアの推移',
+  'history.past': '過去のセッション',
+  'history.meta': '{minutes}分 · {turns}ターン',
+  'history.view': '評価を見る',
+  'history.delete': '削除',
+  'history.loadError': '面接履歴を読み込めませんでした。',
+  'history.deleteError': 'そのセッションを削除できませんでした。',
+  'history.importError': 'そのレポートをインポートできませんでした。',
+  'history.importError.json': 'このファイルは有効な JSON ではありません。',
+  'history.importError.kind': 'このファイルは CareerCompass の面接レポートではありません。',
+  'history.importError.version': 'このレポートは新しいバージョンの CareerCompass でエクスポートされました。アップデートしてからもう一度お試しください。',
+  'history.importError.damaged': 'このレポートは不完全か破損しています。',
+  'replay.title': '面接の再生',
+  'replay.titleWithReview': '面接の再生と回答レビュー',
+  'replay.download': 'WAVをダウンロード',
+  'replay.noAudio': 'このセッションでは音声が録音されていません。',
+  'replay.showSuggestion': 'より良い回答を表示',
+  'replay.hideSuggestion': 'より良い回答を隠す',
+  'replay.liveRating': '面接官のリアルタイム評価 {score}/5',
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_DIFFICULTY, MIN_DIFFICULTY, extractScoreTag, initialDifficulty, nextDifficulty } from './adaptiveDifficulty';
+
+describe('nextDifficulty', () => {
+  it('raises the level after strong answers and lowers it after weak ones', () => {
+    expect(nextDifficulty(3, 4)).toBe(4);
+    expect(nextDifficulty(3, 5)).toBe(4);
+    expect(nextDifficulty(3, 2)).toBe(2);
+    expect(nextDifficulty(3, 1)).toBe(2);
+  });
+
+  it('holds the level for an average answer', () => {
+    expect(nextDifficulty(3, 3)).toBe(3);
+  });
+
+  it('stays within the level bounds', () => {
+    expect(nextDifficulty(MAX_DIFFICULTY, 5)).toBe(MAX_DIFFICULTY);
+    expect(nextDifficulty(MIN_DIFFICULTY, 1)).toBe(MIN_DIFFICULTY);
+  });
+});
+
+describe('initialDifficulty', () => {
+  it('starts from the experience level', () => {
+    expect(initialDifficulty('Junior')).toBe(2);
+    expect(initialDifficulty('Mid-level')).toBe(3);
+    expect(initialDifficulty('Senior / Lead')).toBe(4);
+  });
+});
+
+describe('extractScoreTag', () => {
+  it('reads and strips a leading score tag', () => {
+    expect(extractScoreTag('[[score: 4]] Good. Next question?')).toEqual({ score: 4, text: 'Good. Next question?' });
+    expect(extractScoreTag('  [[SCORE:2]]\nLet us try something simpler.')).toEqual({ score: 2, text: 'Let us try something simpler.' });
+  });
+
+  it('returns the reply unchanged when there is no tag', () => {
+    expect(extractScoreTag('Welcome! Tell me about yourself.')).toEqual({ score: null, text: 'Welcome! Tell me about yourself.' });
+  });
+
+  it('ignores malformed or misplaced tags', () => {
+    for (const reply of ['[[score: 7]] Hm.', '[[score: four]] Hm.', '[score: 4] Hm.', 'Hm. [[score: 4]]', '[[score: 4.5]] Hm.']) {
+      expect(extractScoreTag(reply)).toEqual({ score: null, text: reply });
+    }
+  });
+});
@@ -0,0 +1,63 @@
+import { DifficultyStep } from "../types";
+
+export const MIN_DIFFICULTY = 1;
+export const MAX_DIFFICULTY = 5;
+
+// Names the difficulty.level.<n> catalog keys; the labels below are English, for the prompts and exported reports.
+export type DifficultyLevel = 1 | 2 | 3 | 4 | 5;
+
+export const DIFFICULTY_LEVELS: Record<number, { label: string; instruction: string }> = {
+  1: {
+    label: 'Foundational',
+    instruction: 'Ask concrete questions about fundamentals. Break problems into small steps and offer a hint if the candidate stalls.',
+  },
+  2: {
+    label: 'Developing',
+    instruction: 'Ask about everyday use of their skills, one well-defined problem at a time, with light scaffolding.',
+  },
+  3: {
+    label: 'Proficient',
+    instruction: 'Ask open problems that need reasoning about trade-offs between two or three options.',
+  },
+  4: {
+    label: 'Advanced',
+    instruction: 'Ask about edge cases, failure modes and scale, and challenge the first answer they give.',
+  },
+  5: {
+    label: 'Expert',
+    instruction: 'Ask ambiguous, open-ended problems at the edge of their field and push on every assumption.',
+  },
+};
+
+// Where an interview starts before any answer has been heard.
+export const initialDifficulty = (experienceLevel: string): number => {
+  const level = experienceLevel.toLowerCase();
+  if (level.includes('entry') || level.includes('junior')) return 2;
+  if (level.includes('senior') || level.includes('lead') || level.includes('executive')) return 4;
+  return 3;
+};
+
+// Answers are rated 1-5: strong answers raise the bar by one level, weak ones lower it, and 3 holds it.
+export const nextDifficulty = (level: number, score: number): number => {
+  if (score >= 4) return Math.min(MAX_DIFFICULTY, level + 1);
+  if (score <= 2) return Math.max(MIN_DIFFICULTY, level - 1);
+  return level;
+};
+
+export const difficultyGuidance = (previous: number, next: number, score: number): string => {
+  const { label, instruction } = DIFFICULTY_LEVELS[next];
+  const change = next > previous ? 'Raise the difficulty' : next < previous ? 'Ease the difficulty' : 'Keep the difficulty';
+  const scaffold = next < previous ? ' Start with a simpler, related question that helps them recover before returning to the topic.' : '';
+  return `Answer rated ${score}/5. ${change} to level ${next} of ${MAX_DIFFICULTY} (${label}) for your next question: ${instruction}${scaffold}`;
+};
+
+// Text chat has no tool calls, so the interviewer opens each reply that follows an answer with this tag instead.
+const SCORE_TAG = /^\s*\[\[score:\s*([1-5])\]\]\s*/i;
+
+export const extractScoreTag = (reply: string): { score: number | null; text: string } => {
+  const match = reply.match(SCORE_TAG);
+  return match ? { score: Number(match[1]), text: reply.slice(match[0].length) } : { score: null, text: reply };
+};
+
+export const describeCurve = (curve: DifficultyStep[]): string =>
+  curve.map(step => step.level).join(' → ');
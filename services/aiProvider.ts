@@ -0,0 +1,66 @@
+import { LiveCallbacks, Session } from "@google/genai";
+import { Assessment, CodeSnapshot, DeliveryMetrics, GapAnalysis, ImageFrame, InterviewEvent, InterviewFormat, InterviewLanguage, InterviewMessage, JobDescriptionInput, ResumeAudit, ResumeData, ResumeInput, Rubric } from "../types";
+import { geminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockProvider";
+
+export interface FeedbackRequest {
+  messages: InterviewMessage[];
+  resumeData: ResumeData;
+  gapAnalysis: GapAnalysis | null;
+  format: InterviewFormat;
+  language: InterviewLanguage;
+  delivery: DeliveryMetrics | null;
+  // Text interviews have no tool calls, so they only carry answer ratings taken from score tags.
+  events: InterviewEvent[];
+  codeSnapshots: CodeSnapshot[];
+  whiteboard: ImageFrame | null;
+  // Camera stills sampled across a voice interview; adds a Presence competency when present.
+  presenceFrames: ImageFrame[];
+  // Competencies, weights and anchors to score against; the overall score is computed from them, not by the model.
+  rubric: Rubric;
+}
+
+export interface LiveConnectOptions {
+  systemInstruction: string;
+  // One of the prebuilt voice names; see VOICES in interviewerPersonas.
+  voiceName: string;
+  // Hints transcription of both sides of the conversation.
+  language: InterviewLanguage;
+  callbacks: LiveCallbacks;
+}
+
+// The subset of the Gemini live session the interview relies on; the mock provider implements the same surface.
+export type LiveSession = Pick<Session, 'sendRealtimeInput' | 'sendClientContent' | 'sendToolResponse' | 'close'>;
+
+export interface ChatSession {
+  // The image, when given, goes along with the text; chat has no other way to show the interviewer the whiteboard.
+  sendMessage: (text: string, image?: ImageFrame) => Promise<string>;
+}
+
+export interface AIProvider {
+  analyzeResume: (input: ResumeInput, language: InterviewLanguage) => Promise<ResumeData>;
+  analyzeJobFit: (resume: ResumeData, job: JobDescriptionInput, language: InterviewLanguage) => Promise<GapAnalysis>;
+  auditResume: (input: ResumeInput, job: JobDescriptionInput | null, language: InterviewLanguage) => Promise<ResumeAudit>;
+  generateFeedback: (request: FeedbackRequest) => Promise<Assessment>;
+  createChat: (systemInstruction: string) => ChatSession;
+  connectLive: (options: LiveConnectOptions) => Promise<LiveSession>;
+}
+
+const shouldUseMock = (): boolean => {
+  if (process.env.AI_PROVIDER === 'mock') return true;
+  return typeof window !== 'undefined' && new URLSearchParams(window.location.search).get('provider') === 'mock';
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const getProvider = (): AIProvider => {
+  if (!activeProvider) {
+    activeProvider = shouldUseMock() ? createMockProvider() : geminiProvider;
+  }
+  return activeProvider;
+};
+
+// Lets tests and tooling swap in a scripted provider before the app starts talking to one.
+export const setProvider = (provider: AIProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,31 @@
+import { ImageFrame, RubricCompetency } from "../types";
+
+// The live model only needs a glimpse of the candidate, so the camera is sampled at one frame a second.
+export const CAMERA_FRAME_INTERVAL_MS = 1000;
+export const CAMERA_FRAME_WIDTH = 480;
+
+// Stills kept for the scorecard; they stay in memory and are never saved with the session.
+const PRESENCE_SAMPLE_INTERVAL_MS = 30000;
+const MAX_PRESENCE_SAMPLES = 6;
+
+// Added to whichever rubric is in use when the camera was on; weighted lightly, as it is judged from a few stills.
+export const PRESENCE_COMPETENCY: RubricCompetency = {
+  name: 'Presence',
+  description: 'Eye contact with the camera, posture and visible engagement while speaking and listening.',
+  weight: 1,
+  anchors: {
+    weak: 'Rarely looks at the camera, or appears distracted or slumped for much of the interview.',
+    solid: 'Mostly faces the camera with an upright posture, glancing away now and then.',
+    strong: 'Steady eye contact, open posture and visible engagement while both speaking and listening.',
+  },
+};
+
+// Keeps a handful of stills spread over the whole interview: once full, every other one is dropped,
+// which also doubles the gap before the next sample is taken.
+export const addPresenceSample = (samples: ImageFrame[], frame: ImageFrame): ImageFrame[] => {
+  const last = samples[samples.length - 1];
+  const gap = samples.length >= 2 ? samples[1].at - samples[0].at : PRESENCE_SAMPLE_INTERVAL_MS;
+  if (last && frame.at - last.at < gap) return samples;
+  const next = [...samples, frame];
+  return next.length > MAX_PRESENCE_SAMPLES ? next.filter((_, i) => i % 2 === 0) : next;
+};
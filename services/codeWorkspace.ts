@@ -0,0 +1,50 @@
+import { CodeLanguage, CodeShareTrigger, CodeSnapshot, InterviewFormat } from "../types";
+
+export const CODE_LANGUAGES: Record<CodeLanguage, { label: string; comment: string }> = {
+  javascript: { label: 'JavaScript', comment: '//' },
+  typescript: { label: 'TypeScript', comment: '//' },
+  python: { label: 'Python', comment: '#' },
+  java: { label: 'Java', comment: '//' },
+  go: { label: 'Go', comment: '//' },
+  cpp: { label: 'C++', comment: '//' },
+  sql: { label: 'SQL', comment: '--' },
+};
+
+export const DEFAULT_CODE_LANGUAGE: CodeLanguage = 'javascript';
+
+// How often an edited buffer is pushed to the interviewer without the candidate asking.
+export const CODE_SYNC_INTERVAL_MS = 20000;
+
+// Keeps a pasted file from crowding the interview out of the model's context.
+const MAX_SHARED_CODE_CHARS = 6000;
+
+// Formats that open the editor straight away; it can still be opened in any format.
+export const CODE_EDITOR_FORMATS: InterviewFormat[] = [InterviewFormat.TECHNICAL];
+
+// The first language from the resume the editor supports, so candidates start in one they know.
+export const preferredCodeLanguage = (skills: string[]): CodeLanguage => {
+  const lower = skills.map(s => s.toLowerCase());
+  const match = (Object.keys(CODE_LANGUAGES) as CodeLanguage[]).find(id => {
+    const label = CODE_LANGUAGES[id].label.toLowerCase();
+    return lower.some(s => s === label || s === id || (id === 'go' && s === 'golang'));
+  });
+  return match ?? DEFAULT_CODE_LANGUAGE;
+};
+
+const SHARE_INSTRUCTIONS: Record<CodeShareTrigger, string> = {
+  run: 'The candidate asked you to run through their code. Trace it on a small example, say what it would output or where it would fail, then continue.',
+  submit: 'The candidate submitted this as their solution. Give brief feedback on correctness, complexity and readability, then continue.',
+  sync: "The current contents of the candidate's editor, for reference only. Do not comment on it unless they ask or it bears on your next question.",
+};
+
+export const codeNote = ({ language, code, trigger }: Pick<CodeSnapshot, 'language' | 'code' | 'trigger'>): string => {
+  const trimmed = code.length > MAX_SHARED_CODE_CHARS ? `${code.slice(0, MAX_SHARED_CODE_CHARS)}\n… (truncated)` : code;
+  return `[CODE (${CODE_LANGUAGES[language].label}): ${SHARE_INSTRUCTIONS[trigger]}]\n\`\`\`${language}\n${trimmed}\n\`\`\``;
+};
+
+// What the scorecard reviews: every submission plus the final buffer, without repeats.
+export const snapshotsForReview = (snapshots: CodeSnapshot[]): CodeSnapshot[] => {
+  const final = snapshots[snapshots.length - 1];
+  const picked = snapshots.filter(s => s.trigger === 'submit' || s === final);
+  return picked.filter((s, i) => !picked.slice(i + 1).some(later => later.code === s.code && later.language === s.language));
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { InterviewMessage } from '../types';
+import { computeDelivery } from './deliveryAnalytics';
+
+const answer = (text: string, timestamp = 1): InterviewMessage[] => [
+  { role: 'ai', text: 'Tell me about yourself.', timestamp: 0 },
+  { role: 'user', text, timestamp },
+];
+
+describe('computeDelivery', () => {
+  it('counts English fillers as whole words only', () => {
+    const delivery = computeDelivery(answer('Um, I mean, the umbrella was, um, basically fine.'), 'text', 'en', null);
+    expect(delivery.fillerWords).toEqual({ um: 2, 'i mean': 1, basically: 1 });
+    expect(delivery.answers[0].fillerCount).toBe(4);
+  });
+
+  it('counts fillers in the interview language', () => {
+    expect(computeDelivery(answer('Äh, das ist halt sozusagen fertig.'), 'text', 'de', null).fillerWords)
+      .toEqual({ 'äh': 1, halt: 1, sozusagen: 1 });
+    expect(computeDelivery(answer('O sea, pues, está listo.'), 'text', 'es', null).fillerWords)
+      .toEqual({ 'o sea': 1, pues: 1 });
+    // Japanese has no spaces between words, so fillers are found inside longer runs of text.
+    expect(computeDelivery(answer('えーと、なんか難しいですね'), 'text', 'ja', null).fillerWords)
+      .toEqual({ 'えーと': 1, 'なんか': 1 });
+  });
+
+  it('reports fillers per 100 words', () => {
+    const delivery = computeDelivery(answer(`um ${'word '.repeat(19)}`), 'text', 'en', null);
+    expect(delivery.fillersPer100Words).toBe(5);
+  });
+
+  it('measures pace and pauses from voice activity inside the answer', () => {
+    const messages: InterviewMessage[] = [
+      ...answer('word '.repeat(15).trim(), 8000),
+      { role: 'ai', text: 'Thanks.', timestamp: 21000, startedAt: 20000 },
+    ];
+    const delivery = computeDelivery(messages, 'voice', 'en', {
+      segments: [{ start: 1000, end: 3000 }, { start: 4000, end: 7000 }, { start: 25000, end: 26000 }],
+      interviewerTalkMs: 6000,
+    });
+
+    expect(delivery.answers[0]).toMatchObject({ speakingMs: 5000, wordsPerMinute: 150, longestPauseMs: 1000 });
+    expect(delivery.wordsPerMinute).toBe(150);
+    expect(delivery.longestPauses).toEqual([{ messageIndex: 1, durationMs: 1000 }]);
+    expect(delivery.candidateTalkMs).toBe(6000);
+    expect(delivery.candidateTalkShare).toBe(0.5);
+  });
+
+  it('ignores gaps too short to count as pauses', () => {
+    const delivery = computeDelivery(answer('word word word'), 'voice', 'en', {
+      segments: [{ start: 1000, end: 2000 }, { start: 2500, end: 3000 }],
+      interviewerTalkMs: 0,
+    });
+    expect(delivery.answers[0].longestPauseMs).toBeNull();
+    expect(delivery.longestPauses).toEqual([]);
+  });
+
+  it('leaves timing empty for typed answers', () => {
+    const delivery = computeDelivery(answer('word word word'), 'text', 'en', null);
+    expect(delivery.wordsPerMinute).toBeNull();
+    expect(delivery.candidateTalkShare).toBeNull();
+    expect(delivery.answers[0]).toMatchObject({ words: 3, speakingMs: null, wordsPerMinute: null });
+  });
+});
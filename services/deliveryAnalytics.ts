@@ -0,0 +1,131 @@
+import { AnswerDelivery, DeliveryMetrics, InterviewLanguage, InterviewMessage, InterviewMode, VoiceActivity } from "../types";
+import { LANGUAGES } from "../i18n/languages";
+
+// Japanese is written without spaces, so its fillers are matched anywhere rather than as whole words.
+const FILLERS: Record<InterviewLanguage, { phrases: string[]; wholeWords: boolean }> = {
+  en: { phrases: ['um', 'uh', 'erm', 'like', 'you know', 'i mean', 'sort of', 'kind of', 'basically'], wholeWords: true },
+  de: { phrases: ['äh', 'ähm', 'halt', 'sozusagen', 'quasi', 'irgendwie'], wholeWords: true },
+  es: { phrases: ['eh', 'em', 'este', 'o sea', 'pues', 'bueno', 'tipo'], wholeWords: true },
+  ja: { phrases: ['えーと', 'えっと', 'あのー', 'なんか', 'まあ'], wholeWords: false },
+};
+
+// Gaps shorter than this are ordinary breathing room, not pauses worth reporting.
+const MIN_PAUSE_MS = 600;
+
+// Ranges the feedback prompt treats as comfortable; outside them the Communication score is affected.
+export const TARGET_WPM = { min: 120, max: 160 };
+export const MAX_COMFORTABLE_FILLERS_PER_100 = 3;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const countWords = (text: string, language: InterviewLanguage): number => {
+  const segmenter = new Intl.Segmenter(LANGUAGES[language].locale, { granularity: 'word' });
+  let words = 0;
+  for (const segment of segmenter.segment(text)) {
+    if (segment.isWordLike) words++;
+  }
+  return words;
+};
+
+const countFillers = (text: string, language: InterviewLanguage): Record<string, number> => {
+  const { phrases, wholeWords } = FILLERS[language];
+  const counts: Record<string, number> = {};
+  for (const phrase of phrases) {
+    const pattern = wholeWords
+      ? new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(phrase)}(?![\\p{L}\\p{N}])`, 'giu')
+      : new RegExp(escapeRegExp(phrase), 'gu');
+    const matches = text.match(pattern)?.length ?? 0;
+    if (matches > 0) counts[phrase] = matches;
+  }
+  return counts;
+};
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+};
+
+// An answer owns the speech between the end of the interviewer's previous turn and the start of their next one.
+const answerWindow = (messages: InterviewMessage[], index: number): { start: number; end: number } => {
+  let start = -Infinity;
+  for (let i = index - 1; i >= 0; i--) {
+    if (messages[i].role === 'ai') {
+      start = messages[i].timestamp;
+      break;
+    }
+  }
+  let end = Infinity;
+  for (let i = index + 1; i < messages.length; i++) {
+    if (messages[i].role === 'ai') {
+      end = messages[i].startedAt ?? messages[i].timestamp;
+      break;
+    }
+  }
+  return { start, end };
+};
+
+export const computeDelivery = (
+  messages: InterviewMessage[],
+  mode: InterviewMode,
+  language: InterviewLanguage,
+  activity: VoiceActivity | null
+): DeliveryMetrics => {
+  const fillerWords: Record<string, number> = {};
+  let timedWords = 0;
+  let timedSpanMs = 0;
+
+  const answers: AnswerDelivery[] = messages.flatMap((m, messageIndex) => {
+    if (m.role !== 'user') return [];
+    const words = countWords(m.text, language);
+    const fillers = countFillers(m.text, language);
+    Object.entries(fillers).forEach(([phrase, count]) => { fillerWords[phrase] = (fillerWords[phrase] ?? 0) + count; });
+    const answer: AnswerDelivery = {
+      messageIndex,
+      words,
+      fillerCount: Object.values(fillers).reduce((sum, n) => sum + n, 0),
+      speakingMs: null,
+      wordsPerMinute: null,
+      longestPauseMs: null,
+    };
+
+    const { start, end } = answerWindow(messages, messageIndex);
+    const segments = activity?.segments.filter(s => s.start >= start && s.start < end) ?? [];
+    if (segments.length > 0) {
+      const spanMs = segments[segments.length - 1].end - segments[0].start;
+      answer.speakingMs = segments.reduce((sum, s) => sum + (s.end - s.start), 0);
+      answer.wordsPerMinute = spanMs > 0 ? Math.round(words / (spanMs / 60000)) : null;
+      const longestGap = segments.slice(1).reduce((longest, s, i) => Math.max(longest, s.start - segments[i].end), 0);
+      answer.longestPauseMs = longestGap >= MIN_PAUSE_MS ? longestGap : null;
+      if (spanMs > 0) {
+        timedWords += words;
+        timedSpanMs += spanMs;
+      }
+    }
+    return [answer];
+  });
+
+  const totalWords = answers.reduce((sum, a) => sum + a.words, 0);
+  const totalFillers = answers.reduce((sum, a) => sum + a.fillerCount, 0);
+  const candidateTalkMs = activity ? activity.segments.reduce((sum, s) => sum + (s.end - s.start), 0) : null;
+  const interviewerTalkMs = activity ? activity.interviewerTalkMs : null;
+  const totalTalkMs = (candidateTalkMs ?? 0) + (interviewerTalkMs ?? 0);
+
+  return {
+    mode,
+    answers,
+    wordsPerMinute: timedSpanMs > 0 ? Math.round(timedWords / (timedSpanMs / 60000)) : null,
+    fillerWords,
+    fillersPer100Words: totalWords > 0 ? Math.round((totalFillers / totalWords) * 1000) / 10 : 0,
+    candidateTalkMs,
+    interviewerTalkMs,
+    candidateTalkShare: candidateTalkMs !== null && totalTalkMs > 0 ? candidateTalkMs / totalTalkMs : null,
+    longestPauses: answers
+      .filter(a => a.longestPauseMs !== null)
+      .map(a => ({ messageIndex: a.messageIndex, durationMs: a.longestPauseMs as number }))
+      .sort((a, b) => b.durationMs - a.durationMs)
+      .slice(0, 3),
+    medianAnswerWords: median(answers.map(a => a.words)),
+  };
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { DrillFocus, InterviewFormat } from '../types';
+import { DEFAULT_MOCK_SCRIPT } from './mockProvider';
+import { daysUntilDue, isDrillDue, nextIntervalDays, recordDrillScore } from './drillScheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const resume = { ...DEFAULT_MOCK_SCRIPT.resume, rawText: '' };
+const focus: DrillFocus = { kind: 'skill', topic: 'Kubernetes', roleTitle: 'Platform Engineer' };
+
+describe('nextIntervalDays', () => {
+  it('brings a weak drill back the next day, however long the interval had grown', () => {
+    expect(nextIntervalDays(0, 40)).toBe(1);
+    expect(nextIntervalDays(20, 59)).toBe(1);
+  });
+
+  it('grows the interval slowly for passable scores', () => {
+    expect(nextIntervalDays(0, 60)).toBe(2);
+    expect(nextIntervalDays(4, 79)).toBe(6);
+  });
+
+  it('grows the interval quickly for strong scores', () => {
+    expect(nextIntervalDays(0, 80)).toBe(3);
+    expect(nextIntervalDays(4, 95)).toBe(10);
+  });
+
+  it('never schedules a drill more than 60 days out', () => {
+    expect(nextIntervalDays(40, 90)).toBe(60);
+    expect(nextIntervalDays(50, 70)).toBe(60);
+  });
+});
+
+describe('recordDrillScore', () => {
+  it('schedules a new drill and keeps its score history', () => {
+    const [drill] = recordDrillScore([], focus, InterviewFormat.TECHNICAL, resume, 85, 0);
+    expect(drill).toMatchObject({ id: 'skill:kubernetes', intervalDays: 3, dueAt: 3 * DAY_MS, scores: [{ at: 0, score: 85 }] });
+  });
+
+  it('grows the interval of a repeated drill and resets it after a weak score', () => {
+    let drills = recordDrillScore([], focus, InterviewFormat.TECHNICAL, resume, 85, 0);
+    drills = recordDrillScore(drills, { ...focus, topic: ' kubernetes ' }, InterviewFormat.TECHNICAL, resume, 90, DAY_MS);
+    expect(drills).toHaveLength(1);
+    expect(drills[0].intervalDays).toBe(8);
+    expect(drills[0].scores.map(s => s.score)).toEqual([85, 90]);
+
+    drills = recordDrillScore(drills, focus, InterviewFormat.TECHNICAL, resume, 50, 10 * DAY_MS);
+    expect(drills[0]).toMatchObject({ intervalDays: 1, dueAt: 11 * DAY_MS });
+  });
+
+  it('orders drills by when they are due', () => {
+    const other: DrillFocus = { kind: 'competency', topic: 'Communication', score: 55, description: '' };
+    let drills = recordDrillScore([], focus, InterviewFormat.TECHNICAL, resume, 90, 0);
+    drills = recordDrillScore(drills, other, InterviewFormat.BEHAVIORAL, resume, 40, 0);
+    expect(drills.map(d => d.focus.topic)).toEqual(['Communication', 'Kubernetes']);
+    expect(isDrillDue(drills[0], DAY_MS)).toBe(true);
+    expect(isDrillDue(drills[1], DAY_MS)).toBe(false);
+    expect(daysUntilDue(drills[1], DAY_MS)).toBe(2);
+  });
+});
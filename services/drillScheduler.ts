@@ -0,0 +1,94 @@
+import { AgendaPhase, Assessment, BankQuestion, DrillFocus, InterviewFormat, QuestionBank, ResumeData, ScheduledDrill } from "../types";
+
+const STORAGE_KEY = 'career-compass.drills';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DRILL_QUESTIONS = { min: 3, max: 5 };
+
+// Competencies scored below this on a scorecard are offered as drills.
+export const DRILL_THRESHOLD = 70;
+
+// Long enough for the questions of one drill, with no resume walkthrough or candidate questions.
+export const DRILL_AGENDA: AgendaPhase[] = [
+  { id: 'intro', minutes: 1, enabled: true },
+  { id: 'resume', minutes: 0, enabled: false },
+  { id: 'technical', minutes: 8, enabled: true },
+  { id: 'behavioral', minutes: 0, enabled: false },
+  { id: 'candidateQuestions', minutes: 0, enabled: false },
+  { id: 'close', minutes: 1, enabled: true },
+];
+
+const MAX_INTERVAL_DAYS = 60;
+
+export const drillId = (focus: DrillFocus) => `${focus.kind}:${focus.topic.trim().toLowerCase()}`;
+
+// A light spaced-repetition rule: weak drills come back tomorrow, passable ones a little later,
+// and strong ones at a growing distance.
+export const nextIntervalDays = (previous: number, score: number): number => {
+  if (score < 60) return 1;
+  if (score < 80) return Math.min(MAX_INTERVAL_DAYS, Math.max(2, Math.round(previous * 1.5)));
+  return Math.min(MAX_INTERVAL_DAYS, Math.max(3, Math.round(previous * 2.5)));
+};
+
+// A competency drill is scored on that competency when the scorecard has it, otherwise on the overall score.
+export const drillScore = (assessment: Assessment, focus: DrillFocus): number => {
+  if (focus.kind === 'competency') {
+    const match = assessment.competencies.find(c => c.name.toLowerCase() === focus.topic.toLowerCase());
+    if (match) return match.score;
+  }
+  return assessment.score;
+};
+
+export const recordDrillScore = (
+  drills: ScheduledDrill[],
+  focus: DrillFocus,
+  format: InterviewFormat,
+  resumeData: ResumeData,
+  score: number,
+  now = Date.now()
+): ScheduledDrill[] => {
+  const id = drillId(focus);
+  const existing = drills.find(d => d.id === id);
+  const intervalDays = nextIntervalDays(existing?.intervalDays ?? 0, score);
+  const updated: ScheduledDrill = {
+    id,
+    focus,
+    format,
+    resumeData,
+    intervalDays,
+    dueAt: now + intervalDays * DAY_MS,
+    scores: [...(existing?.scores ?? []), { at: now, score }],
+  };
+  return [...drills.filter(d => d.id !== id), updated].sort((a, b) => a.dueAt - b.dueAt);
+};
+
+export const isDrillDue = (drill: ScheduledDrill, now = Date.now()) => drill.dueAt <= now;
+
+export const daysUntilDue = (drill: ScheduledDrill, now = Date.now()) => Math.max(0, Math.ceil((drill.dueAt - now) / DAY_MS));
+
+// Bank questions tagged with the drilled skill; competency drills are left to the interviewer.
+export const drillQuestions = (bank: QuestionBank, format: InterviewFormat, focus: DrillFocus): BankQuestion[] => {
+  if (focus.kind !== 'skill') return [];
+  const topic = focus.topic.toLowerCase();
+  return bank.questions
+    .filter(q => (!q.formats || q.formats.includes(format)) && q.skills.some(s => s.toLowerCase() === topic))
+    .slice(0, DRILL_QUESTIONS.max);
+};
+
+export const loadDrills = (): ScheduledDrill[] => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    const drills = stored ? JSON.parse(stored) : [];
+    return Array.isArray(drills) ? drills : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveDrills = (drills: ScheduledDrill[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(drills));
+  } catch {
+    // Storage can be unavailable; the schedule then only lasts for this visit.
+  }
+};
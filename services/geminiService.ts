@@ -1,13 +1,30 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { ResumeData, ResumeInput } from "../types";
+import { GoogleGenAI, Modality, Type } from "@google/genai";
+import { Assessment, CodeSnapshot, DeliveryMetrics, GapAnalysis, ImageFrame, InterviewEvent, InterviewMessage, InterviewLanguage, JobDescriptionInput, ResumeAudit, ResumeData, ResumeInput } from "../types";
+import { LANGUAGES } from "../i18n/languages";
+import { AIProvider, ChatSession, FeedbackRequest, LiveConnectOptions, LiveSession } from "./aiProvider";
+import { INTERVIEW_FORMATS } from "./interviewFormats";
+import { MAX_COMFORTABLE_FILLERS_PER_100, TARGET_WPM } from "./deliveryAnalytics";
+import { describeResume } from "./resumeProfile";
+import { INTERVIEW_TOOLS, eventMessageIndex } from "./interviewTools";
+import { CODE_LANGUAGES, snapshotsForReview } from "./codeWorkspace";
+import { PRESENCE_COMPETENCY } from "./cameraPresence";
+import { RUBRIC_LEVELS, RUBRIC_LEVEL_ORDER, ScorecardMismatchError, applyRubric, rubricCompetencies } from "./scoringRubric";
 
-export const analyzeResume = async (input: ResumeInput): Promise<ResumeData> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+// A fresh client per call, so a key picked in the AI Studio key selector takes effect immediately.
+const createClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+
+// The model reads resumes and postings in any language; this only decides the language it writes back in.
+const outputLanguage = (language: InterviewLanguage) => language === 'en' ? '' : `
+
+    Write every free-text value in ${LANGUAGES[language].englishName}. Keep skill and technology names as they are commonly written, and keep enum-like values (such as the experience level) in English.`;
+
+const analyzeResume = async (input: ResumeInput, language: InterviewLanguage): Promise<ResumeData> => {
+  const ai = createClient();
   
   let contentPart: any;
   if (input.type === 'text') {
-    contentPart = { text: `Analyze this resume and extract key professional details: ${input.content}` };
+    contentPart = { text: `Analyze this resume and extract key professional details: ${input.content}${outputLanguage(language)}` };
   } else {
     contentPart = [
       {
@@ -16,7 +33,7 @@ export const analyzeResume = async (input: ResumeInput): Promise<ResumeData> =>
           mimeType: input.mimeType
         }
       },
-      { text: "Analyze the attached resume file and extract key professional details in JSON format." }
+      { text: `Analyze the attached resume file and extract key professional details in JSON format.${outputLanguage(language)}` }
     ];
   }
 
@@ -40,16 +57,408 @@ export const analyzeResume = async (input: ResumeInput): Promise<ResumeData> =>
           experienceLevel: {
             type: Type.STRING,
             description: "Entry, Mid-level, Senior, or Executive."
+          },
+          skillExperience: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                skill: { type: Type.STRING },
+                years: { type: Type.NUMBER }
+              },
+              required: ["skill", "years"]
+            },
+            description: "Years of hands-on use, only for skills where the resume's dates make it clear."
+          },
+          workHistory: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                title: { type: Type.STRING },
+                company: { type: Type.STRING },
+                startDate: { type: Type.STRING, description: "As written on the resume, e.g. 2021 or Mar 2021." },
+                endDate: { type: Type.STRING, description: "Empty if the role is current." },
+                highlights: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Key achievements and responsibilities." }
+              },
+              required: ["title", "company", "startDate", "endDate", "highlights"]
+            },
+            description: "Jobs, most recent first."
+          },
+          projects: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                name: { type: Type.STRING },
+                description: { type: Type.STRING },
+                technologies: { type: Type.ARRAY, items: { type: Type.STRING } }
+              },
+              required: ["name", "description", "technologies"]
+            }
+          },
+          education: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                institution: { type: Type.STRING },
+                degree: { type: Type.STRING },
+                year: { type: Type.STRING, description: "Graduation year, or empty if not given." }
+              },
+              required: ["institution", "degree", "year"]
+            }
+          },
+          certifications: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING }
           }
         },
-        required: ["skills", "summary", "experienceLevel"]
+        required: ["skills", "summary", "experienceLevel", "skillExperience", "workHistory", "projects", "education", "certifications"]
+      }
+    }
+  });
+
+  const { skillExperience = [], ...data } = JSON.parse(response.text || '{}');
+  return {
+    ...data,
+    skillYears: Object.fromEntries(skillExperience.map((s: { skill: string; years: number }) => [s.skill, s.years])),
+    rawText: input.type === 'text' ? input.content : `File: ${input.fileName}`
+  };
+};
+
+const analyzeJobFit = async (resume: ResumeData, job: JobDescriptionInput, language: InterviewLanguage): Promise<GapAnalysis> => {
+  const ai = createClient();
+
+  const candidateProfile = `Candidate Profile:\n${describeResume(resume)}`;
+
+  let contentPart: any;
+  if (job.type === 'text') {
+    contentPart = { text: `Compare the candidate against this job description and produce a gap analysis.\n\n${candidateProfile}\n\nJob Description:\n${job.content}${outputLanguage(language)}` };
+  } else {
+    contentPart = [
+      {
+        inlineData: {
+          data: job.data,
+          mimeType: job.mimeType
+        }
+      },
+      { text: `Compare the candidate against the attached job description and produce a gap analysis in JSON format.\n\n${candidateProfile}${outputLanguage(language)}` }
+    ];
+  }
+
+  const response = await ai.models.generateContent({
+    model: 'gemini-3-flash-preview',
+    contents: Array.isArray(contentPart) ? { parts: contentPart } : contentPart,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          roleTitle: {
+            type: Type.STRING,
+            description: "The title of the role being hired for."
+          },
+          matchedSkills: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Requirements of the role the candidate clearly meets."
+          },
+          missingSkills: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Requirements of the role the candidate shows little or no evidence of."
+          },
+          overQualifiedAreas: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Areas where the candidate's experience clearly exceeds what the role asks for."
+          },
+          focusAreas: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "The 3-5 topics an interviewer should probe hardest, based on the gaps."
+          }
+        },
+        required: ["roleTitle", "matchedSkills", "missingSkills", "overQualifiedAreas", "focusAreas"]
+      }
+    }
+  });
+
+  return JSON.parse(response.text || '{}');
+};
+
+const documentPart = (input: ResumeInput | JobDescriptionInput, heading: string) =>
+  input.type === 'text'
+    ? { text: `${heading}:\n${input.content}` }
+    : { inlineData: { data: input.data, mimeType: input.mimeType } };
+
+const auditResume = async (input: ResumeInput, job: JobDescriptionInput | null, language: InterviewLanguage): Promise<ResumeAudit> => {
+  const ai = createClient();
+  const target = job
+    ? 'Score keyword coverage against the attached job description.'
+    : 'No job description was given: infer the role the resume is aimed at and score keyword coverage against what postings for that role typically ask for.';
+
+  const response = await ai.models.generateContent({
+    model: 'gemini-3-flash-preview',
+    contents: {
+      parts: [
+        documentPart(input, 'Resume'),
+        ...(job ? [documentPart(job, 'Job Description')] : []),
+        { text: `Review this resume the way an applicant tracking system and an experienced recruiter would. The first document is the resume${job ? ', the second is the job description' : ''}.
+    ${target}
+    Flag formatting problems that break ATS parsing or skimming (tables, columns, images, headers/footers, inconsistent dates, missing contact details) and length problems (too long or too short for the experience level, overly long bullets).
+    Pick the weakest bullet points, quoting each exactly as written, say what is wrong, and rewrite it with a strong action verb and quantified impact. Never invent numbers: where the resume gives none, use a clearly marked placeholder such as [X%].
+    List standard sections that are missing (for example Summary, Skills, Experience, Education, Projects, Certifications), but only those that would help for the target role.${outputLanguage(language)}` }
+      ]
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          targetRole: { type: Type.STRING, description: "The role the keywords were scored against." },
+          keywordScore: { type: Type.NUMBER, description: "0-100: how many of the role's important keywords the resume covers." },
+          matchedKeywords: { type: Type.ARRAY, items: { type: Type.STRING } },
+          missingKeywords: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Important keywords for the role the resume lacks, most important first." },
+          formattingWarnings: { type: Type.ARRAY, items: { type: Type.STRING } },
+          lengthWarnings: { type: Type.ARRAY, items: { type: Type.STRING } },
+          weakBullets: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                original: { type: Type.STRING },
+                issue: { type: Type.STRING },
+                rewrite: { type: Type.STRING }
+              },
+              required: ["original", "issue", "rewrite"]
+            }
+          },
+          missingSections: { type: Type.ARRAY, items: { type: Type.STRING } },
+          summary: { type: Type.STRING, description: "Two or three sentences on the resume's overall readiness." }
+        },
+        required: ["targetRole", "keywordScore", "matchedKeywords", "missingKeywords", "formattingWarnings", "lengthWarnings", "weakBullets", "missingSections", "summary"]
       }
     }
   });
 
-  const data = JSON.parse(response.text || '{}');
-  return { 
-    ...data, 
-    rawText: input.type === 'text' ? input.content : `File: ${input.fileName}` 
+  return JSON.parse(response.text || '{}');
+};
+
+// Measured delivery is objective evidence the transcript alone cannot show, so it anchors the Communication score.
+const buildDeliveryPrompt = (delivery: DeliveryMetrics | null): string => {
+  if (!delivery || delivery.answers.length === 0) return '';
+  const lines = [
+    `Filler words: ${delivery.fillersPer100Words} per 100 words (comfortable: up to ${MAX_COMFORTABLE_FILLERS_PER_100})${
+      Object.keys(delivery.fillerWords).length ? `; most used: ${Object.entries(delivery.fillerWords).sort((a, b) => b[1] - a[1]).slice(0, 3).map(([w, n]) => `"${w}" x${n}`).join(', ')}` : ''}.`,
+    `Median answer length: ${delivery.medianAnswerWords} words.`,
+  ];
+  if (delivery.wordsPerMinute !== null) lines.push(`Speaking pace: ${delivery.wordsPerMinute} words per minute (comfortable: ${TARGET_WPM.min}-${TARGET_WPM.max}).`);
+  if (delivery.candidateTalkShare !== null) lines.push(`Candidate share of talk time: ${Math.round(delivery.candidateTalkShare * 100)}%.`);
+  if (delivery.longestPauses.length) lines.push(`Longest pause inside an answer: ${(delivery.longestPauses[0].durationMs / 1000).toFixed(1)}s.`);
+  return `
+
+    Delivery metrics measured from the ${delivery.mode === 'voice' ? 'audio' : 'typed answers'}:
+    ${lines.join('\n    ')}
+    Factor these into the Communication competency (or the competency closest to it if the rubric has none), and mention delivery in strengths or improvements when a metric is well outside its comfortable range.`;
+};
+
+// What the interviewer noted during the call, tied to the numbered transcript turns.
+const buildLiveNotesPrompt = (events: InterviewEvent[], messages: InterviewMessage[]): string => {
+  const notes = events.flatMap(event => {
+    const index = eventMessageIndex(event, messages);
+    if (event.type === 'answerQuality' && index !== -1) return [`[${index}] rated ${event.score}/5: ${event.reason}`];
+    if (event.type === 'question' && index !== -1) return [`[${index}] asked a ${event.difficulty} question on ${event.topic}`];
+    return [];
+  });
+  if (notes.length === 0) return '';
+  return `
+
+    The interviewer's notes taken live during the interview:
+    ${notes.join('\n    ')}
+    Treat these as a second opinion: your answer reviews may differ, but explain any large disagreement in the critique.`;
+};
+
+// Code from the shared editor, timed against the transcript so the review can relate it to the spoken answers.
+const buildCodePrompt = (snapshots: CodeSnapshot[], messages: InterviewMessage[]): string => {
+  const reviewed = snapshotsForReview(snapshots);
+  if (reviewed.length === 0) return '';
+  const blocks = reviewed.map(s => {
+    const after = messages.filter(m => m.timestamp <= s.at).length - 1;
+    const when = s.trigger === 'submit' ? 'Submitted' : 'Final editor contents';
+    return `${when} (${CODE_LANGUAGES[s.language].label}${after >= 0 ? `, after turn [${after}]` : ''}):
+    \`\`\`${s.language}
+${s.code}
+    \`\`\``;
+  });
+  return `
+
+    The candidate also wrote code in a shared editor during the interview:
+    ${blocks.join('\n\n    ')}
+    Also provide a codeReview: a 0-100 score for the code's quality (correctness, edge cases, complexity, readability and naming), a one- or two-sentence summary, and short lists of strengths and issues. Weigh the code together with how the candidate explained it when scoring the competencies.`;
+};
+
+// One retry covers the occasional scorecard that leaves out a competency; a second miss is reported to the user.
+const FEEDBACK_ATTEMPTS = 2;
+
+const generateFeedback = async ({ messages, resumeData, gapAnalysis, format, language, delivery, events, codeSnapshots, whiteboard, presenceFrames, rubric }: FeedbackRequest): Promise<Assessment> => {
+  const ai = createClient();
+  // Turn numbers let the model point each answer review back at the message it is about.
+  const chatHistory = messages.map((m, i) => `[${i}] ${m.role.toUpperCase()}: ${m.text}`).join('\n');
+  const { label } = INTERVIEW_FORMATS[format];
+  const competencies = rubricCompetencies(rubric, format, presenceFrames.length > 0);
+  const roleFitPrompt = gapAnalysis ? `
+
+    The candidate interviewed for: ${gapAnalysis.roleTitle}.
+    Requirements met on paper: ${gapAnalysis.matchedSkills.join(', ')}.
+    Gaps against the posting: ${gapAnalysis.missingSkills.join(', ')}.
+    Also provide a roleFit assessment: a 0-100 score for how well the candidate fits this specific posting after the interview, a one-sentence verdict, and notes on which gaps they closed or confirmed during the conversation.` : '';
+
+  const prompt = `Analyze this ${label.toLowerCase()} interview transcript and provide a constructive performance review based on the candidate's resume.
+
+    Candidate Profile:
+    ${describeResume(resumeData).split('\n').join('\n    ')}
+    
+    Interview Transcript:
+    ${chatHistory}
+    
+    Provide a detailed assessment with a 0-100 score for each of these competencies. Use the anchors to place each score in its band, then refine it within the band; the overall score is computed from these, so do not give one.
+    ${competencies.map((c, i) => `${i + 1}. ${c.name}: ${c.description}
+       ${RUBRIC_LEVEL_ORDER.map(level => `${level} (${RUBRIC_LEVELS[level].min}-${RUBRIC_LEVELS[level].max}): ${c.anchors[level]}`).join('\n       ')}`).join('\n    ')}
+
+    Also review every USER turn that answers a question, one answerReviews item each: messageIndex is the [number] of that turn, score is 0-100 for that answer alone, critique is one or two sentences on what worked and what was missing, and suggestedAnswer is a concise, stronger version of the answer written in the candidate's voice and consistent with their background.${roleFitPrompt}${buildDeliveryPrompt(delivery)}${buildLiveNotesPrompt(events, messages)}${buildCodePrompt(codeSnapshots, messages)}${language === 'en' ? '' : `
+
+    The interview was held in ${LANGUAGES[language].englishName}. Write every free-text field (strengths, improvements, overallFeedback, competency descriptions, critiques, suggested answers, the role-fit verdict and notes, and the code review) in ${LANGUAGES[language].englishName}, but keep each competency name exactly as listed above.`}${whiteboard ? `
+
+    The ${presenceFrames.length > 0 ? 'first ' : ''}attached image is the candidate's final whiteboard diagram. Weigh it alongside what they said when scoring design and architecture, and mention in strengths or improvements anything notable it shows or leaves out.` : ''}${presenceFrames.length > 0 ? `
+
+    The ${whiteboard ? 'other ' : ''}${presenceFrames.length} attached images are stills from the candidate's camera, taken at intervals through the interview. Score the ${PRESENCE_COMPETENCY.name} competency from them: eye contact with the camera, posture and visible engagement. Judge only these behaviours; never comment on appearance, clothing, surroundings or anything personal.` : ''}`;
+
+  // Attached in the order the prompt describes them.
+  const images = [...(whiteboard ? [whiteboard] : []), ...presenceFrames];
+  const requestScorecard = async (): Promise<Assessment> => {
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: { parts: [{ text: prompt }, ...images.map(image => ({ inlineData: { data: image.data, mimeType: image.mimeType } }))] },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
+            improvements: { type: Type.ARRAY, items: { type: Type.STRING } },
+            overallFeedback: { type: Type.STRING },
+            competencies: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  name: { type: Type.STRING, enum: competencies.map(c => c.name) },
+                  score: { type: Type.NUMBER },
+                  description: { type: Type.STRING }
+                },
+                required: ["name", "score", "description"]
+              }
+            },
+            answerReviews: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  messageIndex: { type: Type.INTEGER },
+                  score: { type: Type.NUMBER },
+                  critique: { type: Type.STRING },
+                  suggestedAnswer: { type: Type.STRING }
+                },
+                required: ["messageIndex", "score", "critique", "suggestedAnswer"]
+              }
+            },
+            roleFit: {
+              type: Type.OBJECT,
+              properties: {
+                score: { type: Type.NUMBER },
+                verdict: { type: Type.STRING },
+                notes: { type: Type.ARRAY, items: { type: Type.STRING } }
+              },
+              required: ["score", "verdict", "notes"]
+            },
+            codeReview: {
+              type: Type.OBJECT,
+              properties: {
+                score: { type: Type.NUMBER },
+                summary: { type: Type.STRING },
+                strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
+                issues: { type: Type.ARRAY, items: { type: Type.STRING } }
+              },
+              required: ["score", "summary", "strengths", "issues"]
+            }
+          },
+          required: ["strengths", "improvements", "overallFeedback", "competencies", "answerReviews"]
+        }
+      }
+    });
+
+    const data: Assessment = JSON.parse(response.text || '{}');
+    // Drop reviews that point outside the transcript or at the interviewer's own turns.
+    const seen = new Set<number>();
+    data.answerReviews = (data.answerReviews || []).filter(r => {
+      if (messages[r.messageIndex]?.role !== 'user' || seen.has(r.messageIndex)) return false;
+      seen.add(r.messageIndex);
+      return true;
+    });
+    if (codeSnapshots.length === 0) delete data.codeReview;
+    return applyRubric(data, rubric.name, competencies);
+  };
+
+  // A scorecard that skips or repeats a competency is asked for again rather than throwing the interview's feedback away.
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await requestScorecard();
+    } catch (err) {
+      if (!(err instanceof ScorecardMismatchError) || attempt >= FEEDBACK_ATTEMPTS) throw err;
+      console.warn(`${err.message} Asking again.`);
+    }
+  }
+};
+
+const createChat = (systemInstruction: string): ChatSession => {
+  const chat = createClient().chats.create({
+    model: 'gemini-3-flash-preview',
+    config: { systemInstruction },
+  });
+  return {
+    sendMessage: async (text: string, image?: ImageFrame) => {
+      const response = await chat.sendMessage({
+        message: image ? [{ text }, { inlineData: { data: image.data, mimeType: image.mimeType } }] : text,
+      });
+      return response.text?.trim() || '';
+    },
   };
 };
+
+const connectLive = ({ systemInstruction, voiceName, language, callbacks }: LiveConnectOptions): Promise<LiveSession> => {
+  return createClient().live.connect({
+    model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+      },
+      systemInstruction,
+      tools: [{ functionDeclarations: INTERVIEW_TOOLS }],
+      outputAudioTranscription: { languageCodes: [LANGUAGES[language].locale] },
+      inputAudioTranscription: { languageCodes: [LANGUAGES[language].locale] },
+    },
+    callbacks,
+  });
+};
+
+export const geminiProvider: AIProvider = {
+  analyzeResume,
+  analyzeJobFit,
+  auditResume,
+  generateFeedback,
+  createChat,
+  connectLive,
+};
@@ -0,0 +1,86 @@
+import { InterviewSessionRecord } from "../types";
+import { DEFAULT_PERSONA } from "./interviewerPersonas";
+import { DEFAULT_LANGUAGE } from "../i18n/languages";
+import { withResumeDefaults } from "./resumeProfile";
+
+const DB_NAME = 'career-compass';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (!window.indexedDB) {
+      reject(new Error("Your browser does not support IndexedDB."));
+      return;
+    }
+
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        store.createIndex('completedAt', 'completedAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(SESSION_STORE, mode);
+    const request = operation(tx.objectStore(SESSION_STORE));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+  });
+};
+
+// Fills in fields added after a record was stored, so older history still opens.
+const upgradeRecord = (record: InterviewSessionRecord): InterviewSessionRecord => ({
+  ...record,
+  persona: record.persona ?? DEFAULT_PERSONA,
+  language: record.language ?? DEFAULT_LANGUAGE,
+  recording: record.recording ?? null,
+  delivery: record.delivery ?? null,
+  coverage: record.coverage ?? null,
+  events: record.events ?? [],
+  difficultyCurve: record.difficultyCurve ?? [],
+  codeSnapshots: record.codeSnapshots ?? [],
+  whiteboard: record.whiteboard ?? null,
+  drill: record.drill ?? null,
+  resumeData: withResumeDefaults(record.resumeData),
+});
+
+export const saveSession = async (record: InterviewSessionRecord): Promise<void> => {
+  await runRequest('readwrite', store => store.put(record));
+};
+
+export const getSession = async (id: string): Promise<InterviewSessionRecord | undefined> => {
+  const record = await runRequest<InterviewSessionRecord | undefined>('readonly', store => store.get(id));
+  return record && upgradeRecord(record);
+};
+
+// Oldest first, which is the order the progress charts plot in.
+export const listSessions = async (): Promise<InterviewSessionRecord[]> => {
+  const records = await runRequest<InterviewSessionRecord[]>('readonly', store => store.index('completedAt').getAll());
+  return records.map(upgradeRecord);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+export const createSessionId = (): string => {
+  return window.crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+};
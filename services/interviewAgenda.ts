@@ -0,0 +1,73 @@
+import { AgendaPhase, AgendaPhaseId } from "../types";
+
+export interface AgendaPhaseDefinition {
+  // English, for the prompts; the interface shows the agenda.phase.<id> catalog keys.
+  label: string;
+  goal: string;
+}
+
+export const AGENDA_PHASES: Record<AgendaPhaseId, AgendaPhaseDefinition> = {
+  intro: {
+    label: 'Introductions',
+    goal: 'Greet the candidate, introduce yourself and the shape of the interview, and put them at ease.',
+  },
+  resume: {
+    label: 'Resume Walkthrough',
+    goal: 'Have the candidate walk through their background and dig into one or two roles or projects from their resume.',
+  },
+  technical: {
+    label: 'Core Questions',
+    goal: 'The main body of the interview: questions in the style described under QUESTION STYLE.',
+  },
+  behavioral: {
+    label: 'Behavioral',
+    goal: 'Past-experience questions on ownership, collaboration and handling setbacks.',
+  },
+  candidateQuestions: {
+    label: 'Candidate Questions',
+    goal: 'Invite the candidate\'s questions about the role, team and company, and answer them briefly and plausibly.',
+  },
+  close: {
+    label: 'Close',
+    goal: 'Thank the candidate, explain that feedback follows, and deliver the closing line.',
+  },
+};
+
+export const DEFAULT_AGENDA: AgendaPhase[] = [
+  { id: 'intro', minutes: 2, enabled: true },
+  { id: 'resume', minutes: 5, enabled: true },
+  { id: 'technical', minutes: 10, enabled: true },
+  { id: 'behavioral', minutes: 6, enabled: true },
+  { id: 'candidateQuestions', minutes: 3, enabled: true },
+  { id: 'close', minutes: 1, enabled: true },
+];
+
+export const MIN_PHASE_MINUTES = 1;
+export const MAX_PHASE_MINUTES = 30;
+
+export const scheduledPhases = (agenda: AgendaPhase[]): AgendaPhase[] => agenda.filter(p => p.enabled);
+
+export const agendaMinutes = (agenda: AgendaPhase[]): number =>
+  scheduledPhases(agenda).reduce((total, p) => total + p.minutes, 0);
+
+export interface AgendaPosition {
+  // Index into scheduledPhases(agenda).
+  index: number;
+  phase: AgendaPhase;
+  phaseRemainingMs: number;
+  // True once the whole agenda's budget is used up; the position then stays on the last phase.
+  overtime: boolean;
+}
+
+export const locatePhase = (agenda: AgendaPhase[], elapsedMs: number): AgendaPosition | null => {
+  const phases = scheduledPhases(agenda);
+  if (phases.length === 0) return null;
+  let phaseEndMs = 0;
+  for (let index = 0; index < phases.length; index++) {
+    phaseEndMs += phases[index].minutes * 60000;
+    if (elapsedMs < phaseEndMs) {
+      return { index, phase: phases[index], phaseRemainingMs: phaseEndMs - elapsedMs, overtime: false };
+    }
+  }
+  return { index: phases.length - 1, phase: phases[phases.length - 1], phaseRemainingMs: 0, overtime: true };
+};
@@ -0,0 +1,230 @@
+import { InterviewFormat, RubricCompetency } from "../types";
+
+export interface InterviewFormatDefinition {
+  // English, for the prompts and exported reports; the interface shows the format.<id>.label catalog keys.
+  label: string;
+  opening: string;
+  questionStyle: string[];
+  closing: string;
+  // The built-in scoring rubric for the format; an imported rubric can replace it.
+  competencies: RubricCompetency[];
+}
+
+// Every closing ends with this phrase so the session can recognise the end of the conversation.
+export const COMPLETION_PHRASE = 'Interview complete.';
+
+export const isInterviewComplete = (text: string): boolean => /interview complete\b/i.test(text);
+
+export const INTERVIEW_FORMATS: Record<InterviewFormat, InterviewFormatDefinition> = {
+  [InterviewFormat.TECHNICAL]: {
+    label: 'Technical Deep-Dive',
+    opening: "Good day. I'm with CareerCompass AI. It's a pleasure to speak with you today. I've had a chance to review your profile and I'm looking forward to our discussion. To begin, how are you doing today?",
+    questionStyle: [
+      'Ask one nuanced technical question at a time, grounded in the candidate\'s listed skills.',
+      'Drill into implementation details: trade-offs, edge cases, debugging approach and performance.',
+      'When an answer stays high-level, ask for a concrete example from their own work.',
+    ],
+    closing: 'Thank you for the insightful conversation. This concludes our session. Interview complete.',
+    competencies: [
+      {
+        name: 'Technical Proficiency',
+        description: 'How well they demonstrated the skills from their resume.',
+        weight: 3,
+        anchors: {
+          weak: 'Stays at buzzword level or gets fundamentals of their listed skills wrong.',
+          solid: 'Explains how their main tools work and applies them correctly to typical problems.',
+          strong: 'Goes beyond usage into internals, trade-offs and pitfalls, backed by their own production experience.',
+        },
+      },
+      {
+        name: 'Communication',
+        description: 'Clarity, professional tone, and responsiveness.',
+        weight: 2,
+        anchors: {
+          weak: 'Rambles or answers a different question; the interviewer has to pull out the point.',
+          solid: 'Answers are clear and on topic, with the occasional detour.',
+          strong: 'Leads with the answer, structures the detail and checks they were understood.',
+        },
+      },
+      {
+        name: 'Resume Alignment',
+        description: 'How consistent their answers were with the provided background.',
+        weight: 2,
+        anchors: {
+          weak: 'Answers contradict the resume or cannot back up claims made there.',
+          solid: 'Answers broadly match the resume, with a few claims left vague.',
+          strong: 'Every claim probed is backed by specific, consistent detail from the work described.',
+        },
+      },
+      {
+        name: 'Problem Solving',
+        description: 'Their approach to technical or situational questions.',
+        weight: 3,
+        anchors: {
+          weak: 'Jumps to a fix without understanding the problem, or stalls without a plan.',
+          solid: 'Breaks the problem down and reaches a workable solution with some prompting.',
+          strong: 'Clarifies the problem, weighs options, tests assumptions and reaches a sound solution unaided.',
+        },
+      },
+    ],
+  },
+  [InterviewFormat.BEHAVIORAL]: {
+    label: 'Behavioral',
+    opening: "Hello, and thanks for making the time. I'm with CareerCompass AI. Today I'd like to hear about real situations from your career rather than hypotheticals. Before we start, how has your week been?",
+    questionStyle: [
+      'Ask "Tell me about a time when..." questions on ownership, conflict, failure, influence and delivery under pressure.',
+      'Probe every answer with the STAR method: make sure the Situation, Task, Action and Result are each covered, and ask directly for any part that is missing.',
+      'Push for the candidate\'s personal contribution ("What did you do?") rather than the team\'s, and for a measurable result.',
+    ],
+    closing: 'Thank you for sharing those experiences so openly. This concludes our session. Interview complete.',
+    competencies: [
+      {
+        name: 'Ownership',
+        description: 'Evidence of taking responsibility for outcomes and following through.',
+        weight: 3,
+        anchors: {
+          weak: 'Describes what happened to them or the team; deflects blame when things went wrong.',
+          solid: 'Owns their own tasks and follows through, mostly within what they were asked to do.',
+          strong: 'Takes responsibility beyond their remit, owns failures openly and shows what they changed afterwards.',
+        },
+      },
+      {
+        name: 'Collaboration',
+        description: 'How they work with, influence and resolve conflict with others.',
+        weight: 3,
+        anchors: {
+          weak: 'Avoids conflict or wins it at the expense of others; colleagues barely feature in their stories.',
+          solid: 'Works constructively with others and resolves disagreements with some help.',
+          strong: 'Brings people with them, resolves conflict directly and leaves working relationships stronger.',
+        },
+      },
+      {
+        name: 'Communication',
+        description: 'Clarity, structure and conciseness of their stories.',
+        weight: 2,
+        anchors: {
+          weak: 'Stories wander, lose the thread or run far too long.',
+          solid: 'Stories are easy to follow, if sometimes longer than needed.',
+          strong: 'Stories are tight and well paced, with the key point landing clearly.',
+        },
+      },
+      {
+        name: 'STAR Structure',
+        description: 'Whether answers covered situation, task, action and a measurable result.',
+        weight: 2,
+        anchors: {
+          weak: 'Answers are hypothetical or miss the action or the result entirely.',
+          solid: 'Covers situation, task and action, but results are vague or unmeasured.',
+          strong: 'Every answer covers all four parts, with a personal action and a measurable result.',
+        },
+      },
+    ],
+  },
+  [InterviewFormat.SYSTEM_DESIGN]: {
+    label: 'System Design',
+    opening: "Hi, I'm with CareerCompass AI. In this session we'll design a system together. There are no perfect answers; I'm interested in how you reason. Ready to dive in?",
+    questionStyle: [
+      'Pose a single open-ended design problem suited to the candidate\'s level and background, then let them drive.',
+      'Expect them to clarify requirements and estimate scale first; prompt for it if they skip ahead.',
+      'Progressively probe the data model, APIs, scaling bottlenecks, consistency, failure modes and observability.',
+      'Challenge each major decision by asking for an alternative and its trade-offs.',
+    ],
+    closing: 'Thanks for walking me through that design. This concludes our session. Interview complete.',
+    competencies: [
+      {
+        name: 'Requirements Gathering',
+        description: 'How well they clarified scope, constraints and scale before designing.',
+        weight: 2,
+        anchors: {
+          weak: 'Starts drawing boxes without asking what the system must do or at what scale.',
+          solid: 'Asks about the main features and rough scale before designing.',
+          strong: 'Pins down functional and non-functional requirements with estimates, and states assumptions explicitly.',
+        },
+      },
+      {
+        name: 'Architecture',
+        description: 'Soundness of the high-level design, components and data model.',
+        weight: 3,
+        anchors: {
+          weak: 'The design has missing pieces or components that do not fit together.',
+          solid: 'A workable high-level design with a reasonable data model and APIs.',
+          strong: 'A clean, coherent design where every component has a clear purpose and the data model fits the access patterns.',
+        },
+      },
+      {
+        name: 'Scalability & Reliability',
+        description: 'Handling of growth, bottlenecks and failure modes.',
+        weight: 3,
+        anchors: {
+          weak: 'Ignores growth and failure, or adds servers without saying where the bottleneck is.',
+          solid: 'Identifies the main bottleneck and adds caching, replication or sharding where it helps.',
+          strong: 'Anticipates bottlenecks and failure modes at each layer and designs for graceful degradation and observability.',
+        },
+      },
+      {
+        name: 'Trade-off Reasoning',
+        description: 'How clearly they weighed alternatives and justified decisions.',
+        weight: 2,
+        anchors: {
+          weak: 'Presents choices as the only option, or cannot say why they made them.',
+          solid: 'Names alternatives for major decisions and gives a reason for their choice.',
+          strong: 'Weighs alternatives against the requirements, quantifies costs and says what would change their mind.',
+        },
+      },
+    ],
+  },
+  [InterviewFormat.HR_SCREEN]: {
+    label: 'HR Screen',
+    opening: "Hi there, this is CareerCompass AI. Thanks for taking this call. I'd love to learn a bit about you and what you're looking for next. How are you today?",
+    questionStyle: [
+      'Keep the conversation light and brisk; aim for short exchanges rather than deep technical probing.',
+      'Cover the career story, motivation for a move, what they want in their next role, working style, and salary and availability expectations.',
+      'Listen for red flags such as unclear motivation or mismatched expectations, and ask a gentle follow-up when you hear one.',
+    ],
+    closing: "Thanks so much for your time today; it was great getting to know you. This concludes our session. Interview complete.",
+    competencies: [
+      {
+        name: 'Motivation',
+        description: 'How clearly they articulated why they want this move.',
+        weight: 3,
+        anchors: {
+          weak: 'Cannot say why they want to move, or only talks about leaving their current role.',
+          solid: 'Gives a believable reason for the move that roughly fits the role.',
+          strong: 'Gives a clear, positive reason for the move that connects their goals to this specific role.',
+        },
+      },
+      {
+        name: 'Culture Fit',
+        description: 'Alignment of working style and values with a professional team.',
+        weight: 2,
+        anchors: {
+          weak: 'Describes a working style or values likely to clash with a professional team.',
+          solid: 'Working style and values fit a typical professional team.',
+          strong: 'Shows self-awareness about how they work best and gives examples of adapting to different teams.',
+        },
+      },
+      {
+        name: 'Communication',
+        description: 'Clarity, warmth and professionalism on the call.',
+        weight: 2,
+        anchors: {
+          weak: 'Curt, unclear or unprofessional on the call.',
+          solid: 'Friendly, clear and professional throughout.',
+          strong: 'Warm and engaging, builds rapport quickly and keeps answers crisp.',
+        },
+      },
+      {
+        name: 'Career Narrative',
+        description: 'How coherent and compelling their career story was.',
+        weight: 3,
+        anchors: {
+          weak: 'The career story is hard to follow, with unexplained gaps or moves.',
+          solid: 'The career story hangs together, with moves explained when asked.',
+          strong: 'Tells a coherent, compelling story in which each move builds on the last and leads to this role.',
+        },
+      },
+    ],
+  },
+};
+
+export const DEFAULT_FORMAT = InterviewFormat.TECHNICAL;
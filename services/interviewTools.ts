@@ -0,0 +1,93 @@
+import { FunctionCall, FunctionDeclaration, Type } from "@google/genai";
+import { AgendaPhaseId, InterviewEvent, InterviewMessage, QuestionDifficulty } from "../types";
+import { AGENDA_PHASES } from "./interviewAgenda";
+
+const DIFFICULTIES: QuestionDifficulty[] = ['easy', 'medium', 'hard'];
+const PHASE_IDS = Object.keys(AGENDA_PHASES) as AgendaPhaseId[];
+
+// Declared on the live connection; the interviewer calls them silently alongside what it says.
+export const INTERVIEW_TOOLS: FunctionDeclaration[] = [
+  {
+    name: 'askQuestion',
+    description: 'Call right before asking each main interview question (not follow-ups or small talk).',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        topic: { type: Type.STRING, description: 'The skill or topic the question tests, e.g. "React" or "Conflict resolution".' },
+        difficulty: { type: Type.STRING, enum: DIFFICULTIES },
+        questionId: { type: Type.STRING, description: 'The id of the question plan entry being asked, if any.' },
+      },
+      required: ['topic', 'difficulty'],
+    },
+  },
+  {
+    name: 'noteAnswerQuality',
+    description: "Call once the candidate has finished answering a main question, to record your private assessment of that answer.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        score: { type: Type.INTEGER, description: '1 (poor) to 5 (excellent).' },
+        reason: { type: Type.STRING, description: 'One sentence on what made the answer strong or weak.' },
+      },
+      required: ['score', 'reason'],
+    },
+  },
+  {
+    name: 'advancePhase',
+    description: 'Call when you move the interview on to the next agenda phase.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        phase: { type: Type.STRING, enum: PHASE_IDS, description: 'The phase you are starting.' },
+      },
+      required: ['phase'],
+    },
+  },
+  {
+    name: 'endInterview',
+    description: 'Call right after delivering the closing line. The session ends once your audio has finished playing.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        reason: { type: Type.STRING, description: 'Why the interview is ending, e.g. "agenda complete" or "out of time".' },
+      },
+      required: ['reason'],
+    },
+  },
+];
+
+// Turns a tool call into an event, or null when the name or arguments are not ones we declared.
+export const toInterviewEvent = ({ name, args = {} }: FunctionCall, at: number): InterviewEvent | null => {
+  switch (name) {
+    case 'askQuestion': {
+      const difficulty = DIFFICULTIES.includes(args.difficulty as QuestionDifficulty) ? args.difficulty as QuestionDifficulty : 'medium';
+      if (typeof args.topic !== 'string') return null;
+      return { type: 'question', at, topic: args.topic, difficulty, ...(typeof args.questionId === 'string' && args.questionId ? { questionId: args.questionId } : {}) };
+    }
+    case 'noteAnswerQuality': {
+      const score = Number(args.score);
+      if (!Number.isFinite(score)) return null;
+      return { type: 'answerQuality', at, score: Math.min(5, Math.max(1, Math.round(score))), reason: String(args.reason ?? '') };
+    }
+    case 'advancePhase':
+      return PHASE_IDS.includes(args.phase as AgendaPhaseId) ? { type: 'phase', at, phase: args.phase as AgendaPhaseId } : null;
+    case 'endInterview':
+      return { type: 'end', at, reason: String(args.reason ?? '') };
+    default:
+      return null;
+  }
+};
+
+// A question is announced before it is spoken, so it belongs to the next interviewer turn to be committed;
+// an answer is rated after it started, so it belongs to the latest candidate turn that had begun by then.
+export const eventMessageIndex = (event: InterviewEvent, messages: InterviewMessage[]): number => {
+  if (event.type === 'question') {
+    return messages.findIndex(m => m.role === 'ai' && m.timestamp >= event.at);
+  }
+  if (event.type === 'answerQuality') {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].role === 'user' && (messages[i].startedAt ?? messages[i].timestamp) <= event.at) return i;
+    }
+  }
+  return -1;
+};
@@ -0,0 +1,82 @@
+import { InterviewerPersona, InterviewerRole, InterviewPacing, InterviewStrictness } from "../types";
+
+export interface VoiceOption {
+  name: string;
+  description: string;
+}
+
+// Prebuilt voices offered by the Live API.
+export const VOICES: VoiceOption[] = [
+  { name: 'Kore', description: 'Clear, firm and authoritative' },
+  { name: 'Charon', description: 'Calm, low and measured' },
+  { name: 'Fenrir', description: 'Energetic and direct' },
+  { name: 'Puck', description: 'Upbeat and conversational' },
+  { name: 'Aoede', description: 'Warm and relaxed' },
+  { name: 'Zephyr', description: 'Bright and friendly' },
+];
+
+export const INTERVIEWER_ROLES: Record<InterviewerRole, { label: string; persona: string }> = {
+  [InterviewerRole.RECRUITER]: {
+    label: 'Recruiter',
+    persona: 'a friendly, efficient Technical Recruiter who cares about motivation, communication and fit more than deep technical detail',
+  },
+  [InterviewerRole.PEER_ENGINEER]: {
+    label: 'Peer Engineer',
+    persona: 'a hands-on Senior Software Engineer on the team the candidate would join, who talks shop as a future colleague',
+  },
+  [InterviewerRole.DIRECTOR]: {
+    label: 'Engineering Director',
+    persona: 'a distinguished Senior Engineering Director and Technical Lead',
+  },
+  [InterviewerRole.VP]: {
+    label: 'VP of Engineering',
+    persona: 'a VP of Engineering who thinks about business impact, scope of ownership and leadership, and has little time for detail without context',
+  },
+};
+
+export const STRICTNESS_LEVELS: Record<InterviewStrictness, { label: string; instruction: string }> = {
+  supportive: {
+    label: 'Supportive',
+    instruction: 'Be encouraging. Give the candidate the benefit of the doubt, offer hints when they stall, and keep questions at or slightly below their stated level.',
+  },
+  balanced: {
+    label: 'Balanced',
+    instruction: 'Hold the bar a real interviewer at this company would hold, pitched at the candidate\'s stated level.',
+  },
+  demanding: {
+    label: 'Demanding',
+    instruction: 'Hold a high bar. Pitch questions slightly above the candidate\'s stated level, do not offer hints, and probe the weakest part of every answer.',
+  },
+};
+
+export const PACING_OPTIONS: Record<InterviewPacing, { label: string; instruction: string }> = {
+  relaxed: {
+    label: 'Relaxed',
+    instruction: 'Take your time. Leave generous pauses, and let the candidate think aloud without hurrying them.',
+  },
+  standard: {
+    label: 'Standard',
+    instruction: 'Keep a natural conversational pace.',
+  },
+  brisk: {
+    label: 'Brisk',
+    instruction: 'Keep the pace brisk: short acknowledgements, quick transitions, and cover as many questions as you can.',
+  },
+};
+
+export const DEFAULT_PERSONA: InterviewerPersona = {
+  voiceName: 'Kore',
+  role: InterviewerRole.DIRECTOR,
+  strictness: 'balanced',
+  pacing: 'standard',
+  pushBackOnVagueAnswers: true,
+};
+
+export const describePersona = (persona: InterviewerPersona): string => {
+  return [
+    INTERVIEWER_ROLES[persona.role].label,
+    STRICTNESS_LEVELS[persona.strictness].label,
+    `${PACING_OPTIONS[persona.pacing].label} pace`,
+    `Voice: ${persona.voiceName}`,
+  ].join(' · ');
+};
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FunctionCall, LiveServerMessage } from '@google/genai';
+import { InterviewFormat, InterviewMessage } from '../types';
+import { createPcmBlob, INPUT_SAMPLE_RATE } from '../utils/audioHelpers';
+import { getProvider, setProvider } from './aiProvider';
+import { createMockProvider, DEFAULT_MOCK_SCRIPT } from './mockProvider';
+import { BUILT_IN_RUBRIC } from './scoringRubric';
+
+// One second of silence per call; the mock only counts how much candidate audio arrived.
+const silence = createPcmBlob(new Int16Array(INPUT_SAMPLE_RATE));
+
+describe('mock provider', () => {
+  beforeEach(() => {
+    // Node has no CloseEvent; the mock only passes it through to onclose.
+    vi.stubGlobal('CloseEvent', class extends Event {});
+    setProvider(createMockProvider({ latencyMs: 0 }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('analyzes the resume from the script', async () => {
+    const resume = await getProvider().analyzeResume({ type: 'text', content: 'My resume' }, 'en');
+    expect(resume).toEqual({ ...DEFAULT_MOCK_SCRIPT.resume, rawText: 'My resume' });
+  });
+
+  it('replays the scripted live interview and scores it against the rubric', async () => {
+    const provider = getProvider();
+    const spoken: string[] = [''];
+    const heard: string[] = [];
+    const toolCalls: FunctionCall[] = [];
+    let opened = false;
+
+    const session = await provider.connectLive({
+      systemInstruction: '',
+      voiceName: 'Kore',
+      language: 'en',
+      callbacks: {
+        onopen: () => { opened = true; },
+        onmessage: (message: LiveServerMessage) => {
+          const content = message.serverContent;
+          if (content?.outputTranscription?.text) spoken[spoken.length - 1] += content.outputTranscription.text;
+          if (content?.turnComplete) spoken.push('');
+          if (content?.inputTranscription?.text) heard.push(content.inputTranscription.text);
+          toolCalls.push(...(message.toolCall?.functionCalls ?? []));
+        },
+      },
+    });
+
+    for (let turn = 0; turn < DEFAULT_MOCK_SCRIPT.candidateTurns.length; turn++) {
+      await vi.waitFor(() => expect(spoken.length).toBe(turn + 2));
+      for (let second = 0; second < 3; second++) session.sendRealtimeInput({ audio: silence });
+      await vi.waitFor(() => expect(heard.length).toBe(turn + 1));
+    }
+    await vi.waitFor(() => expect(spoken.length).toBe(DEFAULT_MOCK_SCRIPT.interviewerTurns.length + 1));
+    session.close();
+
+    expect(opened).toBe(true);
+    expect(spoken.slice(0, -1)).toEqual(DEFAULT_MOCK_SCRIPT.interviewerTurns);
+    expect(heard).toEqual(DEFAULT_MOCK_SCRIPT.candidateTurns);
+    expect(toolCalls.map(call => call.name)).toEqual(DEFAULT_MOCK_SCRIPT.interviewerToolCalls.flat().map(call => call.name));
+    expect(toolCalls.at(-1)?.name).toBe('endInterview');
+
+    const messages: InterviewMessage[] = DEFAULT_MOCK_SCRIPT.interviewerTurns.flatMap((text, i) => [
+      { role: 'ai' as const, text, timestamp: i * 2 },
+      ...(i < heard.length ? [{ role: 'user' as const, text: heard[i], timestamp: i * 2 + 1 }] : []),
+    ]);
+    const assessment = await provider.generateFeedback({
+      messages,
+      resumeData: { ...DEFAULT_MOCK_SCRIPT.resume, rawText: 'My resume' },
+      gapAnalysis: null,
+      format: InterviewFormat.TECHNICAL,
+      language: 'en',
+      delivery: null,
+      events: [],
+      codeSnapshots: [],
+      whiteboard: null,
+      presenceFrames: [],
+      rubric: BUILT_IN_RUBRIC,
+    });
+
+    expect(assessment.rubricName).toBe(BUILT_IN_RUBRIC.name);
+    expect(assessment.competencies.map(c => [c.name, c.score, c.weight])).toEqual([
+      ['Technical Proficiency', 80, 3],
+      ['Communication', 85, 2],
+      ['Resume Alignment', 75, 2],
+      ['Problem Solving', 72, 3],
+    ]);
+    // (80 * 3 + 85 * 2 + 75 * 2 + 72 * 3) / 10 = 77.6
+    expect(assessment.score).toBe(78);
+    expect(assessment.answerReviews?.map(r => r.messageIndex)).toEqual([1, 3, 5]);
+    expect(assessment.codeReview).toBeUndefined();
+  });
+
+  it('replies in chat with the scripted turns and score tags', async () => {
+    const chat = getProvider().createChat('');
+    const replies: string[] = [];
+    for (let i = 0; i < DEFAULT_MOCK_SCRIPT.interviewerTurns.length; i++) replies.push(await chat.sendMessage(`answer ${i}`));
+    expect(replies[0]).toBe(DEFAULT_MOCK_SCRIPT.interviewerTurns[0]);
+    expect(replies[2]).toBe(`[[score: 4]] ${DEFAULT_MOCK_SCRIPT.interviewerTurns[2]}`);
+  });
+});
@@ -0,0 +1,283 @@
+import { FunctionCall, LiveServerContent, LiveServerMessage } from "@google/genai";
+import { Assessment, GapAnalysis, ResumeAudit, ResumeData } from "../types";
+import { encode, INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE } from "../utils/audioHelpers";
+import { AIProvider, ChatSession, LiveConnectOptions, LiveSession } from "./aiProvider";
+import { PRESENCE_COMPETENCY } from "./cameraPresence";
+import { applyRubric, rubricCompetencies } from "./scoringRubric";
+
+export interface MockScript {
+  resume: Omit<ResumeData, 'rawText'>;
+  gapAnalysis: GapAnalysis;
+  audit: ResumeAudit;
+  assessment: Assessment;
+  // Spoken (voice) or sent (chat) by the interviewer, one entry per turn, in order.
+  interviewerTurns: string[];
+  // Tool calls made during each interviewer turn in voice mode, sent once that turn's audio has been sent.
+  interviewerToolCalls: FunctionCall[][];
+  // Replayed as input transcription after each interviewer turn in voice mode.
+  candidateTurns: string[];
+  // Delay before each scripted response, so loading states are visible during development.
+  latencyMs: number;
+}
+
+export const DEFAULT_MOCK_SCRIPT: MockScript = {
+  resume: {
+    skills: ['TypeScript', 'React', 'Node.js', 'PostgreSQL', 'System Design', 'Mentoring'],
+    summary: 'Full-stack engineer with six years of experience shipping customer-facing web products.',
+    experienceLevel: 'Senior',
+    skillYears: { TypeScript: 5, React: 6, 'Node.js': 4, PostgreSQL: 4 },
+    workHistory: [
+      {
+        title: 'Senior Software Engineer',
+        company: 'Northwind Commerce',
+        startDate: '2021',
+        endDate: '',
+        highlights: ['Led the React and TypeScript rebuild of the checkout flow', 'Mentored three junior engineers'],
+      },
+      {
+        title: 'Software Engineer',
+        company: 'Brightlane',
+        startDate: '2018',
+        endDate: '2021',
+        highlights: ['Built Node.js services backing the customer dashboard'],
+      },
+    ],
+    projects: [
+      { name: 'Checkout rebuild', description: 'Replaced a legacy checkout with a modular React app.', technologies: ['React', 'TypeScript'] },
+    ],
+    education: [{ institution: 'University of Leeds', degree: 'BSc Computer Science', year: '2018' }],
+    certifications: [],
+  },
+  gapAnalysis: {
+    roleTitle: 'Senior Frontend Engineer',
+    matchedSkills: ['TypeScript', 'React'],
+    missingSkills: ['GraphQL', 'Accessibility auditing'],
+    overQualifiedAreas: ['Backend services'],
+    focusAreas: ['GraphQL', 'Accessibility', 'Design systems'],
+  },
+  audit: {
+    targetRole: 'Senior Frontend Engineer',
+    keywordScore: 68,
+    matchedKeywords: ['TypeScript', 'React', 'Node.js', 'Mentoring'],
+    missingKeywords: ['GraphQL', 'Accessibility', 'Design systems', 'Performance budgets'],
+    formattingWarnings: ['Dates use two different formats; pick one, e.g. "Mar 2021".'],
+    lengthWarnings: [],
+    weakBullets: [
+      {
+        original: 'Mentored three junior engineers',
+        issue: 'Says what you did but not what changed because of it.',
+        rewrite: 'Mentored three junior engineers through weekly pairing, cutting their time to first production release by [X] weeks.',
+      },
+    ],
+    missingSections: ['Certifications'],
+    summary: 'A clear, well-structured resume. Add the missing frontend keywords and quantify outcomes to pass keyword filters for this role.',
+  },
+  assessment: {
+    strengths: ['Clear, well-structured answers', 'Concrete examples from recent projects'],
+    improvements: ['Quantify the impact of your work', 'Discuss trade-offs before committing to a design'],
+    score: 78,
+    overallFeedback: 'A solid, well-communicated interview. Lead with measurable outcomes to stand out further.',
+    competencies: [
+      { name: 'Technical Proficiency', score: 80, description: 'Confident with the core stack.' },
+      { name: 'Communication', score: 85, description: 'Concise and easy to follow.' },
+      { name: 'Resume Alignment', score: 75, description: 'Answers matched the stated background.' },
+      { name: 'Problem Solving', score: 72, description: 'Reasonable approach, light on alternatives.' },
+    ],
+  },
+  interviewerTurns: [
+    "Good day. I'm with CareerCompass AI, and I'll be your Engineering Director today. It's a pleasure to speak with you today. To begin, how are you doing today?",
+    "Glad to hear it. Tell me about a recent project you're proud of and the role you played in it.",
+    "That's a nuanced perspective. How did you measure whether it was successful?",
+    "Thank you for the insightful conversation. This concludes our session. Interview complete.",
+  ],
+  interviewerToolCalls: [
+    [{ name: 'advancePhase', args: { phase: 'intro' } }],
+    [
+      { name: 'advancePhase', args: { phase: 'resume' } },
+      { name: 'askQuestion', args: { topic: 'Project ownership', difficulty: 'medium', questionId: 'behavioral-failure' } },
+    ],
+    [
+      { name: 'noteAnswerQuality', args: { score: 4, reason: 'Clear ownership of a relevant, recent project.' } },
+      { name: 'askQuestion', args: { topic: 'Measuring impact', difficulty: 'medium' } },
+    ],
+    [
+      { name: 'noteAnswerQuality', args: { score: 3, reason: 'Gave a metric but little on how it was measured.' } },
+      { name: 'advancePhase', args: { phase: 'close' } },
+      { name: 'endInterview', args: { reason: 'agenda complete' } },
+    ],
+  ],
+  candidateTurns: [
+    "I'm doing well, thanks for having me.",
+    "I led the rebuild of our checkout flow in React and TypeScript, from design through rollout.",
+    "We tracked conversion and error rates, and conversion went up by about eight percent.",
+  ],
+  latencyMs: 400,
+};
+
+// How much candidate audio (in seconds) must arrive before the mock "hears" an answer.
+const ANSWER_SECONDS = 3;
+
+// A soft, deterministic tone standing in for the interviewer's voice: roughly 0.3s per word.
+const synthesizeSpeech = (text: string): string => {
+  const words = Math.max(1, text.trim().split(/\s+/).length);
+  const frameCount = Math.round(words * 0.3 * OUTPUT_SAMPLE_RATE);
+  const pcm = new Int16Array(frameCount);
+  for (let i = 0; i < frameCount; i++) {
+    const t = i / OUTPUT_SAMPLE_RATE;
+    const envelope = 0.5 - 0.5 * Math.cos(2 * Math.PI * 3 * t);
+    pcm[i] = Math.round(Math.sin(2 * Math.PI * 220 * t) * envelope * 0.15 * 32767);
+  }
+  return encode(new Uint8Array(pcm.buffer));
+};
+
+const toMessage = (serverContent: LiveServerContent): LiveServerMessage => {
+  return Object.assign(new LiveServerMessage(), { serverContent });
+};
+
+const toToolCallMessage = (functionCalls: FunctionCall[]): LiveServerMessage => {
+  return Object.assign(new LiveServerMessage(), { toolCall: { functionCalls } });
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createMockProvider = (overrides: Partial<MockScript> = {}): AIProvider => {
+  const script: MockScript = { ...DEFAULT_MOCK_SCRIPT, ...overrides };
+
+  const createChat = (): ChatSession => {
+    let turn = 0;
+    return {
+      sendMessage: async () => {
+        await wait(script.latencyMs);
+        const index = Math.min(turn, script.interviewerTurns.length - 1);
+        turn++;
+        // Chat has no tool calls, so the scripted rating travels as the score tag a real interviewer would write.
+        const rating = script.interviewerToolCalls[index]?.find(call => call.name === 'noteAnswerQuality');
+        return `${rating ? `[[score: ${rating.args?.score}]] ` : ''}${script.interviewerTurns[index]}`;
+      },
+    };
+  };
+
+  const connectLive = async ({ callbacks }: LiveConnectOptions): Promise<LiveSession> => {
+    let closed = false;
+    let turn = 0;
+    let awaitingAnswer = false;
+    let receivedBytes = 0;
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+
+    const schedule = (fn: () => void, ms: number) => {
+      const id = setTimeout(() => {
+        timers.delete(id);
+        if (!closed) fn();
+      }, ms);
+      timers.add(id);
+    };
+
+    const speak = (text: string) => {
+      // Transcription arrives ahead of each audio chunk, as it does from the live API.
+      const words = text.split(' ');
+      for (let i = 0; i < words.length; i += 6) {
+        const chunk = words.slice(i, i + 6).join(' ') + (i + 6 < words.length ? ' ' : '');
+        callbacks.onmessage(toMessage({ outputTranscription: { text: chunk } }));
+        callbacks.onmessage(toMessage({
+          modelTurn: { parts: [{ inlineData: { data: synthesizeSpeech(chunk), mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}` } }] },
+        }));
+      }
+      callbacks.onmessage(toMessage({ turnComplete: true }));
+    };
+
+    const nextTurn = () => {
+      if (turn >= script.interviewerTurns.length) return;
+      speak(script.interviewerTurns[turn]);
+      const calls = script.interviewerToolCalls[turn] ?? [];
+      if (calls.length > 0) {
+        callbacks.onmessage(toToolCallMessage(calls.map((call, i) => ({ ...call, id: `mock-${turn}-${i}` }))));
+      }
+      turn++;
+      awaitingAnswer = turn < script.interviewerTurns.length;
+      receivedBytes = 0;
+    };
+
+    const answer = (text: string) => {
+      awaitingAnswer = false;
+      schedule(() => {
+        callbacks.onmessage(toMessage({ inputTranscription: { text } }));
+        schedule(nextTurn, script.latencyMs);
+      }, script.latencyMs);
+    };
+
+    schedule(() => {
+      callbacks.onopen?.();
+      schedule(nextTurn, script.latencyMs);
+    }, script.latencyMs);
+
+    return {
+      sendRealtimeInput: (params) => {
+        if (!awaitingAnswer || closed) return;
+        const data = params.audio?.data ?? (params.media as { data?: string } | undefined)?.data;
+        if (data) {
+          // base64 -> byte count; 16-bit mono PCM at the input rate.
+          receivedBytes += Math.floor(data.length * 3 / 4);
+          if (receivedBytes >= ANSWER_SECONDS * INPUT_SAMPLE_RATE * 2) {
+            answer(script.candidateTurns[turn - 1] ?? '');
+          }
+        }
+      },
+      sendClientContent: (params) => {
+        // Context-only content (such as agenda notes) never counts as the candidate's answer.
+        if (!awaitingAnswer || closed || params.turnComplete === false) return;
+        awaitingAnswer = false;
+        schedule(nextTurn, script.latencyMs);
+      },
+      // Every call is acknowledged by the client; the script does not depend on the responses.
+      sendToolResponse: () => {},
+      close: () => {
+        if (closed) return;
+        closed = true;
+        timers.forEach(id => clearTimeout(id));
+        timers.clear();
+        callbacks.onclose?.(new CloseEvent('close'));
+      },
+    };
+  };
+
+  return {
+    analyzeResume: async (input) => {
+      await wait(script.latencyMs);
+      return { ...script.resume, rawText: input.type === 'text' ? input.content : `File: ${input.fileName}` };
+    },
+    analyzeJobFit: async () => {
+      await wait(script.latencyMs);
+      return script.gapAnalysis;
+    },
+    auditResume: async () => {
+      await wait(script.latencyMs);
+      return script.audit;
+    },
+    generateFeedback: async ({ messages, format, codeSnapshots, presenceFrames, rubric }) => {
+      await wait(script.latencyMs);
+      const definitions = rubricCompetencies(rubric, format, presenceFrames.length > 0);
+      const scripted = [...script.assessment.competencies, { name: PRESENCE_COMPETENCY.name, score: 78, description: 'Steady eye contact and an open posture; glanced away while thinking.' }];
+      // Scored through the same rubric check as a real model; competencies the script does not know get a middling score.
+      return applyRubric({
+        ...script.assessment,
+        competencies: definitions.map(c => scripted.find(s => s.name === c.name) ?? { name: c.name, score: 70, description: 'Solid overall, with room for more specific examples.' }),
+        ...(codeSnapshots.length > 0 ? {
+          codeReview: {
+            score: 68,
+            summary: 'Works for the common case; edge cases and naming need another pass.',
+            strengths: ['Straightforward structure that is easy to follow.'],
+            issues: ['Empty input is not handled.', 'Single-letter variable names hide intent.'],
+          },
+        } : {}),
+        answerReviews: messages.flatMap((m, messageIndex) => m.role === 'user' ? [{
+          messageIndex,
+          score: 70,
+          critique: 'Clear and on topic; add a concrete, measurable outcome.',
+          suggestedAnswer: `${m.text} As a result, we measurably improved the outcome for our users.`,
+        }] : []),
+      }, rubric.name, definitions);
+    },
+    createChat,
+    connectLive,
+  };
+};
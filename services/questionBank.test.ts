@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_QUESTION_BANK, QuestionBankImportError, parseQuestionBank, toQuestionBankJson } from './questionBank';
+
+const edited = (patch: (data: any) => void): string => {
+  const data = JSON.parse(toQuestionBankJson(DEFAULT_QUESTION_BANK));
+  patch(data);
+  return JSON.stringify(data);
+};
+
+const rejection = (json: string) => {
+  try {
+    parseQuestionBank(json);
+    return null;
+  } catch (err) {
+    return err instanceof QuestionBankImportError ? { problem: err.problem, question: err.question } : 'unexpected';
+  }
+};
+
+describe('parseQuestionBank', () => {
+  it('accepts an exported bank', () => {
+    expect(parseQuestionBank(toQuestionBankJson(DEFAULT_QUESTION_BANK))).toEqual(DEFAULT_QUESTION_BANK);
+  });
+
+  it('reports why a file was rejected', () => {
+    expect(rejection('{')).toEqual({ problem: 'json', question: undefined });
+    expect(rejection('{"kind":"career-compass-report"}')).toMatchObject({ problem: 'kind' });
+    expect(rejection(edited(data => { data.schemaVersion = 99; }))).toMatchObject({ problem: 'version' });
+    expect(rejection(edited(data => { data.questions = []; }))).toMatchObject({ problem: 'empty' });
+    expect(rejection(edited(data => { data.questions[1].id = data.questions[0].id; }))).toMatchObject({ problem: 'duplicateId' });
+  });
+
+  it('names the first invalid question', () => {
+    expect(rejection(edited(data => { data.questions[2].difficulty = 'impossible'; }))).toEqual({ problem: 'question', question: 3 });
+    expect(rejection(edited(data => { data.questions[0].formats = ['toString']; }))).toEqual({ problem: 'question', question: 1 });
+  });
+});
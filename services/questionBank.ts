@@ -0,0 +1,319 @@
+import { BankQuestion, InterviewEvent, InterviewFormat, InterviewMessage, QuestionBank, QuestionCoverage, QuestionDifficulty, ResumeData } from "../types";
+import { eventMessageIndex } from "./interviewTools";
+
+// Bank files carry the same kind/version header as exported reports, so a stray file is rejected early.
+export const QUESTION_BANK_KIND = 'career-compass-question-bank';
+export const QUESTION_BANK_SCHEMA_VERSION = 1;
+
+const STORAGE_KEY = 'career-compass.questionBank';
+const DIFFICULTIES: QuestionDifficulty[] = ['easy', 'medium', 'hard'];
+
+// How many bank questions a session plans for; the interviewer improvises follow-ups around them.
+export const QUESTIONS_PER_SESSION = 6;
+
+const { TECHNICAL, BEHAVIORAL, SYSTEM_DESIGN, HR_SCREEN } = InterviewFormat;
+
+export const DEFAULT_QUESTION_BANK: QuestionBank = {
+  name: 'CareerCompass Starter Bank',
+  questions: [
+    {
+      id: 'ts-type-narrowing',
+      text: 'How do you use the TypeScript type system to make invalid states unrepresentable in your code?',
+      skills: ['TypeScript'],
+      difficulty: 'medium',
+      formats: [TECHNICAL],
+      keyPoints: ['Discriminated unions', 'Narrowing with type guards', 'Avoiding any and unchecked casts'],
+      followUps: ['When have strict types slowed you down, and what did you do about it?'],
+    },
+    {
+      id: 'ts-generics-api',
+      text: 'Walk me through designing a generic, type-safe API in TypeScript that other teams consume.',
+      skills: ['TypeScript'],
+      difficulty: 'hard',
+      formats: [TECHNICAL],
+      keyPoints: ['Generic constraints', 'Inference for callers', 'Versioning and breaking changes'],
+      followUps: ['How do you keep the types readable for consumers?'],
+    },
+    {
+      id: 'js-event-loop',
+      text: 'Explain how the JavaScript event loop decides what runs next, and a bug you have seen because of it.',
+      skills: ['JavaScript', 'Node.js'],
+      difficulty: 'medium',
+      formats: [TECHNICAL],
+      keyPoints: ['Call stack, task and microtask queues', 'Promises versus timers', 'A concrete ordering bug'],
+      followUps: ['How would you find a long task blocking the main thread?'],
+    },
+    {
+      id: 'react-rerenders',
+      text: 'A React screen has become slow to respond. How do you find and fix unnecessary re-renders?',
+      skills: ['React'],
+      difficulty: 'medium',
+      formats: [TECHNICAL],
+      keyPoints: ['Profiling before optimizing', 'State placement and memoization', 'Stable props and keys'],
+      followUps: ['When is memoization not worth it?'],
+    },
+    {
+      id: 'react-state-architecture',
+      text: 'How do you decide where state should live in a large React application?',
+      skills: ['React'],
+      difficulty: 'hard',
+      formats: [TECHNICAL, SYSTEM_DESIGN],
+      keyPoints: ['Local versus shared state', 'Server cache versus client state', 'Trade-offs of global stores'],
+      followUps: ['Tell me about a state decision you later regretted.'],
+    },
+    {
+      id: 'node-scaling',
+      text: 'How would you keep a Node.js service responsive under heavy CPU-bound load?',
+      skills: ['Node.js'],
+      difficulty: 'hard',
+      formats: [TECHNICAL, SYSTEM_DESIGN],
+      keyPoints: ['Single-threaded event loop limits', 'Worker threads or offloading', 'Horizontal scaling and back-pressure'],
+      followUps: ['How would you notice the problem in production first?'],
+    },
+    {
+      id: 'python-performance',
+      text: 'Tell me about a time you made slow Python code fast. What did you measure and what changed?',
+      skills: ['Python'],
+      difficulty: 'medium',
+      formats: [TECHNICAL],
+      keyPoints: ['Profiling first', 'Algorithmic versus constant-factor fixes', 'Vectorization, caching or native code'],
+      followUps: ['How did you keep the optimized code maintainable?'],
+    },
+    {
+      id: 'sql-query-tuning',
+      text: 'A query that used to take milliseconds now takes seconds. How do you investigate?',
+      skills: ['SQL', 'PostgreSQL', 'MySQL'],
+      difficulty: 'medium',
+      formats: [TECHNICAL],
+      keyPoints: ['Reading the query plan', 'Indexes and selectivity', 'Data growth and statistics'],
+      followUps: ['When would you denormalize instead?'],
+    },
+    {
+      id: 'testing-strategy',
+      text: 'How do you decide what to cover with unit, integration and end-to-end tests?',
+      skills: ['Testing', 'TypeScript', 'JavaScript', 'Python', 'Java'],
+      difficulty: 'easy',
+      formats: [TECHNICAL],
+      keyPoints: ['Cost and speed of each layer', 'Testing behaviour over implementation', 'Handling flaky tests'],
+      followUps: ['What is a bug your tests missed, and why?'],
+    },
+    {
+      id: 'cloud-outage',
+      text: 'Describe how you would design a service on AWS to survive the loss of an availability zone.',
+      skills: ['AWS', 'Cloud', 'System Design'],
+      difficulty: 'hard',
+      formats: [SYSTEM_DESIGN, TECHNICAL],
+      keyPoints: ['Multi-AZ deployment', 'Stateless compute and replicated data', 'Health checks and failover testing'],
+      followUps: ['What would you accept losing to keep costs down?'],
+    },
+    {
+      id: 'design-url-shortener',
+      text: 'Design a URL shortener that handles a hundred million redirects a day.',
+      skills: ['System Design'],
+      difficulty: 'medium',
+      formats: [SYSTEM_DESIGN],
+      keyPoints: ['Capacity estimates', 'Key generation and collisions', 'Caching hot links', 'Analytics without slowing redirects'],
+      followUps: ['How does the design change if links must expire?'],
+    },
+    {
+      id: 'design-notifications',
+      text: 'Design a notification system that sends email, SMS and push messages reliably.',
+      skills: ['System Design', 'Node.js', 'AWS'],
+      difficulty: 'hard',
+      formats: [SYSTEM_DESIGN],
+      keyPoints: ['Queues and retries', 'Idempotency and deduplication', 'Per-channel rate limits', 'User preferences'],
+      followUps: ['How would you stop a bug from spamming every user?'],
+    },
+    {
+      id: 'behavioral-conflict',
+      text: 'Tell me about a time you disagreed with a teammate on a technical decision. How was it resolved?',
+      skills: ['Communication', 'Teamwork'],
+      difficulty: 'easy',
+      formats: [BEHAVIORAL, HR_SCREEN],
+      keyPoints: ['Situation and stakes', 'How they listened and argued', 'Outcome and what they learned'],
+      followUps: ['Looking back, would you change anything?'],
+    },
+    {
+      id: 'behavioral-failure',
+      text: 'Tell me about a project that did not go as planned. What was your part in it?',
+      skills: [],
+      difficulty: 'medium',
+      formats: [BEHAVIORAL],
+      keyPoints: ['Honest ownership', 'Concrete actions taken', 'Changes made afterwards'],
+      followUps: ['How did you communicate the problem to stakeholders?'],
+    },
+    {
+      id: 'behavioral-mentoring',
+      text: 'Describe someone you mentored. How did you adapt your approach to them?',
+      skills: ['Mentoring', 'Leadership'],
+      difficulty: 'medium',
+      formats: [BEHAVIORAL],
+      keyPoints: ['Understanding their goals', 'Specific techniques used', 'Measurable growth'],
+      followUps: ['What did you learn from them?'],
+    },
+    {
+      id: 'behavioral-influence',
+      text: 'Tell me about a time you changed the direction of a team or organisation without formal authority.',
+      skills: ['Leadership'],
+      difficulty: 'hard',
+      formats: [BEHAVIORAL],
+      keyPoints: ['Building the case with data', 'Winning allies', 'Handling resistance', 'Lasting result'],
+      followUps: ['What would you have done if it had not worked?'],
+    },
+    {
+      id: 'hr-motivation',
+      text: 'What are you looking for in your next role that you do not have today?',
+      skills: [],
+      difficulty: 'easy',
+      formats: [HR_SCREEN],
+      keyPoints: ['Clear, positive motivation', 'Fit with the role', 'No criticism of the current employer'],
+      followUps: ['What would make you turn an offer down?'],
+    },
+    {
+      id: 'hr-pressure',
+      text: 'How do you handle several urgent requests landing at the same time?',
+      skills: ['Communication'],
+      difficulty: 'easy',
+      formats: [HR_SCREEN, BEHAVIORAL],
+      keyPoints: ['Prioritisation method', 'Setting expectations', 'A real example'],
+      followUps: ['When did you have to say no?'],
+    },
+  ],
+};
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const isBankQuestion = (q: any): q is BankQuestion =>
+  typeof q?.id === 'string' && q.id.length > 0 &&
+  typeof q.text === 'string' && q.text.length > 0 &&
+  isStringArray(q.skills) &&
+  DIFFICULTIES.includes(q.difficulty) &&
+  (q.formats === undefined || (Array.isArray(q.formats) && q.formats.every((f: unknown) => Object.values(InterviewFormat).includes(f as InterviewFormat)))) &&
+  isStringArray(q.keyPoints) &&
+  isStringArray(q.followUps);
+
+// Why an import was rejected, so the settings panel can explain it in the interface language.
+export type QuestionBankImportProblem = 'json' | 'kind' | 'version' | 'empty' | 'question' | 'duplicateId';
+
+export class QuestionBankImportError extends Error {
+  // `question` is the 1-based position of the offending question, set for the 'question' problem.
+  constructor(public readonly problem: QuestionBankImportProblem, message: string, public readonly question?: number) {
+    super(message);
+    this.name = 'QuestionBankImportError';
+  }
+}
+
+export const parseQuestionBank = (json: string): QuestionBank => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new QuestionBankImportError('json', "This file is not valid JSON.");
+  }
+  if (data?.kind !== QUESTION_BANK_KIND) {
+    throw new QuestionBankImportError('kind', "This file is not a CareerCompass question bank.");
+  }
+  if (typeof data.schemaVersion !== 'number' || data.schemaVersion > QUESTION_BANK_SCHEMA_VERSION) {
+    throw new QuestionBankImportError('version', "This question bank was made for a newer version of CareerCompass. Please update and try again.");
+  }
+  if (typeof data.name !== 'string' || !Array.isArray(data.questions) || data.questions.length === 0) {
+    throw new QuestionBankImportError('empty', "A question bank needs a name and at least one question.");
+  }
+  const invalid = data.questions.findIndex((q: unknown) => !isBankQuestion(q));
+  if (invalid !== -1) {
+    throw new QuestionBankImportError('question', `Question ${invalid + 1} is missing a field or has an invalid difficulty or format.`, invalid + 1);
+  }
+  const ids = new Set(data.questions.map((q: BankQuestion) => q.id));
+  if (ids.size !== data.questions.length) {
+    throw new QuestionBankImportError('duplicateId', "Every question needs a unique id.");
+  }
+  return { name: data.name, questions: data.questions };
+};
+
+export const toQuestionBankJson = (bank: QuestionBank): string =>
+  JSON.stringify({ kind: QUESTION_BANK_KIND, schemaVersion: QUESTION_BANK_SCHEMA_VERSION, ...bank }, null, 2);
+
+// An imported bank is kept in the browser so the team's questions survive reloads.
+export const loadQuestionBank = (): QuestionBank => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? parseQuestionBank(stored) : DEFAULT_QUESTION_BANK;
+  } catch {
+    return DEFAULT_QUESTION_BANK;
+  }
+};
+
+export const saveQuestionBank = (bank: QuestionBank) => {
+  try {
+    if (bank === DEFAULT_QUESTION_BANK) {
+      window.localStorage.removeItem(STORAGE_KEY);
+    } else {
+      window.localStorage.setItem(STORAGE_KEY, toQuestionBankJson(bank));
+    }
+  } catch {
+    // Storage can be unavailable; the bank still applies for this visit.
+  }
+};
+
+const normalizeSkill = (skill: string) => skill.toLowerCase().replace(/[^\p{L}\p{N}+#]/gu, '');
+
+const targetDifficulty = (experienceLevel: string): QuestionDifficulty => {
+  const level = experienceLevel.toLowerCase();
+  if (level.includes('entry') || level.includes('junior')) return 'easy';
+  if (level.includes('senior') || level.includes('executive') || level.includes('lead')) return 'hard';
+  return 'medium';
+};
+
+// Questions on the candidate's skills come first, nearest their level first, spreading across as many skills as possible.
+export const selectQuestions = (bank: QuestionBank, resume: ResumeData, format: InterviewFormat, limit = QUESTIONS_PER_SESSION): BankQuestion[] => {
+  const resumeSkills = new Set(resume.skills.map(normalizeSkill));
+  const target = DIFFICULTIES.indexOf(targetDifficulty(resume.experienceLevel));
+
+  const candidates = bank.questions
+    .filter(q => !q.formats || q.formats.includes(format))
+    .map(q => {
+      const matched = q.skills.filter(s => resumeSkills.has(normalizeSkill(s)));
+      return { question: q, matched, score: matched.length * 3 - Math.abs(DIFFICULTIES.indexOf(q.difficulty) - target) };
+    })
+    // Untagged questions suit anyone; tagged ones only when the candidate has one of the skills.
+    .filter(c => c.matched.length > 0 || c.question.skills.length === 0)
+    .sort((a, b) => b.score - a.score);
+
+  const picked: BankQuestion[] = [];
+  const covered = new Set<string>();
+  for (const c of candidates) {
+    if (picked.length === limit) break;
+    if (c.matched.some(s => !covered.has(normalizeSkill(s))) || c.question.skills.length === 0) {
+      picked.push(c.question);
+      c.matched.forEach(s => covered.add(normalizeSkill(s)));
+    }
+  }
+  for (const c of candidates) {
+    if (picked.length === limit) break;
+    if (!picked.includes(c.question)) picked.push(c.question);
+  }
+  return picked;
+};
+
+const contentWords = (text: string) =>
+  new Set((text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(w => w.length > 3));
+
+// Share of a question's content words that must appear in one interviewer turn to count it as asked.
+const ASKED_OVERLAP = 0.5;
+
+// A voice interviewer names the plan entry it asks through the askQuestion tool. Otherwise (text chat, or a
+// question asked without the tool) the interviewer paraphrases, so a question counts as asked when one of its
+// turns shares most of the question's content words; interviews in other languages are rarely matched that way.
+export const trackCoverage = (bank: QuestionBank, planned: BankQuestion[], messages: InterviewMessage[], events: InterviewEvent[] = []): QuestionCoverage => {
+  const turns = messages.map((m, index) => ({ index, words: m.role === 'ai' ? contentWords(m.text) : null }));
+  const asked = planned.flatMap(q => {
+    const event = events.find(e => e.type === 'question' && e.questionId === q.id);
+    const announced = event ? eventMessageIndex(event, messages) : -1;
+    if (announced !== -1) return [{ questionId: q.id, messageIndex: announced }];
+    const words = [...contentWords(q.text)];
+    if (words.length === 0) return [];
+    const turn = turns.find(t => t.words && words.filter(w => t.words!.has(w)).length / words.length >= ASKED_OVERLAP);
+    return turn ? [{ questionId: q.id, messageIndex: turn.index }] : [];
+  });
+  return { bankName: bank.name, planned, asked };
+};
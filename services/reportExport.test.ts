@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { InterviewFormat, InterviewMessage } from '../types';
+import { computeDelivery } from './deliveryAnalytics';
+import { DEFAULT_PERSONA } from './interviewerPersonas';
+import { DEFAULT_MOCK_SCRIPT } from './mockProvider';
+import { DEFAULT_QUESTION_BANK } from './questionBank';
+import { buildReport, parseReport, ReportImportError, toJson } from './reportExport';
+
+const messages: InterviewMessage[] = [
+  { role: 'ai', text: DEFAULT_MOCK_SCRIPT.interviewerTurns[0], timestamp: 1 },
+  { role: 'user', text: `Um, ${DEFAULT_MOCK_SCRIPT.candidateTurns[0]}`, timestamp: 2 },
+];
+
+const report = buildReport({
+  format: InterviewFormat.BEHAVIORAL,
+  persona: DEFAULT_PERSONA,
+  language: 'en',
+  resumeData: { ...DEFAULT_MOCK_SCRIPT.resume, rawText: '' },
+  gapAnalysis: DEFAULT_MOCK_SCRIPT.gapAnalysis,
+  messages,
+  assessment: DEFAULT_MOCK_SCRIPT.assessment,
+  delivery: {
+    ...computeDelivery(messages, 'voice', 'en', null),
+    longestPauses: [{ messageIndex: 1, durationMs: 1200 }],
+  },
+  coverage: {
+    bankName: DEFAULT_QUESTION_BANK.name,
+    planned: DEFAULT_QUESTION_BANK.questions.slice(0, 2),
+    asked: [{ questionId: DEFAULT_QUESTION_BANK.questions[0].id, messageIndex: 0 }],
+  },
+  events: [],
+  difficultyCurve: [{ at: 1, level: 3, score: null }],
+  codeSnapshots: [],
+  whiteboard: null,
+});
+
+// Serializes the report with one field replaced, as a hand edit would.
+const edited = (patch: (data: any) => void): string => {
+  const data = JSON.parse(toJson(report));
+  patch(data);
+  return JSON.stringify(data);
+};
+
+const problemOf = (json: string) => {
+  try {
+    parseReport(json);
+    return null;
+  } catch (err) {
+    return err instanceof ReportImportError ? err.problem : 'unexpected';
+  }
+};
+
+describe('parseReport', () => {
+  it('accepts an exported report', () => {
+    expect(parseReport(toJson(report))).toEqual(report);
+  });
+
+  it('rejects files that are not reports', () => {
+    expect(problemOf('{')).toBe('json');
+    expect(problemOf('{"kind":"something-else"}')).toBe('kind');
+    expect(problemOf(edited(data => { data.schemaVersion = 99; }))).toBe('version');
+  });
+
+  it('rejects prototype keys as the format', () => {
+    expect(problemOf(edited(data => { data.format = 'toString'; }))).toBe('damaged');
+    expect(problemOf(edited(data => { data.format = 'constructor'; }))).toBe('damaged');
+  });
+
+  it('rejects a report whose scorecard would not render', () => {
+    expect(problemOf(edited(data => { delete data.assessment.competencies; }))).toBe('damaged');
+    expect(problemOf(edited(data => { data.assessment.strengths = 'Great'; }))).toBe('damaged');
+    expect(problemOf(edited(data => { data.assessment.competencies[0].score = '80'; }))).toBe('damaged');
+    expect(problemOf(edited(data => { data.messages[1].role = 'candidate'; }))).toBe('damaged');
+    expect(problemOf(edited(data => { data.persona.role = 'constructor'; }))).toBe('damaged');
+    expect(problemOf(edited(data => { data.difficultyCurve[0].level = 9; }))).toBe('damaged');
+  });
+
+  it('rejects delivery metrics the scorecard could not render', () => {
+    expect(problemOf(edited(data => { data.delivery.answers = [{}]; }))).toBe('damaged');
+    expect(problemOf(edited(data => { data.delivery.answers[0].words = '12'; }))).toBe('damaged');
+    expect(problemOf(edited(data => { data.delivery.fillerWords = { um: 'twice' }; }))).toBe('damaged');
+    expect(problemOf(edited(data => { delete data.delivery.fillerWords; }))).toBe('damaged');
+    expect(problemOf(edited(data => { data.delivery.longestPauses = [{ messageIndex: 1 }]; }))).toBe('damaged');
+    expect(problemOf(edited(data => { delete data.delivery.longestPauses; }))).toBe('damaged');
+  });
+
+  it('rejects topic coverage the scorecard could not render', () => {
+    expect(problemOf(edited(data => { data.coverage.planned = [1]; }))).toBe('damaged');
+    expect(problemOf(edited(data => { delete data.coverage.planned[0].skills; }))).toBe('damaged');
+    expect(problemOf(edited(data => { data.coverage.planned[1].text = null; }))).toBe('damaged');
+    expect(problemOf(edited(data => { data.coverage.asked = [{ questionId: 7, messageIndex: 0 }]; }))).toBe('damaged');
+  });
+
+  it('accepts reports from before optional sections existed', () => {
+    const json = edited(data => {
+      delete data.persona;
+      data.delivery = null;
+      delete data.coverage;
+      delete data.events;
+      delete data.difficultyCurve;
+      delete data.codeSnapshots;
+      delete data.whiteboard;
+    });
+    expect(problemOf(json)).toBeNull();
+  });
+});
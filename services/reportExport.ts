@@ -0,0 +1,390 @@
+import { Assessment, CodeSnapshot, Competency, DeliveryMetrics, DifficultyStep, GapAnalysis, ImageFrame, InterviewerPersona, InterviewEvent, InterviewFormat, InterviewLanguage, InterviewMessage, InterviewSessionRecord, QuestionCoverage, ResumeData } from "../types";
+import { INTERVIEW_FORMATS } from "./interviewFormats";
+import { DEFAULT_PERSONA, INTERVIEWER_ROLES, PACING_OPTIONS, STRICTNESS_LEVELS, describePersona } from "./interviewerPersonas";
+import { DEFAULT_LANGUAGE, isInterviewLanguage } from "../i18n/languages";
+import { createSessionId } from "./historyService";
+import { withResumeDefaults } from "./resumeProfile";
+import { DIFFICULTY_LEVELS, describeCurve } from "./adaptiveDifficulty";
+import { CODE_LANGUAGES, snapshotsForReview } from "./codeWorkspace";
+import { weightShare } from "./scoringRubric";
+import { whiteboardDataUrl } from "../utils/whiteboard";
+
+// Bump when the shape of InterviewReport changes; parseReport rejects versions it does not understand.
+export const REPORT_SCHEMA_VERSION = 1;
+const REPORT_KIND = 'career-compass-report';
+
+export interface InterviewReport {
+  kind: typeof REPORT_KIND;
+  schemaVersion: number;
+  exportedAt: string;
+  format: InterviewFormat;
+  // Absent from reports exported before interviewer personas existed.
+  persona?: InterviewerPersona;
+  language?: InterviewLanguage;
+  resumeData: ResumeData;
+  gapAnalysis: GapAnalysis | null;
+  messages: InterviewMessage[];
+  assessment: Assessment;
+  delivery?: DeliveryMetrics | null;
+  coverage?: QuestionCoverage | null;
+  events?: InterviewEvent[];
+  difficultyCurve?: DifficultyStep[];
+  codeSnapshots?: CodeSnapshot[];
+  whiteboard?: ImageFrame | null;
+}
+
+export const buildReport = (
+  data: Pick<InterviewReport, 'format' | 'persona' | 'language' | 'resumeData' | 'gapAnalysis' | 'messages' | 'assessment' | 'delivery' | 'coverage' | 'events' | 'difficultyCurve' | 'codeSnapshots' | 'whiteboard'>
+): InterviewReport => ({
+  kind: REPORT_KIND,
+  schemaVersion: REPORT_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  ...data,
+});
+
+export const toJson = (report: InterviewReport): string => JSON.stringify(report, null, 2);
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+const isScore = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+// Own keys only, so "toString" or "constructor" never pass for a format or persona setting.
+const isKeyOf = (record: object, key: unknown): boolean => typeof key === 'string' && Object.prototype.hasOwnProperty.call(record, key);
+const optional = <T>(value: T | undefined | null, check: (value: T) => boolean) => value === undefined || value === null || check(value);
+
+const nullable = <T>(value: T | null, check: (value: T) => boolean) => value === null || check(value);
+
+const isMessage = (m: any) => isObject(m) && (m.role === 'user' || m.role === 'ai') && typeof m.text === 'string' && isScore(m.timestamp);
+
+const isPersona = (p: any) =>
+  isObject(p) && typeof p.voiceName === 'string' && isKeyOf(INTERVIEWER_ROLES, p.role) &&
+  isKeyOf(STRICTNESS_LEVELS, p.strictness) && isKeyOf(PACING_OPTIONS, p.pacing) && typeof p.pushBackOnVagueAnswers === 'boolean';
+
+const isResume = (r: any) =>
+  isObject(r) && isStringArray(r.skills) && typeof r.summary === 'string' && typeof r.experienceLevel === 'string';
+
+const isGapAnalysis = (g: any) =>
+  isObject(g) && typeof g.roleTitle === 'string' &&
+  ['matchedSkills', 'missingSkills', 'overQualifiedAreas', 'focusAreas'].every(key => isStringArray(g[key]));
+
+const isAssessment = (a: any) =>
+  isObject(a) && isScore(a.score) && typeof a.overallFeedback === 'string' &&
+  isStringArray(a.strengths) && isStringArray(a.improvements) &&
+  Array.isArray(a.competencies) &&
+  a.competencies.every((c: any) => isObject(c) && typeof c.name === 'string' && isScore(c.score) && typeof c.description === 'string' && optional(c.weight, isScore)) &&
+  optional(a.answerReviews, (reviews: any) => Array.isArray(reviews) && reviews.every(r =>
+    isObject(r) && Number.isInteger(r.messageIndex) && isScore(r.score) && typeof r.critique === 'string' && typeof r.suggestedAnswer === 'string')) &&
+  optional(a.roleFit, (fit: any) => isObject(fit) && isScore(fit.score) && typeof fit.verdict === 'string' && isStringArray(fit.notes)) &&
+  optional(a.codeReview, (review: any) => isObject(review) && isScore(review.score) && typeof review.summary === 'string' && isStringArray(review.strengths) && isStringArray(review.issues));
+
+const isAnswerDelivery = (a: any) =>
+  isObject(a) && Number.isInteger(a.messageIndex) && isScore(a.words) && isScore(a.fillerCount) &&
+  nullable(a.speakingMs, isScore) && nullable(a.wordsPerMinute, isScore) && nullable(a.longestPauseMs, isScore);
+
+const isDelivery = (d: any) =>
+  isObject(d) && (d.mode === 'voice' || d.mode === 'text') &&
+  Array.isArray(d.answers) && d.answers.every(isAnswerDelivery) &&
+  isObject(d.fillerWords) && Object.values(d.fillerWords).every(isScore) &&
+  isScore(d.fillersPer100Words) && isScore(d.medianAnswerWords) &&
+  ['wordsPerMinute', 'candidateTalkMs', 'interviewerTalkMs', 'candidateTalkShare'].every(key => nullable(d[key], isScore)) &&
+  Array.isArray(d.longestPauses) && d.longestPauses.every((p: any) => isObject(p) && Number.isInteger(p.messageIndex) && isScore(p.durationMs));
+
+const isBankQuestion = (q: any) =>
+  isObject(q) && typeof q.id === 'string' && typeof q.text === 'string' && isStringArray(q.skills);
+
+const isCoverage = (c: any) =>
+  isObject(c) && typeof c.bankName === 'string' &&
+  Array.isArray(c.planned) && c.planned.every(isBankQuestion) &&
+  Array.isArray(c.asked) && c.asked.every((a: any) => isObject(a) && typeof a.questionId === 'string' && Number.isInteger(a.messageIndex));
+
+// Checks every field the scorecard and history screens render, so a hand-edited report is rejected here
+// instead of failing halfway through rendering.
+const isReportShape = (data: any): boolean =>
+  Object.values(InterviewFormat).includes(data.format) &&
+  optional(data.persona, isPersona) &&
+  isResume(data.resumeData) &&
+  optional(data.gapAnalysis, isGapAnalysis) &&
+  Array.isArray(data.messages) && data.messages.every(isMessage) &&
+  isAssessment(data.assessment) &&
+  optional(data.delivery, isDelivery) &&
+  optional(data.coverage, isCoverage) &&
+  optional(data.events, (events: any) => Array.isArray(events) && events.every(isObject)) &&
+  optional(data.difficultyCurve, (curve: any) => Array.isArray(curve) && curve.every(step => isObject(step) && isScore(step.at) && isKeyOf(DIFFICULTY_LEVELS, String(step.level)))) &&
+  optional(data.codeSnapshots, (snapshots: any) => Array.isArray(snapshots) && snapshots.every(snap =>
+    isObject(snap) && isKeyOf(CODE_LANGUAGES, snap.language) && typeof snap.code === 'string' && isScore(snap.at))) &&
+  optional(data.whiteboard, (image: any) => isObject(image) && typeof image.mimeType === 'string' && typeof image.data === 'string');
+
+// Why an import was rejected, so the history screen can explain it in the interface language.
+export type ReportImportProblem = 'json' | 'kind' | 'version' | 'damaged';
+
+export class ReportImportError extends Error {
+  constructor(public readonly problem: ReportImportProblem, message: string) {
+    super(message);
+    this.name = 'ReportImportError';
+  }
+}
+
+export const parseReport = (json: string): InterviewReport => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new ReportImportError('json', "This file is not valid JSON.");
+  }
+  if (data?.kind !== REPORT_KIND) {
+    throw new ReportImportError('kind', "This file is not a CareerCompass interview report.");
+  }
+  if (typeof data.schemaVersion !== 'number' || data.schemaVersion > REPORT_SCHEMA_VERSION) {
+    throw new ReportImportError('version', "This report was exported by a newer version of CareerCompass. Please update and try again.");
+  }
+  if (!isReportShape(data)) {
+    throw new ReportImportError('damaged', "This report is incomplete or damaged.");
+  }
+  return data as InterviewReport;
+};
+
+const coverageLines = (coverage: QuestionCoverage): string[] => {
+  const asked = new Set(coverage.asked.map(a => a.questionId));
+  return coverage.planned.map(q => `${asked.has(q.id) ? 'Asked' : 'Not asked'}: ${q.text}`);
+};
+
+const difficultyLines = (curve: DifficultyStep[]): string[] => {
+  const level = (step: DifficultyStep) => `level ${step.level} (${DIFFICULTY_LEVELS[step.level].label})`;
+  const peak = curve.reduce((max, step) => (step.level > max.level ? step : max));
+  return [
+    `Started at ${level(curve[0])}, peaked at ${level(peak)}, finished at ${level(curve[curve.length - 1])}`,
+    `Curve: ${describeCurve(curve)}`,
+  ];
+};
+
+const snapshotHeading = (snapshot: CodeSnapshot) =>
+  `${snapshot.trigger === 'submit' ? 'Submitted' : 'Final'} code (${CODE_LANGUAGES[snapshot.language].label})`;
+
+const speaker = (m: InterviewMessage) => (m.role === 'ai' ? 'Interviewer' : 'Candidate');
+
+// One line per delivery metric, shared by the Markdown and PDF exports.
+const deliveryLines = (delivery: DeliveryMetrics): string[] => {
+  const fillers = Object.entries<number>(delivery.fillerWords).sort((a, b) => b[1] - a[1]).map(([word, count]) => `"${word}" × ${count}`);
+  return [
+    ...(delivery.wordsPerMinute !== null ? [`Pace: ${delivery.wordsPerMinute} words per minute`] : []),
+    `Filler words: ${delivery.fillersPer100Words} per 100 words${fillers.length ? ` (${fillers.join(', ')})` : ''}`,
+    ...(delivery.candidateTalkShare !== null ? [`Talk time: ${Math.round(delivery.candidateTalkShare * 100)}% candidate`] : []),
+    ...delivery.longestPauses.map(p => `Pause of ${(p.durationMs / 1000).toFixed(1)}s in answer ${delivery.answers.findIndex(a => a.messageIndex === p.messageIndex) + 1}`),
+    `Median answer length: ${delivery.medianAnswerWords} words`,
+  ];
+};
+
+// Sessions scored before rubrics carried weights show a dash rather than an assumed equal split.
+const weightLabel = (competency: Competency, competencies: Competency[]): string =>
+  competency.weight === undefined ? '-' : `${Math.round(weightShare(competency, competencies) * 100)}%`;
+
+export const toMarkdown = (report: InterviewReport): string => {
+  const { assessment, gapAnalysis } = report;
+  const lines: string[] = [
+    `# Interview Scorecard: ${INTERVIEW_FORMATS[report.format].label}`,
+    '',
+    `**Overall score:** ${assessment.score} / 100  `,
+    `**Level:** ${report.resumeData.experienceLevel}  `,
+    ...(report.persona ? [`**Interviewer:** ${describePersona(report.persona)}  `] : []),
+    ...(assessment.rubricName ? [`**Rubric:** ${assessment.rubricName}  `] : []),
+    `**Exported:** ${new Date(report.exportedAt).toLocaleString()}`,
+    '',
+    `> ${assessment.overallFeedback}`,
+    '',
+    '## Competency Breakdown',
+    '',
+    '| Competency | Score | Weight | Notes |',
+    '| --- | --- | --- | --- |',
+    ...assessment.competencies.map(c => `| ${c.name} | ${c.score} | ${weightLabel(c, assessment.competencies)} | ${c.description.replace(/\|/g, '\\|')} |`),
+    '',
+  ];
+
+  if (assessment.roleFit && gapAnalysis) {
+    lines.push(
+      `## Role Fit: ${gapAnalysis.roleTitle} (${assessment.roleFit.score} / 100)`,
+      '',
+      assessment.roleFit.verdict,
+      '',
+      ...assessment.roleFit.notes.map(n => `- ${n}`),
+      '',
+    );
+  }
+
+  lines.push(
+    '## Key Strengths',
+    '',
+    ...assessment.strengths.map(s => `- ${s}`),
+    '',
+    '## Growth Areas',
+    '',
+    ...assessment.improvements.map(s => `- ${s}`),
+    '',
+  );
+
+  if (report.delivery && report.delivery.answers.length > 0) {
+    lines.push('## Delivery', '', ...deliveryLines(report.delivery).map(l => `- ${l}`), '');
+  }
+
+  if (report.coverage && report.coverage.planned.length > 0) {
+    lines.push(`## Topic Coverage (${report.coverage.bankName})`, '', ...coverageLines(report.coverage).map(l => `- ${l}`), '');
+  }
+
+  if (report.difficultyCurve && report.difficultyCurve.length > 1) {
+    lines.push('## Difficulty Curve', '', ...difficultyLines(report.difficultyCurve).map(l => `- ${l}`), '');
+  }
+
+  const code = snapshotsForReview(report.codeSnapshots ?? []);
+  if (code.length > 0) {
+    lines.push('## Code', '');
+    if (assessment.codeReview) {
+      lines.push(
+        `**Code quality:** ${assessment.codeReview.score} / 100`,
+        '',
+        assessment.codeReview.summary,
+        '',
+        ...assessment.codeReview.strengths.map(s => `- Strength: ${s}`),
+        ...assessment.codeReview.issues.map(s => `- Issue: ${s}`),
+        '',
+      );
+    }
+    code.forEach(snapshot => lines.push(`**${snapshotHeading(snapshot)}:**`, '', `\`\`\`${snapshot.language}`, snapshot.code, '\`\`\`', ''));
+  }
+
+  if (report.whiteboard) {
+    lines.push('## Whiteboard', '', `![Final whiteboard diagram](${whiteboardDataUrl(report.whiteboard)})`, '');
+  }
+
+  lines.push('## Transcript', '');
+
+  report.messages.forEach((m, idx) => {
+    lines.push(`**${speaker(m)}:** ${m.text}`, '');
+    const review = assessment.answerReviews?.find(r => r.messageIndex === idx);
+    if (review) {
+      lines.push(`> *Score ${review.score}:* ${review.critique}  `, `> *Stronger answer:* ${review.suggestedAnswer}`, '');
+    }
+  });
+
+  return lines.join('\n');
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Opens a print-ready copy of the report; the browser's print dialog saves it as PDF.
+export const printReport = (report: InterviewReport) => {
+  const { assessment, gapAnalysis } = report;
+  const win = window.open('', '_blank');
+  if (!win) {
+    throw new Error("Allow pop-ups for this site to export a PDF.");
+  }
+
+  const code = snapshotsForReview(report.codeSnapshots ?? []);
+  const list = (items: string[]) => `<ul>${items.map(i => `<li>${escapeHtml(i)}</li>`).join('')}</ul>`;
+  const transcript = report.messages.map((m, idx) => {
+    const review = assessment.answerReviews?.find(r => r.messageIndex === idx);
+    return `
+      <div class="turn ${m.role}">
+        <strong>${speaker(m)}:</strong> ${escapeHtml(m.text)}
+        ${review ? `<div class="review"><em>Score ${review.score}:</em> ${escapeHtml(review.critique)}<br /><em>Stronger answer:</em> ${escapeHtml(review.suggestedAnswer)}</div>` : ''}
+      </div>`;
+  }).join('');
+
+  win.document.write(`<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Interview Scorecard</title>
+  <style>
+    body { font-family: 'Inter', system-ui, sans-serif; color: #0f172a; max-width: 760px; margin: 40px auto; line-height: 1.5; }
+    h1 { margin-bottom: 4px; }
+    h2 { font-size: 13px; text-transform: uppercase; letter-spacing: 0.15em; color: #64748b; margin-top: 32px; }
+    .meta { color: #64748b; }
+    .score { font-size: 48px; font-weight: 900; color: #2563eb; }
+    table { width: 100%; border-collapse: collapse; }
+    td, th { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+    blockquote { margin: 16px 0; padding: 12px 16px; background: #f1f5f9; border-radius: 8px; }
+    .turn { margin: 8px 0; page-break-inside: avoid; }
+    .turn.user { color: #1d4ed8; }
+    pre { background: #0f172a; color: #f1f5f9; padding: 12px 16px; border-radius: 8px; font-size: 12px; white-space: pre-wrap; page-break-inside: avoid; }
+    .whiteboard { width: 100%; border: 1px solid #e2e8f0; border-radius: 8px; page-break-inside: avoid; }
+    h3 { font-size: 13px; margin: 16px 0 6px; }
+    .review { margin: 4px 0 0 16px; padding: 8px 12px; border-left: 3px solid #cbd5e1; color: #334155; font-size: 13px; }
+  </style>
+</head>
+<body>
+  <h1>Interview Scorecard</h1>
+  <div class="meta">${escapeHtml(INTERVIEW_FORMATS[report.format].label)} interview · ${escapeHtml(report.resumeData.experienceLevel)}${report.persona ? ` · ${escapeHtml(describePersona(report.persona))}` : ''}${assessment.rubricName ? ` · ${escapeHtml(assessment.rubricName)}` : ''} · ${escapeHtml(new Date(report.exportedAt).toLocaleString())}</div>
+  <div class="score">${assessment.score} <span style="font-size:16px;color:#64748b">/ 100</span></div>
+  <blockquote>${escapeHtml(assessment.overallFeedback)}</blockquote>
+  <h2>Competency Breakdown</h2>
+  <table>
+    <tr><th>Competency</th><th>Score</th><th>Weight</th><th>Notes</th></tr>
+    ${assessment.competencies.map(c => `<tr><td>${escapeHtml(c.name)}</td><td>${c.score}</td><td>${weightLabel(c, assessment.competencies)}</td><td>${escapeHtml(c.description)}</td></tr>`).join('')}
+  </table>
+  ${assessment.roleFit && gapAnalysis ? `
+  <h2>Role Fit: ${escapeHtml(gapAnalysis.roleTitle)} (${assessment.roleFit.score} / 100)</h2>
+  <p>${escapeHtml(assessment.roleFit.verdict)}</p>
+  ${list(assessment.roleFit.notes)}` : ''}
+  <h2>Key Strengths</h2>
+  ${list(assessment.strengths)}
+  <h2>Growth Areas</h2>
+  ${list(assessment.improvements)}
+  ${report.delivery && report.delivery.answers.length > 0 ? `
+  <h2>Delivery</h2>
+  ${list(deliveryLines(report.delivery))}` : ''}
+  ${report.coverage && report.coverage.planned.length > 0 ? `
+  <h2>Topic Coverage (${escapeHtml(report.coverage.bankName)})</h2>
+  ${list(coverageLines(report.coverage))}` : ''}
+  ${report.difficultyCurve && report.difficultyCurve.length > 1 ? `
+  <h2>Difficulty Curve</h2>
+  ${list(difficultyLines(report.difficultyCurve))}` : ''}
+  ${code.length > 0 ? `
+  <h2>Code</h2>
+  ${assessment.codeReview ? `
+  <p><strong>Code quality: ${assessment.codeReview.score} / 100.</strong> ${escapeHtml(assessment.codeReview.summary)}</p>
+  ${list([...assessment.codeReview.strengths.map(s => `Strength: ${s}`), ...assessment.codeReview.issues.map(s => `Issue: ${s}`)])}` : ''}
+  ${code.map(snapshot => `<h3>${escapeHtml(snapshotHeading(snapshot))}</h3><pre>${escapeHtml(snapshot.code)}</pre>`).join('')}` : ''}
+  ${report.whiteboard ? `
+  <h2>Whiteboard</h2>
+  <img class="whiteboard" src="${whiteboardDataUrl(report.whiteboard)}" alt="Final whiteboard diagram" />` : ''}
+  <h2>Transcript</h2>
+  ${transcript}
+</body>
+</html>`);
+  win.document.close();
+  win.focus();
+  win.print();
+};
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Imported reports are viewed like saved sessions; the audio recording is never part of an export.
+export const reportToRecord = (report: InterviewReport): InterviewSessionRecord => {
+  const completedAt = Date.parse(report.exportedAt) || Date.now();
+  return {
+    id: createSessionId(),
+    format: report.format,
+    persona: report.persona ?? DEFAULT_PERSONA,
+    language: isInterviewLanguage(report.language) ? report.language : DEFAULT_LANGUAGE,
+    startedAt: report.messages[0]?.timestamp ?? completedAt,
+    completedAt,
+    resumeData: withResumeDefaults(report.resumeData),
+    gapAnalysis: report.gapAnalysis,
+    messages: report.messages,
+    assessment: report.assessment,
+    recording: null,
+    delivery: report.delivery ?? null,
+    coverage: report.coverage ?? null,
+    events: report.events ?? [],
+    difficultyCurve: report.difficultyCurve ?? [],
+    codeSnapshots: report.codeSnapshots ?? [],
+    whiteboard: report.whiteboard ?? null,
+    drill: null,
+  };
+};
@@ -0,0 +1,44 @@
+import { ResumeData } from "../types";
+
+// Sessions saved or exported before the structured profile existed only carry skills, summary and level.
+export const withResumeDefaults = (resume: ResumeData): ResumeData => ({
+  ...resume,
+  skillYears: resume.skillYears ?? {},
+  workHistory: resume.workHistory ?? [],
+  projects: resume.projects ?? [],
+  education: resume.education ?? [],
+  certifications: resume.certifications ?? [],
+});
+
+const dateRange = (start: string, end: string) => `${start || '?'} – ${end || 'present'}`;
+
+// A plain-text profile for prompts; sections the resume doesn't have are left out.
+export const describeResume = (resume: ResumeData): string => {
+  const skills = resume.skills.map(skill => resume.skillYears[skill] ? `${skill} (${resume.skillYears[skill]} yrs)` : skill);
+  const lines = [
+    `Level: ${resume.experienceLevel}`,
+    `Summary: ${resume.summary}`,
+    `Skills: ${skills.join(', ')}`,
+  ];
+  if (resume.workHistory.length) {
+    lines.push('Work history:');
+    resume.workHistory.forEach(job => {
+      lines.push(`  - ${job.title} at ${job.company} (${dateRange(job.startDate, job.endDate)})`);
+      job.highlights.forEach(h => lines.push(`      * ${h}`));
+    });
+  }
+  if (resume.projects.length) {
+    lines.push('Projects:');
+    resume.projects.forEach(p => {
+      lines.push(`  - ${p.name}: ${p.description}${p.technologies.length ? ` [${p.technologies.join(', ')}]` : ''}`);
+    });
+  }
+  if (resume.education.length) {
+    lines.push('Education:');
+    resume.education.forEach(e => lines.push(`  - ${e.degree}, ${e.institution}${e.year ? ` (${e.year})` : ''}`));
+  }
+  if (resume.certifications.length) {
+    lines.push(`Certifications: ${resume.certifications.join(', ')}`);
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { Assessment, Competency, InterviewFormat, RubricCompetency } from '../types';
+import { BUILT_IN_RUBRIC, RubricImportError, ScorecardMismatchError, applyRubric, overallScore, parseRubric, toRubricJson } from './scoringRubric';
+
+const edited = (patch: (data: any) => void): string => {
+  const data = JSON.parse(toRubricJson(BUILT_IN_RUBRIC));
+  patch(data);
+  return JSON.stringify(data);
+};
+
+const rejection = (json: string) => {
+  try {
+    parseRubric(json);
+    return null;
+  } catch (err) {
+    return err instanceof RubricImportError ? { problem: err.problem, format: err.format, competency: err.competency } : 'unexpected';
+  }
+};
+
+const definition = (name: string, weight: number): RubricCompetency => ({
+  name,
+  description: `${name} skills.`,
+  weight,
+  anchors: { weak: 'Vague.', solid: 'Clear.', strong: 'Compelling.' },
+});
+
+const RUBRIC = [definition('Communication', 2), definition('Problem Solving', 1)];
+
+const assessment = (competencies: Competency[]): Assessment => ({
+  strengths: [],
+  improvements: [],
+  score: 0,
+  overallFeedback: '',
+  competencies,
+});
+
+const mismatch = (competencies: Competency[]) => {
+  try {
+    applyRubric(assessment(competencies), 'Team Rubric', RUBRIC);
+    return null;
+  } catch (err) {
+    return err instanceof ScorecardMismatchError ? err.competency : 'unexpected';
+  }
+};
+
+describe('parseRubric', () => {
+  it('accepts an exported rubric', () => {
+    expect(parseRubric(toRubricJson(BUILT_IN_RUBRIC))).toEqual(BUILT_IN_RUBRIC);
+  });
+
+  it('reports why a file was rejected', () => {
+    expect(rejection('{')).toMatchObject({ problem: 'json' });
+    expect(rejection('{"kind":"career-compass-question-bank"}')).toMatchObject({ problem: 'kind' });
+    expect(rejection(edited(data => { data.schemaVersion = 99; }))).toMatchObject({ problem: 'version' });
+    expect(rejection(edited(data => { delete data.name; }))).toMatchObject({ problem: 'empty' });
+    expect(rejection(edited(data => { data.formats = {}; }))).toMatchObject({ problem: 'empty' });
+    expect(rejection(edited(data => { data.formats.PANEL = data.formats.TECHNICAL; }))).toEqual({ problem: 'format', format: 'PANEL', competency: undefined });
+    expect(rejection(edited(data => { data.formats.TECHNICAL = []; }))).toMatchObject({ problem: 'noCompetencies', format: 'TECHNICAL' });
+  });
+
+  it('names the first invalid competency', () => {
+    expect(rejection(edited(data => { data.formats.BEHAVIORAL[1].weight = 0; }))).toEqual({ problem: 'competency', format: 'BEHAVIORAL', competency: 2 });
+    expect(rejection(edited(data => { delete data.formats.HR_SCREEN[0].anchors.strong; }))).toEqual({ problem: 'competency', format: 'HR_SCREEN', competency: 1 });
+  });
+
+  it('rejects repeated names and the reserved Presence name', () => {
+    expect(rejection(edited(data => { data.formats.TECHNICAL[1].name = ` ${data.formats.TECHNICAL[0].name.toUpperCase()}`; }))).toMatchObject({ problem: 'duplicateName', format: 'TECHNICAL' });
+    expect(rejection(edited(data => { data.formats.TECHNICAL[0].name = 'presence'; }))).toMatchObject({ problem: 'duplicateName', format: 'TECHNICAL' });
+  });
+
+  it('keeps formats the file leaves out on the built-in competencies', () => {
+    const rubric = parseRubric(edited(data => { delete data.formats.SYSTEM_DESIGN; }));
+    expect(rubric.formats[InterviewFormat.SYSTEM_DESIGN]).toBeUndefined();
+  });
+});
+
+describe('applyRubric', () => {
+  it('clamps and rounds scores and orders them as the rubric does', () => {
+    const result = applyRubric(assessment([
+      { name: 'problem solving', score: -5, description: 'Stuck early.' },
+      { name: 'Communication', score: 120.4, description: 'Very clear.' },
+    ]), 'Team Rubric', RUBRIC);
+    expect(result.competencies).toEqual([
+      { name: 'Communication', score: 100, description: 'Very clear.', weight: 2 },
+      { name: 'Problem Solving', score: 0, description: 'Stuck early.', weight: 1 },
+    ]);
+    expect(result.rubricName).toBe('Team Rubric');
+    expect(applyRubric(assessment([
+      { name: 'Communication', score: 71.6, description: '' },
+      { name: 'Problem Solving', score: 64.2, description: '' },
+    ]), 'Team Rubric', RUBRIC).competencies.map(c => c.score)).toEqual([72, 64]);
+  });
+
+  it('drops competencies the rubric does not list and recomputes the overall score', () => {
+    const result = applyRubric({
+      ...assessment([
+        { name: 'Communication', score: 90, description: '' },
+        { name: 'Charisma', score: 10, description: '' },
+        { name: 'Problem Solving', score: 60, description: '' },
+      ]),
+      score: 12,
+    }, 'Team Rubric', RUBRIC);
+    expect(result.competencies.map(c => c.name)).toEqual(['Communication', 'Problem Solving']);
+    expect(result.score).toBe(80);
+  });
+
+  it('names the competency a scorecard got wrong', () => {
+    expect(mismatch([{ name: 'Communication', score: 80, description: '' }])).toBe('Problem Solving');
+    expect(mismatch([
+      { name: 'Communication', score: 80, description: '' },
+      { name: 'Communication', score: 70, description: '' },
+      { name: 'Problem Solving', score: 60, description: '' },
+    ])).toBe('Communication');
+    expect(mismatch([
+      { name: 'Communication', score: 80, description: '' },
+      { name: 'Problem Solving', score: NaN, description: '' },
+    ])).toBe('Problem Solving');
+  });
+});
+
+describe('overallScore', () => {
+  it('weights each competency by its rubric weight', () => {
+    expect(overallScore([
+      { name: 'A', score: 90, description: '', weight: 3 },
+      { name: 'B', score: 50, description: '', weight: 1 },
+    ])).toBe(80);
+    expect(overallScore([
+      { name: 'A', score: 70, description: '', weight: 2 },
+      { name: 'B', score: 75, description: '', weight: 1 },
+    ])).toBe(72);
+  });
+
+  it('counts competencies without a weight equally', () => {
+    expect(overallScore([
+      { name: 'A', score: 90, description: '' },
+      { name: 'B', score: 61, description: '' },
+    ])).toBe(76);
+  });
+
+  it('is 0 for an empty scorecard', () => {
+    expect(overallScore([])).toBe(0);
+  });
+});
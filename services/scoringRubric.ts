@@ -0,0 +1,166 @@
+import { Assessment, Competency, InterviewFormat, Rubric, RubricCompetency, RubricLevel } from "../types";
+import { INTERVIEW_FORMATS } from "./interviewFormats";
+import { PRESENCE_COMPETENCY } from "./cameraPresence";
+
+// Rubric files carry the same kind/version header as question banks and exported reports.
+export const RUBRIC_KIND = 'career-compass-rubric';
+export const RUBRIC_SCHEMA_VERSION = 1;
+
+const STORAGE_KEY = 'career-compass.rubric';
+
+// The 0-100 range each anchor describes.
+export const RUBRIC_LEVELS: Record<RubricLevel, { min: number; max: number }> = {
+  weak: { min: 0, max: 49 },
+  solid: { min: 50, max: 79 },
+  strong: { min: 80, max: 100 },
+};
+
+// Weakest first, the order anchors are listed in.
+export const RUBRIC_LEVEL_ORDER = Object.keys(RUBRIC_LEVELS) as RubricLevel[];
+
+const FORMATS = Object.values(InterviewFormat);
+
+export const BUILT_IN_RUBRIC: Rubric = {
+  name: 'CareerCompass Standard Rubric',
+  formats: Object.fromEntries(FORMATS.map(format => [format, INTERVIEW_FORMATS[format].competencies])),
+};
+
+// The competencies a session is scored on, with Presence added when camera stills were taken.
+export const rubricCompetencies = (rubric: Rubric, format: InterviewFormat, withPresence = false): RubricCompetency[] => {
+  const competencies = rubric.formats[format] ?? INTERVIEW_FORMATS[format].competencies;
+  return withPresence ? [...competencies, PRESENCE_COMPETENCY] : competencies;
+};
+
+export const weightShare = (competency: RubricCompetency | Competency, competencies: (RubricCompetency | Competency)[]): number => {
+  const total = competencies.reduce((sum, c) => sum + (c.weight ?? 1), 0);
+  return total > 0 ? (competency.weight ?? 1) / total : 0;
+};
+
+// The weighted mean of the competency scores; sessions saved before rubrics carried weights count each equally.
+export const overallScore = (competencies: Competency[]): number => {
+  const total = competencies.reduce((sum, c) => sum + (c.weight ?? 1), 0);
+  if (total === 0) return 0;
+  return Math.round(competencies.reduce((sum, c) => sum + c.score * (c.weight ?? 1), 0) / total);
+};
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Thrown when a scorecard does not fit its rubric; the model usually gets it right when asked again.
+export class ScorecardMismatchError extends Error {
+  constructor(message: string, public readonly competency: string) {
+    super(message);
+    this.name = 'ScorecardMismatchError';
+  }
+}
+
+// Checks a scorecard against the rubric it was asked for: every competency must be scored exactly once, under its
+// rubric name and in rubric order, with a 0-100 score. Anything the rubric does not list is dropped, and the overall
+// score is recomputed from the weights rather than taken from the model.
+export const applyRubric = (assessment: Assessment, rubricName: string, competencies: RubricCompetency[]): Assessment => {
+  const scored = competencies.map(definition => {
+    const matches = (assessment.competencies || []).filter(c => sameName(c.name, definition.name));
+    if (matches.length === 0) {
+      throw new ScorecardMismatchError(`The scorecard did not score the ${definition.name} competency.`, definition.name);
+    }
+    if (matches.length > 1) {
+      throw new ScorecardMismatchError(`The scorecard scored the ${definition.name} competency more than once.`, definition.name);
+    }
+    const { score, description } = matches[0];
+    if (typeof score !== 'number' || !Number.isFinite(score)) {
+      throw new ScorecardMismatchError(`The scorecard gave the ${definition.name} competency an invalid score.`, definition.name);
+    }
+    return {
+      name: definition.name,
+      score: Math.round(Math.min(100, Math.max(0, score))),
+      description: typeof description === 'string' ? description : '',
+      weight: definition.weight,
+    };
+  });
+  return { ...assessment, competencies: scored, score: overallScore(scored), rubricName };
+};
+
+const isRubricCompetency = (c: any): c is RubricCompetency =>
+  typeof c?.name === 'string' && c.name.trim().length > 0 &&
+  typeof c.description === 'string' &&
+  typeof c.weight === 'number' && Number.isFinite(c.weight) && c.weight > 0 &&
+  RUBRIC_LEVEL_ORDER.every(level => typeof c.anchors?.[level] === 'string' && c.anchors[level].length > 0);
+
+// Why an import was rejected, so the settings panel can explain it in the interface language.
+export type RubricImportProblem = 'json' | 'kind' | 'version' | 'empty' | 'format' | 'noCompetencies' | 'competency' | 'duplicateName';
+
+export class RubricImportError extends Error {
+  // `format` is the format key the problem was found under; `competency` the 1-based position within it.
+  constructor(
+    public readonly problem: RubricImportProblem,
+    message: string,
+    public readonly format?: string,
+    public readonly competency?: number
+  ) {
+    super(message);
+    this.name = 'RubricImportError';
+  }
+}
+
+export const parseRubric = (json: string): Rubric => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new RubricImportError('json', "This file is not valid JSON.");
+  }
+  if (data?.kind !== RUBRIC_KIND) {
+    throw new RubricImportError('kind', "This file is not a CareerCompass rubric.");
+  }
+  if (typeof data.schemaVersion !== 'number' || data.schemaVersion > RUBRIC_SCHEMA_VERSION) {
+    throw new RubricImportError('version', "This rubric was made for a newer version of CareerCompass. Please update and try again.");
+  }
+  if (typeof data.name !== 'string' || typeof data.formats !== 'object' || data.formats === null) {
+    throw new RubricImportError('empty', "A rubric needs a name and competencies for at least one format.");
+  }
+  const entries = Object.entries(data.formats);
+  if (entries.length === 0) {
+    throw new RubricImportError('empty', "A rubric needs a name and competencies for at least one format.");
+  }
+  for (const [format, competencies] of entries) {
+    if (!FORMATS.includes(format as InterviewFormat)) {
+      throw new RubricImportError('format', `"${format}" is not an interview format.`, format);
+    }
+    if (!Array.isArray(competencies) || competencies.length === 0) {
+      throw new RubricImportError('noCompetencies', `The ${format} rubric needs at least one competency.`, format);
+    }
+    const invalid = competencies.findIndex(c => !isRubricCompetency(c));
+    if (invalid !== -1) {
+      throw new RubricImportError('competency', `Competency ${invalid + 1} of the ${format} rubric is missing a field, an anchor or a positive weight.`, format, invalid + 1);
+    }
+    const names = new Set(competencies.map((c: RubricCompetency) => c.name.trim().toLowerCase()));
+    if (names.size !== competencies.length || names.has(PRESENCE_COMPETENCY.name.toLowerCase())) {
+      throw new RubricImportError('duplicateName', `Every competency in the ${format} rubric needs a unique name, and ${PRESENCE_COMPETENCY.name} is reserved for the camera.`, format);
+    }
+  }
+  return { name: data.name, formats: data.formats };
+};
+
+export const toRubricJson = (rubric: Rubric): string =>
+  JSON.stringify({ kind: RUBRIC_KIND, schemaVersion: RUBRIC_SCHEMA_VERSION, ...rubric }, null, 2);
+
+// An imported rubric is kept in the browser so the organization's scoring survives reloads.
+export const loadRubric = (): Rubric => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? parseRubric(stored) : BUILT_IN_RUBRIC;
+  } catch {
+    return BUILT_IN_RUBRIC;
+  }
+};
+
+export const saveRubric = (rubric: Rubric) => {
+  try {
+    if (rubric === BUILT_IN_RUBRIC) {
+      window.localStorage.removeItem(STORAGE_KEY);
+    } else {
+      window.localStorage.setItem(STORAGE_KEY, toRubricJson(rubric));
+    }
+  } catch {
+    // Storage can be unavailable; the rubric still applies for this visit.
+  }
+};
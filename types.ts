@@ -1,8 +1,35 @@
 
+export interface WorkExperience {
+  title: string;
+  company: string;
+  startDate: string;
+  // Empty while the role is current.
+  endDate: string;
+  highlights: string[];
+}
+
+export interface ResumeProject {
+  name: string;
+  description: string;
+  technologies: string[];
+}
+
+export interface Education {
+  institution: string;
+  degree: string;
+  year: string;
+}
+
 export interface ResumeData {
   skills: string[];
+  // Years of hands-on use, only for skills where the resume makes it clear.
+  skillYears: Record<string, number>;
   summary: string;
   experienceLevel: string;
+  workHistory: WorkExperience[];
+  projects: ResumeProject[];
+  education: Education[];
+  certifications: string[];
   rawText: string;
 }
 
@@ -10,15 +37,306 @@ export interface InterviewMessage {
   role: 'user' | 'ai';
   text: string;
   timestamp: number;
+  // When the turn started being spoken; used to seek the session recording.
+  startedAt?: number;
+}
+
+export interface SessionRecording {
+  startedAt: number;
+  durationMs: number;
+  audio: Blob;
 }
 
 export enum AppStage {
   UPLOAD = 'UPLOAD',
   ANALYZING = 'ANALYZING',
+  REVIEW = 'REVIEW',
+  RESUME_AUDIT = 'RESUME_AUDIT',
   INTERVIEW = 'INTERVIEW',
-  FEEDBACK = 'FEEDBACK'
+  FEEDBACK = 'FEEDBACK',
+  HISTORY = 'HISTORY'
+}
+
+export enum InterviewFormat {
+  BEHAVIORAL = 'BEHAVIORAL',
+  TECHNICAL = 'TECHNICAL',
+  SYSTEM_DESIGN = 'SYSTEM_DESIGN',
+  HR_SCREEN = 'HR_SCREEN'
+}
+
+export type InterviewMode = 'voice' | 'text';
+
+export type AgendaPhaseId = 'intro' | 'resume' | 'technical' | 'behavioral' | 'candidateQuestions' | 'close';
+
+export interface AgendaPhase {
+  id: AgendaPhaseId;
+  minutes: number;
+  // Disabled phases keep their budget so switching them back on restores it.
+  enabled: boolean;
+}
+
+// Drives the UI catalog, the interviewer's spoken language, transcription and the written feedback.
+export type InterviewLanguage = 'en' | 'de' | 'es' | 'ja';
+
+export enum InterviewerRole {
+  RECRUITER = 'RECRUITER',
+  PEER_ENGINEER = 'PEER_ENGINEER',
+  DIRECTOR = 'DIRECTOR',
+  VP = 'VP'
+}
+
+export type InterviewStrictness = 'supportive' | 'balanced' | 'demanding';
+
+export type InterviewPacing = 'relaxed' | 'standard' | 'brisk';
+
+export interface InterviewerPersona {
+  voiceName: string;
+  role: InterviewerRole;
+  strictness: InterviewStrictness;
+  pacing: InterviewPacing;
+  pushBackOnVagueAnswers: boolean;
 }
 
 export type ResumeInput = 
   | { type: 'text'; content: string }
   | { type: 'file'; data: string; mimeType: string; fileName: string };
+
+export type JobDescriptionInput =
+  | { type: 'text'; content: string }
+  | { type: 'file'; data: string; mimeType: string; fileName: string };
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface BankQuestion {
+  id: string;
+  text: string;
+  skills: string[];
+  difficulty: QuestionDifficulty;
+  // Formats the question suits; omitted means any format.
+  formats?: InterviewFormat[];
+  keyPoints: string[];
+  followUps: string[];
+}
+
+export interface QuestionBank {
+  name: string;
+  questions: BankQuestion[];
+}
+
+export interface QuestionCoverage {
+  bankName: string;
+  planned: BankQuestion[];
+  // The interviewer turn that asked each planned question; questions never asked are absent.
+  asked: { questionId: string; messageIndex: number }[];
+}
+
+// Structured signals the live interviewer reports through tool calls, in the order they arrived.
+// `at` is wall-clock time; events are matched to transcript turns by time rather than by index.
+export type InterviewEvent =
+  | { type: 'question'; at: number; topic: string; difficulty: QuestionDifficulty; questionId?: string }
+  | { type: 'answerQuality'; at: number; score: number; reason: string }
+  | { type: 'phase'; at: number; phase: AgendaPhaseId }
+  | { type: 'end'; at: number; reason: string };
+
+// One point on the adaptive difficulty curve: the starting level, then one step per rated answer.
+export interface DifficultyStep {
+  at: number;
+  // 1 (foundational) to 5 (expert).
+  level: number;
+  // The answer rating that moved the level here; null for the starting level.
+  score: number | null;
+}
+
+export interface BulletRewrite {
+  original: string;
+  issue: string;
+  rewrite: string;
+}
+
+// An ATS-style review of the resume document itself, independent of any interview.
+export interface ResumeAudit {
+  // The posting's role, or the role the resume itself points at when no posting was given.
+  targetRole: string;
+  keywordScore: number;
+  matchedKeywords: string[];
+  missingKeywords: string[];
+  formattingWarnings: string[];
+  lengthWarnings: string[];
+  weakBullets: BulletRewrite[];
+  missingSections: string[];
+  summary: string;
+}
+
+export interface GapAnalysis {
+  roleTitle: string;
+  matchedSkills: string[];
+  missingSkills: string[];
+  overQualifiedAreas: string[];
+  focusAreas: string[];
+}
+
+export type CodeLanguage = 'javascript' | 'typescript' | 'python' | 'java' | 'go' | 'cpp' | 'sql';
+
+// Why the editor buffer was sent to the interviewer: the candidate asked for a run-through or submitted it,
+// or the periodic sync picked up a change.
+export type CodeShareTrigger = 'run' | 'submit' | 'sync';
+
+export interface CodeSnapshot {
+  at: number;
+  language: CodeLanguage;
+  code: string;
+  trigger: CodeShareTrigger;
+}
+
+export interface CodeReview {
+  score: number;
+  summary: string;
+  strengths: string[];
+  issues: string[];
+}
+
+export interface WhiteboardPoint {
+  x: number;
+  y: number;
+}
+
+// Coordinates are in the board's fixed logical size (see WHITEBOARD_WIDTH), whatever size it is shown at.
+export type WhiteboardShape =
+  | { kind: 'pen'; points: WhiteboardPoint[] }
+  | { kind: 'box'; from: WhiteboardPoint; to: WhiteboardPoint }
+  | { kind: 'arrow'; from: WhiteboardPoint; to: WhiteboardPoint }
+  | { kind: 'text'; at: WhiteboardPoint; text: string };
+
+// A still image, such as a whiteboard render or a camera frame; data is base64 without the data: URL prefix.
+export interface ImageFrame {
+  at: number;
+  mimeType: string;
+  data: string;
+}
+
+export interface RoleFit {
+  score: number;
+  verdict: string;
+  notes: string[];
+}
+
+export interface Competency {
+  name: string;
+  score: number;
+  description: string;
+  // The competency's weight in the rubric the session was scored against; absent on older sessions.
+  weight?: number;
+}
+
+export interface AnswerReview {
+  // Index into the session's InterviewMessage[]; always points at a 'user' turn.
+  messageIndex: number;
+  score: number;
+  critique: string;
+  suggestedAnswer: string;
+}
+
+// Wall-clock spans (ms) in which the candidate's microphone picked up speech, plus how long the interviewer spoke.
+export interface VoiceActivity {
+  segments: { start: number; end: number }[];
+  interviewerTalkMs: number;
+}
+
+export interface AnswerDelivery {
+  messageIndex: number;
+  words: number;
+  fillerCount: number;
+  // The timing fields are null for typed answers and for answers with no detected speech.
+  speakingMs: number | null;
+  wordsPerMinute: number | null;
+  longestPauseMs: number | null;
+}
+
+export interface DeliveryMetrics {
+  mode: InterviewMode;
+  answers: AnswerDelivery[];
+  wordsPerMinute: number | null;
+  fillerWords: Record<string, number>;
+  fillersPer100Words: number;
+  candidateTalkMs: number | null;
+  interviewerTalkMs: number | null;
+  // The candidate's share of total talk time, 0-1.
+  candidateTalkShare: number | null;
+  longestPauses: { messageIndex: number; durationMs: number }[];
+  medianAnswerWords: number;
+}
+
+export interface Assessment {
+  strengths: string[];
+  improvements: string[];
+  score: number;
+  overallFeedback: string;
+  competencies: Competency[];
+  roleFit?: RoleFit;
+  answerReviews?: AnswerReview[];
+  // Only present when the candidate wrote code in the shared editor.
+  codeReview?: CodeReview;
+  // The rubric the competencies were scored against; absent on older sessions.
+  rubricName?: string;
+}
+
+// Score bands a rubric describes; see RUBRIC_LEVELS for the range each covers.
+export type RubricLevel = 'weak' | 'solid' | 'strong';
+
+export interface RubricCompetency {
+  name: string;
+  description: string;
+  // Relative share of the overall score.
+  weight: number;
+  // What a candidate at each level typically does, so scores mean the same thing from session to session.
+  anchors: Record<RubricLevel, string>;
+}
+
+export interface Rubric {
+  name: string;
+  // Formats left out are scored with the built-in competencies.
+  formats: Partial<Record<InterviewFormat, RubricCompetency[]>>;
+}
+
+// A short, focused practice session on one weak area from an earlier scorecard. `topic` is the competency name or
+// skill being drilled; the other fields record why it was picked, which both the boarding screen and the prompt explain.
+export type DrillFocus =
+  // Scored below the drill threshold; the description is the scorecard's note on the competency.
+  | { kind: 'competency'; topic: string; score: number; description: string }
+  // Asked for by the target role's posting but missing from the resume.
+  | { kind: 'skill'; topic: string; roleTitle: string };
+
+export interface ScheduledDrill {
+  id: string;
+  focus: DrillFocus;
+  format: InterviewFormat;
+  // Kept so a repeat drill starts straight away, without uploading the resume again.
+  resumeData: ResumeData;
+  // Days until the next repeat; grows after strong drills and resets after weak ones.
+  intervalDays: number;
+  dueAt: number;
+  scores: { at: number; score: number }[];
+}
+
+export interface InterviewSessionRecord {
+  id: string;
+  format: InterviewFormat;
+  persona: InterviewerPersona;
+  language: InterviewLanguage;
+  startedAt: number;
+  completedAt: number;
+  resumeData: ResumeData;
+  gapAnalysis: GapAnalysis | null;
+  messages: InterviewMessage[];
+  assessment: Assessment;
+  recording: SessionRecording | null;
+  delivery: DeliveryMetrics | null;
+  coverage: QuestionCoverage | null;
+  events: InterviewEvent[];
+  difficultyCurve: DifficultyStep[];
+  codeSnapshots: CodeSnapshot[];
+  // The diagram as it stood when the interview ended.
+  whiteboard: ImageFrame | null;
+  // Set when the session was a drill rather than a full interview.
+  drill: DrillFocus | null;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { createBlob, decode, INPUT_SAMPLE_RATE, parseSampleRate, pcm16ToFloat32, resample } from './audioHelpers';
+
+const sine = (frequency: number, sampleRate: number, seconds: number): Float32Array => {
+  const out = new Float32Array(Math.round(sampleRate * seconds));
+  for (let i = 0; i < out.length; i++) out[i] = 0.8 * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  return out;
+};
+
+// Counts upward zero crossings, which is accurate enough for a clean sine.
+const estimateFrequency = (samples: Float32Array, sampleRate: number): number => {
+  let crossings = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if (samples[i - 1] < 0 && samples[i] >= 0) crossings++;
+  }
+  return crossings / (samples.length / sampleRate);
+};
+
+describe('resample', () => {
+  it('downsamples 48 kHz to 16 kHz keeping the duration and pitch', () => {
+    const out = resample(sine(440, 48000, 0.5), 48000, 16000);
+    expect(out.length).toBe(8000);
+    expect(estimateFrequency(out, 16000)).toBeCloseTo(440, -1);
+  });
+
+  it('upsamples 24 kHz to 48 kHz keeping the duration and pitch', () => {
+    const out = resample(sine(1000, 24000, 0.25), 24000, 48000);
+    expect(out.length).toBe(12000);
+    expect(estimateFrequency(out, 48000)).toBeCloseTo(1000, -1);
+  });
+
+  it('returns a copy when the rates match', () => {
+    const input = sine(440, 16000, 0.01);
+    const out = resample(input, 16000, 16000);
+    expect(out).not.toBe(input);
+    expect(Array.from(out)).toEqual(Array.from(input));
+  });
+});
+
+describe('pcm16ToFloat32', () => {
+  it('drops the trailing byte of an odd-length buffer', () => {
+    const [channel] = pcm16ToFloat32(new Uint8Array([0x00, 0x40, 0xff, 0x7f, 0x12]));
+    expect(channel.length).toBe(2);
+    expect(channel[0]).toBe(0.5);
+    expect(channel[1]).toBeCloseTo(32767 / 32768);
+  });
+
+  it('reads a view that starts at an odd offset', () => {
+    const bytes = new Uint8Array([0xaa, 0x00, 0xc0, 0x00]);
+    const [channel] = pcm16ToFloat32(bytes.subarray(1));
+    expect(Array.from(channel)).toEqual([-0.5]);
+  });
+
+  it('drops an incomplete stereo frame', () => {
+    const channels = pcm16ToFloat32(new Uint8Array(7), 2);
+    expect(channels.map(c => c.length)).toEqual([1, 1]);
+  });
+});
+
+describe('createBlob', () => {
+  it('resamples to the input rate and labels the blob with it', () => {
+    const blob = createBlob(sine(440, 48000, 0.1), 48000);
+    expect(blob.mimeType).toBe(`audio/pcm;rate=${INPUT_SAMPLE_RATE}`);
+    expect(decode(blob.data).byteLength).toBe(INPUT_SAMPLE_RATE * 0.1 * 2);
+  });
+
+  it('encodes full-scale samples without wrapping', () => {
+    const [channel] = pcm16ToFloat32(decode(createBlob(new Float32Array([1, -1, 2])).data));
+    expect(channel[0]).toBeCloseTo(32767 / 32768);
+    expect(channel[1]).toBe(-1);
+    expect(channel[2]).toBeCloseTo(32767 / 32768);
+  });
+});
+
+describe('parseSampleRate', () => {
+  it('reads the rate from the mime type', () => {
+    expect(parseSampleRate('audio/pcm;rate=24000', 16000)).toBe(24000);
+  });
+
+  it('falls back when the rate is missing or invalid', () => {
+    expect(parseSampleRate('audio/pcm', 24000)).toBe(24000);
+    expect(parseSampleRate('audio/pcm;rate=0', 24000)).toBe(24000);
+    expect(parseSampleRate(undefined, 24000)).toBe(24000);
+  });
+});
@@ -1,3 +1,7 @@
+// The Live API takes 16 kHz PCM in and returns 24 kHz PCM out.
+export const INPUT_SAMPLE_RATE = 16000;
+export const OUTPUT_SAMPLE_RATE = 24000;
+
 export function decode(base64: string): Uint8Array {
   const binaryString = atob(base64);
   const len = binaryString.length;
@@ -17,35 +21,133 @@ export function encode(bytes: Uint8Array): string {
   return btoa(binary);
 }
 
+// Reads little-endian 16-bit PCM without assuming the bytes are aligned or come in complete frames;
+// a trailing odd byte or partial frame is dropped rather than throwing.
+export function pcm16ToFloat32(data: Uint8Array, numChannels: number = 1): Float32Array[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const frameCount = Math.floor(data.byteLength / (2 * numChannels));
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = new Float32Array(frameCount);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = view.getInt16((i * numChannels + channel) * 2, true) / 32768.0;
+    }
+    channels.push(channelData);
+  }
+  return channels;
+}
+
+// Returns the rate declared in a mime type like "audio/pcm;rate=24000", or the fallback.
+export function parseSampleRate(mimeType: string | undefined, fallback: number): number {
+  const match = mimeType?.match(/rate=(\d+)/);
+  const rate = match ? parseInt(match[1], 10) : NaN;
+  return rate > 0 ? rate : fallback;
+}
+
+// Browsers may ignore or reject the requested rate (e.g. when it differs from the audio device), so callers
+// must read `ctx.sampleRate` back instead of assuming the request was honoured.
+export function createAudioContext(preferredSampleRate: number): AudioContext {
+  const AudioContextCtor: typeof AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+  try {
+    return new AudioContextCtor({ sampleRate: preferredSampleRate });
+  } catch {
+    return new AudioContextCtor();
+  }
+}
+
 export async function decodeAudioData(
   data: Uint8Array,
   ctx: AudioContext,
   sampleRate: number,
   numChannels: number,
 ): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+  const channels = pcm16ToFloat32(data, numChannels);
+  const frameCount = channels[0]?.length ?? 0;
+  // createBuffer rejects empty buffers; a one-sample silent buffer keeps the playback queue consistent.
+  const buffer = ctx.createBuffer(numChannels, Math.max(1, frameCount), sampleRate);
 
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
+  channels.forEach((channelData, channel) => buffer.copyToChannel(channelData, channel));
   return buffer;
 }
 
-export function createBlob(data: Float32Array): { data: string; mimeType: string } {
+// `sourceRate` is the real rate of `data`; it is resampled to the rate the API expects before encoding.
+export function createBlob(data: Float32Array, sourceRate: number = INPUT_SAMPLE_RATE): { data: string; mimeType: string } {
+  if (sourceRate !== INPUT_SAMPLE_RATE) {
+    data = resample(data, sourceRate, INPUT_SAMPLE_RATE);
+  }
+  return createPcmBlob(float32ToPcm16(data));
+}
+
+export function float32ToPcm16(data: Float32Array): Int16Array {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
-    // Normalizing and clipping to prevent overflow
+    // Clip, then scale each side separately: Int16 reaches -32768 but only +32767, so 1.0 must not wrap.
     const s = Math.max(-1, Math.min(1, data[i]));
-    int16[i] = s * 32768;
+    int16[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
   }
+  return int16;
+}
+
+// For PCM that was already converted off the main thread by the capture worklet, at the API's input rate.
+export function createPcmBlob(pcm: Int16Array): { data: string; mimeType: string } {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+    mimeType: `audio/pcm;rate=${INPUT_SAMPLE_RATE}`,
+  };
+}
+// Linear interpolation when upsampling, box averaging when downsampling (a cheap anti-alias filter).
+// Plenty for speech and keeps this dependency-free.
+export function resample(data: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate || data.length === 0) return data.slice();
+  const outLength = Math.round((data.length * toRate) / fromRate);
+  const out = new Float32Array(outLength);
+  const ratio = fromRate / toRate;
+
+  if (ratio > 1) {
+    for (let i = 0; i < outLength; i++) {
+      const start = Math.floor(i * ratio);
+      const end = Math.min(data.length, Math.max(start + 1, Math.floor((i + 1) * ratio)));
+      let sum = 0;
+      for (let j = start; j < end; j++) sum += data[j];
+      out[i] = sum / (end - start);
+    }
+    return out;
+  }
+
+  for (let i = 0; i < outLength; i++) {
+    const pos = i * ratio;
+    const idx = Math.min(Math.floor(pos), data.length - 1);
+    const next = Math.min(idx + 1, data.length - 1);
+    const frac = pos - idx;
+    out[i] = data[idx] + (data[next] - data[idx]) * frac;
+  }
+  return out;
+}
+
+// Takes the samples in consecutive blocks and hands them to the Blob as they are, so a long recording is never
+// copied into one contiguous buffer first.
+export function encodeWav(blocks: Int16Array[], sampleRate: number): Blob {
+  const dataLength = blocks.reduce((sum, block) => sum + block.byteLength, 0);
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
   };
-}
\ No newline at end of file
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  return new Blob([header, ...blocks], { type: 'audio/wav' });
+}
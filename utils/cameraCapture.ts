@@ -0,0 +1,24 @@
+import { ImageFrame } from '../types';
+
+// Resolves false instead of throwing when device listing is unsupported or blocked.
+export async function hasCamera(): Promise<boolean> {
+  try {
+    const devices = await navigator.mediaDevices?.enumerateDevices?.();
+    return !!devices?.some(device => device.kind === 'videoinput');
+  } catch {
+    return false;
+  }
+}
+
+// A JPEG of the video's current frame scaled to `width`, or null until the camera has produced one.
+export function captureVideoFrame(video: HTMLVideoElement, width: number, quality = 0.6): ImageFrame | null {
+  if (!video.videoWidth || !video.videoHeight) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = Math.round((video.videoHeight / video.videoWidth) * width);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  const dataUrl = canvas.toDataURL('image/jpeg', quality);
+  return { at: Date.now(), mimeType: 'image/jpeg', data: dataUrl.slice(dataUrl.indexOf(',') + 1) };
+}
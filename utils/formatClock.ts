@@ -0,0 +1,5 @@
+// m:ss for replay offsets and the live session clock; negative input reads as 0:00.
+export function formatClock(seconds: number): string {
+  const s = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
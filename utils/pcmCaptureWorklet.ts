@@ -0,0 +1,94 @@
+// Runs inside the AudioWorkletGlobalScope. Kept as a source string and loaded through a Blob URL so the
+// worklet ships with the app bundle regardless of how the host serves static files.
+const PROCESSOR_NAME = 'pcm-capture-processor';
+
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.chunkSize = options.processorOptions.chunkSize;
+    this.samples = new Float32Array(this.chunkSize);
+    this.filled = 0;
+    this.peak = 0;
+  }
+
+  flush() {
+    const samples = this.samples;
+    const pcm = new Int16Array(this.chunkSize);
+    for (let i = 0; i < this.chunkSize; i++) {
+      // Clip, then scale each side separately: Int16 reaches -32768 but only +32767, so 1.0 must not wrap.
+      const s = Math.max(-1, Math.min(1, samples[i]));
+      pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    }
+    this.port.postMessage({ pcm: pcm.buffer, samples: samples.buffer, peak: this.peak }, [pcm.buffer, samples.buffer]);
+    this.samples = new Float32Array(this.chunkSize);
+    this.filled = 0;
+    this.peak = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    let offset = 0;
+    while (offset < channel.length) {
+      const count = Math.min(channel.length - offset, this.chunkSize - this.filled);
+      for (let i = 0; i < count; i++) {
+        const value = channel[offset + i];
+        this.samples[this.filled + i] = value;
+        const magnitude = value < 0 ? -value : value;
+        if (magnitude > this.peak) this.peak = magnitude;
+      }
+      this.filled += count;
+      offset += count;
+      if (this.filled === this.chunkSize) this.flush();
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+export interface PcmChunk {
+  pcm: Int16Array;
+  samples: Float32Array;
+  peak: number;
+}
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+export async function createPcmCaptureNode(
+  ctx: AudioContext,
+  onChunk: (chunk: PcmChunk) => void,
+  chunkSize = 2048,
+): Promise<AudioWorkletNode> {
+  if (!ctx.audioWorklet) {
+    throw new Error("Your browser does not support AudioWorklet.");
+  }
+
+  if (!loadedContexts.has(ctx)) {
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    try {
+      await ctx.audioWorklet.addModule(url);
+      loadedContexts.add(ctx);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    processorOptions: { chunkSize },
+  });
+  node.port.onmessage = (e: MessageEvent<{ pcm: ArrayBuffer; samples: ArrayBuffer; peak: number }>) => {
+    onChunk({
+      pcm: new Int16Array(e.data.pcm),
+      samples: new Float32Array(e.data.samples),
+      peak: e.data.peak,
+    });
+  };
+  return node;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE } from './audioHelpers';
+import { createSessionRecorder } from './sessionRecorder';
+
+const constant = (value: number, sampleRate: number, seconds: number) =>
+  new Float32Array(Math.round(sampleRate * seconds)).fill(value);
+
+// Reads the recording back as Int16 samples, skipping the 44-byte WAV header.
+const samplesOf = async (audio: Blob) => new Int16Array((await audio.arrayBuffer()).slice(44));
+
+describe('createSessionRecorder', () => {
+  it('stores the interview as 16 kHz 16-bit PCM', async () => {
+    const recorder = createSessionRecorder(0);
+    recorder.addInput(constant(0.5, 48000, 1), 48000, 1000);
+    recorder.addInput(constant(0.5, 48000, 1), 48000, 2000);
+    const { durationMs, audio } = recorder.finish();
+
+    expect(durationMs).toBe(2000);
+    expect(audio.size).toBe(44 + 2 * INPUT_SAMPLE_RATE * 2);
+    const view = new DataView(await audio.slice(0, 44).arrayBuffer());
+    expect(view.getUint32(24, true)).toBe(INPUT_SAMPLE_RATE);
+    expect(view.getUint16(34, true)).toBe(16);
+  });
+
+  it('mixes both sides and clips instead of wrapping', async () => {
+    const recorder = createSessionRecorder(0);
+    recorder.addOutput(constant(0.75, OUTPUT_SAMPLE_RATE, 1), OUTPUT_SAMPLE_RATE, 0);
+    recorder.addInput(constant(0.75, INPUT_SAMPLE_RATE, 1), INPUT_SAMPLE_RATE, 1000);
+    const samples = await samplesOf(recorder.finish().audio);
+
+    expect(samples.length).toBe(INPUT_SAMPLE_RATE);
+    expect(samples[INPUT_SAMPLE_RATE / 2]).toBe(32767);
+  });
+
+  it('drops interviewer audio that an interruption cut off', async () => {
+    const recorder = createSessionRecorder(0);
+    recorder.addOutput(constant(0.5, OUTPUT_SAMPLE_RATE, 1), OUTPUT_SAMPLE_RATE, 0);
+    recorder.addOutput(constant(0.5, OUTPUT_SAMPLE_RATE, 1), OUTPUT_SAMPLE_RATE, 1000);
+    recorder.discardOutputAfter(500);
+    const { durationMs, audio } = recorder.finish();
+
+    expect(durationMs).toBe(500);
+    expect((await samplesOf(audio)).every(s => s === 16383)).toBe(true);
+  });
+
+  it('spans more than one timeline block', async () => {
+    const recorder = createSessionRecorder(0);
+    recorder.addInput(constant(0.25, INPUT_SAMPLE_RATE, 90), INPUT_SAMPLE_RATE, 90000);
+    const samples = await samplesOf(recorder.finish().audio);
+
+    expect(samples.length).toBe(90 * INPUT_SAMPLE_RATE);
+    expect(samples.at(-1)).toBe(Math.trunc(0.25 * 0x7fff));
+  });
+});
@@ -0,0 +1,91 @@
+import { SessionRecording } from '../types';
+import { encodeWav, float32ToPcm16, INPUT_SAMPLE_RATE, resample } from './audioHelpers';
+
+// Both sides are mixed onto one mono 16-bit timeline at the mic's rate: plenty for speech, and about
+// 1.9 MB per minute instead of keeping every chunk as float for the whole interview.
+const TIMELINE_RATE = INPUT_SAMPLE_RATE;
+// Mic chunks arriving within this much of where the previous one ended are treated as contiguous.
+const INPUT_DRIFT_TOLERANCE = 0.25 * TIMELINE_RATE;
+// The timeline grows a minute at a time so it is never reallocated and copied as the interview runs on.
+const BLOCK_SAMPLES = 60 * TIMELINE_RATE;
+
+interface TimelineChunk {
+  startSample: number;
+  samples: Int16Array;
+}
+
+export interface SessionRecorder {
+  readonly startedAt: number;
+  addInput: (data: Float32Array, sampleRate: number, at?: number) => void;
+  addOutput: (data: Float32Array, sampleRate: number, at: number) => void;
+  discardOutputAfter: (at: number) => void;
+  finish: () => SessionRecording;
+}
+
+export function createSessionRecorder(startedAt: number = Date.now()): SessionRecorder {
+  const blocks: Int16Array[] = [];
+  let length = 0;
+  // Output is scheduled ahead of playback and an interruption may still cut it, so it is only mixed in once played.
+  let pendingOutput: TimelineChunk[] = [];
+  let inputCursor = 0;
+
+  const toSample = (at: number) => Math.max(0, Math.round(((at - startedAt) / 1000) * TIMELINE_RATE));
+
+  const mixIn = ({ startSample, samples }: TimelineChunk) => {
+    for (let i = 0; i < samples.length; i++) {
+      const index = startSample + i;
+      const block = Math.floor(index / BLOCK_SAMPLES);
+      while (blocks.length <= block) blocks.push(new Int16Array(BLOCK_SAMPLES));
+      const offset = index - block * BLOCK_SAMPLES;
+      blocks[block][offset] = Math.max(-32768, Math.min(32767, blocks[block][offset] + samples[i]));
+    }
+    length = Math.max(length, startSample + samples.length);
+  };
+
+  const mixPlayedOutput = (before: number) => {
+    pendingOutput = pendingOutput.filter(chunk => {
+      if (chunk.startSample + chunk.samples.length > before) return true;
+      mixIn(chunk);
+      return false;
+    });
+  };
+
+  return {
+    startedAt,
+
+    // `at` is when the chunk was captured, i.e. the wall-clock time of its last sample.
+    addInput: (data, sampleRate, at = Date.now()) => {
+      const samples = float32ToPcm16(resample(data, sampleRate, TIMELINE_RATE));
+      const expectedStart = toSample(at) - samples.length;
+      const startSample = Math.abs(expectedStart - inputCursor) < INPUT_DRIFT_TOLERANCE
+        ? inputCursor
+        : Math.max(0, expectedStart);
+      mixIn({ startSample, samples });
+      inputCursor = startSample + samples.length;
+      mixPlayedOutput(toSample(at));
+    },
+
+    // `at` is the wall-clock time playback of the chunk begins.
+    addOutput: (data, sampleRate, at) => {
+      pendingOutput.push({ startSample: toSample(at), samples: float32ToPcm16(resample(data, sampleRate, TIMELINE_RATE)) });
+    },
+
+    // Called when the candidate interrupts: audio scheduled past this point was never heard.
+    discardOutputAfter: (at) => {
+      const cutoff = toSample(at);
+      pendingOutput = pendingOutput
+        .filter(chunk => chunk.startSample < cutoff)
+        .map(chunk => ({ ...chunk, samples: chunk.samples.subarray(0, cutoff - chunk.startSample) }));
+    },
+
+    finish: () => {
+      mixPlayedOutput(Infinity);
+      const used = blocks.map((block, i) => block.subarray(0, Math.max(0, Math.min(BLOCK_SAMPLES, length - i * BLOCK_SAMPLES))));
+      return {
+        startedAt,
+        durationMs: (length / TIMELINE_RATE) * 1000,
+        audio: encodeWav(used, TIMELINE_RATE),
+      };
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { createVoiceActivityTracker } from './voiceActivityTracker';
+
+describe('createVoiceActivityTracker', () => {
+  it('counts scheduled interviewer audio as talk time', () => {
+    const tracker = createVoiceActivityTracker();
+    tracker.addOutput(400, 1000);
+    tracker.addOutput(600, 1400);
+    tracker.addOutput(500, 5000);
+    expect(tracker.snapshot().interviewerTalkMs).toBe(1500);
+  });
+
+  it('drops talk time an interruption cut off', () => {
+    const tracker = createVoiceActivityTracker();
+    tracker.addOutput(1000, 1000);
+    tracker.addOutput(1000, 2000);
+    tracker.addOutput(1000, 3000);
+    tracker.discardOutputAfter(1500);
+    expect(tracker.snapshot().interviewerTalkMs).toBe(500);
+
+    tracker.addOutput(200, 4000);
+    expect(tracker.snapshot().interviewerTalkMs).toBe(700);
+  });
+
+  it('merges voiced mic chunks separated by short gaps', () => {
+    const tracker = createVoiceActivityTracker();
+    tracker.addInput(0.5, 100, 1100);
+    tracker.addInput(0.5, 100, 1300);
+    tracker.addInput(0.01, 100, 1400);
+    tracker.addInput(0.5, 100, 2000);
+    expect(tracker.snapshot().segments).toEqual([{ start: 1000, end: 1300 }, { start: 1900, end: 2000 }]);
+  });
+});
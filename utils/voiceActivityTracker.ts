@@ -0,0 +1,55 @@
+import { VoiceActivity } from '../types';
+
+// Peak level above which a mic chunk counts as speech; matches the silence monitor's threshold.
+const SPEECH_PEAK = 0.04;
+// Voiced chunks closer together than this are one stretch of speech rather than a pause.
+const MERGE_GAP_MS = 250;
+
+export interface VoiceActivityTracker {
+  addInput: (peak: number, durationMs: number, at?: number) => void;
+  addOutput: (durationMs: number, at: number) => void;
+  discardOutputAfter: (at: number) => void;
+  snapshot: () => VoiceActivity;
+}
+
+export function createVoiceActivityTracker(): VoiceActivityTracker {
+  const segments: VoiceActivity['segments'] = [];
+  // Scheduled interviewer playback; back-to-back chunks merge into one span.
+  let outputSpans: { start: number; end: number }[] = [];
+
+  return {
+    // `at` is when the chunk was captured, i.e. the wall-clock time of its last sample.
+    addInput: (peak, durationMs, at = Date.now()) => {
+      if (peak <= SPEECH_PEAK) return;
+      const start = at - durationMs;
+      const last = segments[segments.length - 1];
+      if (last && start - last.end <= MERGE_GAP_MS) {
+        last.end = Math.max(last.end, at);
+      } else {
+        segments.push({ start, end: at });
+      }
+    },
+
+    // `at` is the wall-clock time playback of the chunk begins.
+    addOutput: (durationMs, at) => {
+      const last = outputSpans[outputSpans.length - 1];
+      if (last && at <= last.end) {
+        last.end = Math.max(last.end, at + durationMs);
+      } else {
+        outputSpans.push({ start: at, end: at + durationMs });
+      }
+    },
+
+    // Called when the candidate interrupts: playback scheduled past this point was never heard.
+    discardOutputAfter: (at) => {
+      outputSpans = outputSpans
+        .filter(span => span.start < at)
+        .map(span => ({ start: span.start, end: Math.min(span.end, at) }));
+    },
+
+    snapshot: () => ({
+      segments: segments.map(s => ({ ...s })),
+      interviewerTalkMs: outputSpans.reduce((sum, span) => sum + span.end - span.start, 0),
+    }),
+  };
+}
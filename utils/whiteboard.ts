@@ -0,0 +1,77 @@
+import { ImageFrame, InterviewFormat, WhiteboardPoint, WhiteboardShape } from '../types';
+
+// The board is drawn at this size and scaled to fit on screen, so shapes keep their layout at any width.
+export const WHITEBOARD_WIDTH = 1200;
+export const WHITEBOARD_HEIGHT = 675;
+
+// How often a changed board is streamed to the live interviewer; an unchanged board is never resent.
+export const WHITEBOARD_FRAME_INTERVAL_MS = 3000;
+
+// Formats that open the whiteboard straight away; it can still be opened in any format.
+export const WHITEBOARD_FORMATS: InterviewFormat[] = [InterviewFormat.SYSTEM_DESIGN];
+
+const INK = '#0f172a';
+const ARROW_HEAD = 14;
+
+function drawArrowHead(ctx: CanvasRenderingContext2D, from: WhiteboardPoint, to: WhiteboardPoint): void {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(to.x - ARROW_HEAD * Math.cos(angle - Math.PI / 6), to.y - ARROW_HEAD * Math.sin(angle - Math.PI / 6));
+  ctx.lineTo(to.x - ARROW_HEAD * Math.cos(angle + Math.PI / 6), to.y - ARROW_HEAD * Math.sin(angle + Math.PI / 6));
+  ctx.closePath();
+  ctx.fill();
+}
+
+// Paints the shapes on a white background; the background matters because JPEG frames have no transparency.
+export function drawWhiteboard(ctx: CanvasRenderingContext2D, shapes: WhiteboardShape[]): void {
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, WHITEBOARD_WIDTH, WHITEBOARD_HEIGHT);
+  ctx.strokeStyle = INK;
+  ctx.fillStyle = INK;
+  ctx.lineWidth = 3;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.font = '600 22px Inter, system-ui, sans-serif';
+  ctx.textBaseline = 'middle';
+
+  shapes.forEach(shape => {
+    switch (shape.kind) {
+      case 'pen':
+        if (shape.points.length === 0) return;
+        ctx.beginPath();
+        ctx.moveTo(shape.points[0].x, shape.points[0].y);
+        shape.points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+        ctx.stroke();
+        return;
+      case 'box':
+        ctx.strokeRect(shape.from.x, shape.from.y, shape.to.x - shape.from.x, shape.to.y - shape.from.y);
+        return;
+      case 'arrow':
+        ctx.beginPath();
+        ctx.moveTo(shape.from.x, shape.from.y);
+        ctx.lineTo(shape.to.x, shape.to.y);
+        ctx.stroke();
+        drawArrowHead(ctx, shape.from, shape.to);
+        return;
+      case 'text':
+        ctx.fillText(shape.text, shape.at.x, shape.at.y);
+        return;
+    }
+  });
+}
+
+// Renders off-screen, so a frame can be taken whether or not the board is currently shown.
+export function renderWhiteboard(shapes: WhiteboardShape[], mimeType: 'image/png' | 'image/jpeg', quality = 0.8): ImageFrame {
+  const canvas = document.createElement('canvas');
+  canvas.width = WHITEBOARD_WIDTH;
+  canvas.height = WHITEBOARD_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (ctx) drawWhiteboard(ctx, shapes);
+  const dataUrl = canvas.toDataURL(mimeType, quality);
+  return { at: Date.now(), mimeType, data: dataUrl.slice(dataUrl.indexOf(',') + 1) };
+}
+
+export function whiteboardDataUrl(image: ImageFrame): string {
+  return `data:${image.mimeType};base64,${image.data}`;
+}